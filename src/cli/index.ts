@@ -2,10 +2,8 @@
 import { Command } from 'commander';
 import fs from 'node:fs';
 import path from 'node:path';
-import { extract, exportUnitsToJson, exportUnitsToXliff, merge, parseConfig, parseTranslated, extractStream } from '../index.js';
-import { exportToXliffStreamFromIterator } from '../exporter/xliff_stream.js';
-import { extractStreamWorkbook } from '../io/stream.js';
-import type { Config } from '../types.js';
+import { extract, exportUnitsToJson, exportUnitsToJsonLines, exportUnitsToJsonStream, exportUnitsToXliff, exportUnitsToXliffStream, filterUnitsForLocale, merge, mergeStream, parseConfig, parseTranslated, parseTranslatedStream, prefillTargets, extractStream } from '../index.js';
+import type { Config, MergeReport, TranslationUnit } from '../types.js';
 
 const program = new Command();
 program
@@ -16,13 +14,15 @@ program
 program.command('extract')
   .requiredOption('-i, --input <xlsx>', 'Input Excel file')
   .option('-c, --config <path>', 'Config file (json|yaml)')
-  .requiredOption('-o, --output <path>', 'Output file (xlf|json)')
-  .option('--format <fmt>', 'Output format: xlf|json', 'xlf')
+  .requiredOption('-o, --output <path>', 'Output file (xlf|json|jsonl)')
+  .option('--format <fmt>', 'Output format: xlf|json|jsonl (one unit per line)', 'xlf')
   .option('--src-lang <lang>', 'Source language')
   .option('--target-lang <lang>', 'Target language for XLIFF; if omitted and multiple targets exist, use --per-locale')
   .option('--per-locale', 'For XLIFF, emit one file per target locale (suffix: .<locale>.xlf)', false)
   .option('--xliff-version <version>', 'XLIFF version: 1.2|2.1 (default: 2.1)', '2.1')
   .option('--stream', 'Experimental: stream extraction for very large files', false)
+  .option('--only-untranslated', 'Extract only cells whose target is empty, or stale since a merge with global.mergeState', false)
+  .option('--prefill-targets', 'Fill segment targets from existing target cells (state "translated") for review', false)
   // quick inline overrides / minimal config
   .option('--sheet <name>', 'Sheet name or regex')
   .option('--source <cols>', 'Source columns, e.g. A or A,B')
@@ -73,35 +73,83 @@ program.command('extract')
     } else if (opts.xliffVersion && !cfg.global) {
       cfg.global = { xliffVersion: (opts.xliffVersion === '1.2' ? '1.2' : '2.1') as '1.2' | '2.1' };
     }
-    // Stream mode: write XLIFF progressively directly to file to avoid buffering
+    const extractOptions = {
+      log: opts.verbose ? (msg: string) => console.log(msg) : undefined,
+      warn: (msg: string) => console.warn(msg),
+      onlyUntranslated: !!opts.onlyUntranslated,
+      prefillTargets: !!opts.prefillTargets,
+    };
+    const fmt = (opts.format || 'xlf').toLowerCase();
+    const jsonMeta = () => ({ fileName: path.basename(opts.input), timestamp: new Date().toISOString() });
+    // Stream mode: write the output progressively directly to file to avoid buffering
     if (opts.stream) {
-      const fmt = (opts.format || 'xlf').toLowerCase();
-      if (fmt !== 'xlf' && fmt !== 'xliff') {
-        console.error('--stream currently supports XLIFF output only.');
+      if (opts.prefillTargets) {
+        console.error('--prefill-targets is not supported with --stream.');
         process.exit(1);
       }
-      const iter = extractStreamWorkbook(opts.input, cfg);
-      await exportToXliffStreamFromIterator(iter, cfg, { srcLang: opts.srcLang || cfg.global?.srcLang, generator: 'excel-l10n' }, opts.output);
+      // Ctrl-C stops reading and removes the partial output
+      const abort = new AbortController();
+      process.once('SIGINT', () => abort.abort());
+      let reported = -1;
+      const extracted = extractStream(opts.input, cfg, {
+        ...extractOptions,
+        signal: abort.signal,
+        onProgress: opts.verbose
+          ? ({ sheet, row, percent }) => {
+            if (percent < reported + 10) return;
+            reported = percent;
+            console.log(`${percent}% (sheet '${sheet}', row ${row})`);
+          }
+          : undefined,
+      });
+      // With --target-lang the output keeps that locale's pending units, as without --stream
+      const pendingFor = async function* (locale: string): AsyncGenerator<TranslationUnit> {
+        for await (const u of extracted) if (filterUnitsForLocale([u], locale).length) yield u;
+      };
+      const iter = opts.onlyUntranslated && opts.targetLang ? pendingFor(opts.targetLang) : extracted;
+      try {
+        if (fmt === 'json' || fmt === 'jsonl') {
+          await exportUnitsToJsonStream(iter, cfg, opts.output, { meta: jsonMeta(), format: fmt });
+        } else {
+          await exportUnitsToXliffStream(iter, cfg, opts.output, { srcLang: opts.srcLang || cfg.global?.srcLang, trgLang: opts.targetLang, generator: 'excel-l10n' });
+        }
+      } catch (e) {
+        if (!abort.signal.aborted) throw e;
+        console.error('Extraction cancelled.');
+        process.exit(130);
+      }
       if (opts.verbose) console.log(`Wrote ${opts.output}`);
       return;
     }
-    const units = await extract(opts.input, cfg);
-    const fmt = (opts.format || 'xlf').toLowerCase();
+    // Existing targets are prefilled for one locale at a time, so each output needs one
+    const locales = Array.from(new Set(cfg.workbook.sheets.flatMap(s => Object.keys(s.targetColumns || {})))).filter(Boolean);
+    const perLocale = opts.perLocale && fmt !== 'json' && fmt !== 'jsonl' && locales.length > 0;
+    if (opts.prefillTargets && !opts.targetLang && !perLocale) {
+      console.error('--prefill-targets needs a target locale: use --target-lang, or --per-locale with XLIFF output.');
+      process.exit(1);
+    }
+    const units = await extract(opts.input, cfg, extractOptions);
+    // A single-locale output keeps that locale's pending units and gets its existing translations prefilled
+    const forLocale = (lc?: string) => {
+      if (!lc) return units;
+      const pending = opts.onlyUntranslated ? filterUnitsForLocale(units, lc) : units;
+      return opts.prefillTargets ? prefillTargets(pending, lc, cfg) : pending;
+    };
     if (fmt === 'json') {
-      const out = await exportUnitsToJson(units, cfg, { fileName: path.basename(opts.input), timestamp: new Date().toISOString() });
+      const out = await exportUnitsToJson(forLocale(opts.targetLang), cfg, jsonMeta());
       fs.writeFileSync(opts.output, out, 'utf-8');
+    } else if (fmt === 'jsonl') {
+      fs.writeFileSync(opts.output, exportUnitsToJsonLines(forLocale(opts.targetLang), cfg), 'utf-8');
     } else {
-      const targets = cfg.workbook.sheets.flatMap(s => Object.keys(s.targetColumns || {}));
-      const uniqueTargets = Array.from(new Set(targets)).filter(Boolean);
-      if (opts.perLocale && uniqueTargets.length > 0) {
-        for (const lc of uniqueTargets) {
+      if (perLocale) {
+        for (const lc of locales) {
           const outFile = opts.output.replace(/\.xlf$/i, `.${lc}.xlf`);
-          const out = await exportUnitsToXliff(units, cfg, { srcLang: (opts.srcLang || cfg.global?.srcLang), trgLang: lc, generator: 'excel-l10n' });
+          const out = await exportUnitsToXliff(forLocale(lc), cfg, { srcLang: (opts.srcLang || cfg.global?.srcLang), trgLang: lc, generator: 'excel-l10n' });
           fs.writeFileSync(outFile, out, 'utf-8');
           if (opts.verbose) console.log(`Wrote ${outFile}`);
         }
       } else {
-        const out = await exportUnitsToXliff(units, cfg, { srcLang: opts.srcLang || cfg.global?.srcLang, trgLang: opts.targetLang, generator: 'excel-l10n' });
+        const out = await exportUnitsToXliff(forLocale(opts.targetLang), cfg, { srcLang: opts.srcLang || cfg.global?.srcLang, trgLang: opts.targetLang, generator: 'excel-l10n' });
         fs.writeFileSync(opts.output, out, 'utf-8');
       }
     }
@@ -162,7 +210,7 @@ program.command('pseudo')
 program.command('validate')
   .requiredOption('-t, --translated <paths>', 'Translated inputs: file, comma list, or directory')
   .option('--length-factor <x>', 'Warn if target > x * source length (default 2)', parseFloat, 2)
-  .option('--format <fmt>', 'Format override: xlf|json', (v) => v, undefined)
+  .option('--format <fmt>', 'Format override: xlf|json|jsonl', (v) => v, undefined)
   .option('--json', 'Output JSON report and exit 1 on findings', false)
   .option('--verbose', 'Verbose logging', false)
   .action(async (opts) => {
@@ -172,7 +220,7 @@ program.command('validate')
         const st = fs.statSync(abs);
         if (st.isDirectory()) {
           return fs.readdirSync(abs)
-            .filter(f => /(xlf|xliff|json)$/i.test(f))
+            .filter(f => /(xlf|xliff|json|jsonl)$/i.test(f))
             .map(f => path.join(abs, f));
         }
       } catch { /* ignore */ }
@@ -195,10 +243,11 @@ program.command('validate')
 program.command('merge')
   .requiredOption('-i, --input <xlsx>', 'Input Excel file')
   .requiredOption('-c, --config <path>', 'Config file (json|yaml)')
-  .requiredOption('-t, --translated <path>', 'Translated input: file, comma-separated list, or directory (xlf/xliff/json)')
+  .requiredOption('-t, --translated <path>', 'Translated input: file, comma-separated list, or directory (xlf/xliff/json/jsonl)')
   .requiredOption('-o, --output <xlsx>', 'Output Excel file')
-  .option('--format <fmt>', 'Format of translated file: xlf|json', (val) => val, undefined)
+  .option('--format <fmt>', 'Format of translated file: xlf|json|jsonl', (val) => val, undefined)
   .option('--dry-run', 'Validate config and show actions without writing', false)
+  .option('--stream', 'Rewrite worksheets row by row instead of loading the workbook (for very large files)', false)
   .option('--verbose', 'Verbose logging', false)
   .action(async (opts) => {
     const cfg = parseConfig(opts.config);
@@ -211,7 +260,7 @@ program.command('merge')
         const st = fs.statSync(abs);
         if (st.isDirectory()) {
           return fs.readdirSync(abs)
-            .filter(f => /\.(xlf|xliff|json)$/i.test(f))
+            .filter(f => /\.(xlf|xliff|json|jsonl)$/i.test(f))
             .map(f => path.join(abs, f));
         }
       } catch { /* ignore */ }
@@ -224,18 +273,48 @@ program.command('merge')
       process.exit(1);
     }
 
-    const allUnits = inputs.flatMap((fp) => {
-      const raw = fs.readFileSync(fp, 'utf-8');
-      const fmt = opts.format || (fp.endsWith('.json') ? 'json' : 'xlf');
-      if (opts.verbose) console.log(`Parsing ${fp} as ${fmt}`);
-      return parseTranslated(raw, fmt === 'json' ? 'json' : 'xlf');
-    });
-    if (opts.verbose) console.log(`Parsed ${allUnits.length} units from ${inputs.length} input(s).`);
+    let parsed = 0;
+    async function* translatedUnits(): AsyncGenerator<TranslationUnit> {
+      for (const fp of inputs) {
+        const fmt = opts.format || (fp.endsWith('.jsonl') ? 'jsonl' : fp.endsWith('.json') ? 'json' : 'xlf');
+        if (opts.verbose) console.log(`Parsing ${fp} as ${fmt}`);
+        // JSON and JSON Lines are read unit by unit, so only the unit being merged is held
+        const units = fmt === 'json' || fmt === 'jsonl' ? parseTranslatedStream(fp, fmt) : parseTranslated(fs.readFileSync(fp, 'utf-8'), 'xlf');
+        for await (const u of units) {
+          parsed++;
+          yield u;
+        }
+      }
+    }
     if (opts.dry_run || opts['dry-run']) {
-      console.log(`Would merge ${allUnits.length} units into ${opts.input} → ${opts.output}`);
+      const units = translatedUnits();
+      while (!(await units.next()).done) { /* count only */ }
+      console.log(`Would merge ${parsed} units into ${opts.input} → ${opts.output}`);
       return;
     }
-    await merge(opts.input, opts.output, allUnits, cfg);
+    let report: MergeReport;
+    if (opts.stream) {
+      // Units go to the streaming merge as they are parsed
+      report = await mergeStream(opts.input, opts.output, translatedUnits(), cfg);
+    } else {
+      const allUnits: TranslationUnit[] = [];
+      for await (const u of translatedUnits()) allUnits.push(u);
+      report = await merge(opts.input, opts.output, allUnits, cfg);
+    }
+    if (opts.verbose) console.log(`Merged ${parsed} units from ${inputs.length} input(s).`);
+    for (const m of report.missingKeys) {
+      console.warn(`Key '${m.key}' not found on sheet '${m.sheetName}' (unit ${m.unitId}); skipped.`);
+    }
+    for (const t of report.tooLong) {
+      const action = cfg.global?.enforceMaxChars ? 'not written' : 'written anyway';
+      console.warn(`Target of ${t.unitId} (${t.locale}) has ${t.length} characters, limit is ${t.limit}; ${action}.`);
+    }
+    for (const f of report.invalidFormulas) {
+      console.warn(`Translation of ${f.unitId} (${f.locale}) ${f.reason}; the source formula was written instead.`);
+    }
+    for (const v of report.invalidListValues) {
+      console.warn(`Translation of ${v.unitId} (${v.locale}) ${v.reason}; the list keeps the source value.`);
+    }
     if (opts.verbose) console.log(`Wrote ${opts.output}`);
   });
 
@@ -1,12 +1,15 @@
 import { Config, TranslationUnit } from '../types.js';
+import { HEADER_FOOTER_CODE } from '../io/parts.js';
+import { FORMULA_CODE } from '../io/formula.js';
+import { sheetConfigFor } from '../io/sheets.js';
 
 function regexesForUnit(u: TranslationUnit, config: Config): RegExp[] {
-  const sheetCfg = config.workbook.sheets.find(s => {
-    try { return new RegExp(s.namePattern).test(u.sheetName) || s.namePattern === u.sheetName; } catch { return s.namePattern === u.sheetName; }
-  });
+  const sheetCfg = sheetConfigFor(config, u);
   const res = (sheetCfg?.inlineCodeRegexes || []).map(r => {
     try { return new RegExp(r, 'g'); } catch { return null; }
   }).filter((x): x is RegExp => !!x);
+  if (u.kind === 'headerFooter') res.push(new RegExp(HEADER_FOOTER_CODE, 'g'));
+  if (u.meta?.formulaCodes) res.push(new RegExp(FORMULA_CODE, 'g'));
   return res;
 }
 
@@ -23,25 +26,47 @@ function computePlaceholderMap(text: string, regs: RegExp[]): Record<string, str
   return map;
 }
 
-export async function exportToJson(units: TranslationUnit[], config?: Config, meta?: Record<string, any>): Promise<string> {
-  let enriched = units;
-  if (config) {
-    enriched = units.map(u => {
-      const regs = regexesForUnit(u, config);
-      if (!regs.length) return u;
-      const mapBySeg: Record<string, Record<string, string>> = {};
-      const segs = (u.segments && u.segments.length) ? u.segments : [{ id: `${u.id}_s0`, source: u.source }];
-      for (const s of segs) {
-        mapBySeg[s.id] = computePlaceholderMap(s.source, regs);
-      }
-      const metaObj = { ...(u.meta || {}), placeholders: mapBySeg };
-      return { ...u, meta: metaObj };
-    });
+// A unit as JSON exports carry it: with the placeholder map of each segment in meta.placeholders
+export function jsonUnit(u: TranslationUnit, config?: Config): TranslationUnit {
+  if (!config) return u;
+  const regs = regexesForUnit(u, config);
+  if (!regs.length) return u;
+  const mapBySeg: Record<string, Record<string, string>> = {};
+  const segs = (u.segments && u.segments.length) ? u.segments : [{ id: `${u.id}_s0`, source: u.source }];
+  for (const s of segs) {
+    mapBySeg[s.id] = computePlaceholderMap(s.source, regs);
   }
-  return JSON.stringify({ meta: meta ?? {}, units: enriched }, null, 2);
+  const metaObj = { ...(u.meta || {}), placeholders: mapBySeg };
+  return { ...u, meta: metaObj };
+}
+
+export async function exportToJson(units: TranslationUnit[], config?: Config, meta?: Record<string, any>): Promise<string> {
+  return JSON.stringify({ meta: meta ?? {}, units: units.map(u => jsonUnit(u, config)) }, null, 2);
+}
+
+// JSON Lines: one unit per line, without the meta object
+export function exportToJsonLines(units: TranslationUnit[], config?: Config): string {
+  return units.map(u => JSON.stringify(jsonUnit(u, config)) + '\n').join('');
 }
 
 export function parseJsonUnits(jsonStr: string): TranslationUnit[] {
   const obj = JSON.parse(jsonStr);
   return obj.units as TranslationUnit[];
 }
+
+export function parseJsonLine(line: string, lineNumber: number): TranslationUnit {
+  try {
+    return JSON.parse(line) as TranslationUnit;
+  } catch (e: any) {
+    throw new Error(`Invalid JSON on line ${lineNumber}: ${e.message}`);
+  }
+}
+
+// Blank lines are skipped
+export function parseJsonLines(text: string): TranslationUnit[] {
+  const units: TranslationUnit[] = [];
+  text.split(/\r?\n/).forEach((line, i) => {
+    if (line.trim()) units.push(parseJsonLine(line, i + 1));
+  });
+  return units;
+}
@@ -0,0 +1,122 @@
+import fs from 'node:fs';
+import readline from 'node:readline';
+import { once } from 'node:events';
+import { Config, TranslationUnit } from '../types.js';
+import { jsonUnit, parseJsonLine } from './json.js';
+
+// Streaming counterparts of exportToJson()/exportToJsonLines() and their parsers. The writer gives the same
+// text for the same units; the parsers hold one unit at a time, never the whole file.
+
+export type JsonFormat = 'json' | 'jsonl';
+
+// Units are written as they come, and the next one is only asked for once the file has taken the last one
+export async function exportToJsonStreamFromIterator(
+  iter: AsyncIterable<TranslationUnit>,
+  config: Config | undefined,
+  options: { meta?: Record<string, any>; format?: JsonFormat },
+  outPath: string
+): Promise<void> {
+  const meta = options.meta ?? {};
+  const ws = fs.createWriteStream(outPath, { encoding: 'utf-8' });
+  const write = async (text: string) => {
+    if (!ws.write(text)) await once(ws, 'drain');
+  };
+  // JSON.stringify(value, null, 2) for a value nested `depth` levels deep
+  const nested = (value: unknown, depth: number) => JSON.stringify(value, null, 2).split('\n').join(`\n${'  '.repeat(depth)}`);
+  try {
+    let units = 0;
+    for await (const u of iter) {
+      const unit = jsonUnit(u, config);
+      if (options.format === 'jsonl') {
+        await write(JSON.stringify(unit) + '\n');
+      } else {
+        const head = units ? ',\n' : `{\n  "meta": ${nested(meta, 1)},\n  "units": [\n`;
+        await write(`${head}    ${nested(unit, 2)}`);
+      }
+      units++;
+    }
+    if (options.format !== 'jsonl') await write(units ? '\n  ]\n}' : JSON.stringify({ meta, units: [] }, null, 2));
+    await new Promise<void>((resolve, reject) => ws.on('error', reject).end(resolve));
+  } catch (e) {
+    // An aborted or failed extraction leaves no partial file behind
+    ws.destroy();
+    await fs.promises.rm(outPath, { force: true });
+    throw e;
+  }
+}
+
+// Units of a { meta, units } document, each parsed once its closing brace has been read. Only the text of the
+// unit being read is kept; everything outside the units array is skipped without being parsed.
+async function* documentUnits(chunks: AsyncIterable<string>, fileName: string): AsyncGenerator<TranslationUnit> {
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  // Last string read directly inside the top-level object, i.e. the key a value follows
+  let key = '';
+  let text = '';
+  let inUnits = false;
+  let sawUnits = false;
+  // Text of the unit being read, and where it starts in the current chunk (-1 outside a unit)
+  let unit = '';
+  let start = -1;
+  for await (const chunk of chunks) {
+    for (let i = 0; i < chunk.length; i++) {
+      const c = chunk[i];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (c === '\\') escaped = true;
+        else if (c === '"') {
+          inString = false;
+          if (depth === 1) key = text;
+        } else if (depth === 1) text += c;
+        continue;
+      }
+      if (c === '"') {
+        inString = true;
+        text = '';
+      } else if (c === '{' || c === '[') {
+        if (c === '[' && depth === 1 && key === 'units') inUnits = sawUnits = true;
+        if (c === '{' && inUnits && depth === 2) start = i;
+        depth++;
+      } else if (c === '}' || c === ']') {
+        depth--;
+        if (inUnits && depth === 2 && c === '}') {
+          unit += chunk.slice(start, i + 1);
+          start = -1;
+          try {
+            yield JSON.parse(unit) as TranslationUnit;
+          } catch (e: any) {
+            throw new Error(`Invalid unit in ${fileName}: ${e.message}`);
+          }
+          unit = '';
+        } else if (inUnits && depth === 1) {
+          inUnits = false;
+        }
+      }
+    }
+    if (start >= 0) {
+      unit += chunk.slice(start);
+      start = 0;
+    }
+  }
+  if (depth !== 0 || inString) throw new Error(`Unexpected end of JSON in ${fileName}.`);
+  if (!sawUnits) throw new Error(`No "units" array in ${fileName}.`);
+}
+
+// Translated units of a JSON or JSON Lines file, read as the consumer asks for them
+export async function* readJsonUnits(filePath: string, format: JsonFormat): AsyncGenerator<TranslationUnit> {
+  const input = fs.createReadStream(filePath, { encoding: 'utf-8' });
+  try {
+    if (format === 'json') {
+      yield* documentUnits(input, filePath);
+      return;
+    }
+    let n = 0;
+    for await (const line of readline.createInterface({ input, crlfDelay: Infinity })) {
+      n++;
+      if (line.trim()) yield parseJsonLine(line, n);
+    }
+  } finally {
+    input.destroy();
+  }
+}
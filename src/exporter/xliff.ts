@@ -1,14 +1,19 @@
 import { create } from 'xmlbuilder2';
 import { XMLParser } from 'fast-xml-parser';
 import { Config, Segment, TranslationUnit } from '../types.js';
+import { HEADER_FOOTER_CODE } from '../io/parts.js';
+import { FORMULA_CODE } from '../io/formula.js';
+import { maxCharsFor } from '../io/limits.js';
+import { sheetConfigFor } from '../io/sheets.js';
+import { decodeXml } from '../io/ooxml.js';
 
 function regexesForUnit(u: TranslationUnit, config: Config): RegExp[] {
-  const sheetCfg = config.workbook.sheets.find(s => {
-    try { return new RegExp(s.namePattern).test(u.sheetName) || s.namePattern === u.sheetName; } catch { return s.namePattern === u.sheetName; }
-  });
+  const sheetCfg = sheetConfigFor(config, u);
   const res = (sheetCfg?.inlineCodeRegexes || []).map(r => {
     try { return new RegExp(r, 'g'); } catch { return null; }
   }).filter((x): x is RegExp => !!x);
+  if (u.kind === 'headerFooter') res.push(new RegExp(HEADER_FOOTER_CODE, 'g'));
+  if (u.meta?.formulaCodes) res.push(new RegExp(FORMULA_CODE, 'g'));
   return res;
 }
 
@@ -37,11 +42,26 @@ function encodePlaceholders(text: string, regs: RegExp[]): { encoded: string; ma
   return { encoded, map };
 }
 
+// Codes in a prefilled target reuse the ids of identical codes in the source; unmatched ones stay text
+function encodeTargetPlaceholders(text: string, map: Record<string, string>, regs: RegExp[]): string {
+  const used = new Set<string>();
+  let encoded = text;
+  for (const re of regs) {
+    encoded = encoded.replace(re, (m) => {
+      const id = Object.keys(map).find(k => map[k] === m && !used.has(k));
+      if (!id) return m;
+      used.add(id);
+      return `[[ph:${id}]]`;
+    });
+  }
+  return encoded;
+}
+
 function writeWithPh(parent: any, encoded: string) {
-  const MARK = /(\[\[(ph|pc):[^\]]+\]\])/g;
+  const MARK = /(\[\[(?:ph|pc):[^\]]+\]\])/g;
   const parts = encoded.split('\u0000').join('');
 
-  // Check if the text already contains XLIFF inline elements (<pc>, <g>, etc.)
+  // Check if the text already contains XLIFF inline elements (<pc>, <g>, etc.); its text is already escaped
   if (/<(pc|g|sc|ec|bx|ex|bpt|ept)\s/.test(parts)) {
     // Parse inline XLIFF elements properly, handling nesting
     let i = 0;
@@ -52,7 +72,7 @@ function writeWithPh(parent: any, encoded: string) {
       if (!tagSearch) {
         // No more tags, write remaining text
         const remaining = parts.substring(i);
-        if (remaining) parent.txt(remaining);
+        if (remaining) parent.txt(decodeXml(remaining));
         break;
       }
       
@@ -60,7 +80,7 @@ function writeWithPh(parent: any, encoded: string) {
       
       // Write any text before this tag
       if (matchStart > i) {
-        parent.txt(parts.substring(i, matchStart));
+        parent.txt(decodeXml(parts.substring(i, matchStart)));
       }
       
       const tagName = tagSearch[1];
@@ -114,7 +134,7 @@ function writeWithPh(parent: any, encoded: string) {
       
       if (depth > 0) {
         // Unclosed tag, treat as text
-        parent.txt(parts.substring(matchStart));
+        parent.txt(decodeXml(parts.substring(matchStart)));
         break;
       }
     }
@@ -149,53 +169,85 @@ function parseAttributes(attrString: string): Record<string, string> {
   return attrs;
 }
 
-export async function exportToXliff(units: TranslationUnit[], config: Config, options?: { srcLang?: string; trgLang?: string; generator?: string }): Promise<string> {
+export type XliffOptions = { srcLang?: string; trgLang?: string; generator?: string };
+
+// The <xliff> and <file> elements that units are written into
+export function xliffSkeleton(config: Config, options: XliffOptions | undefined, useSlr: boolean) {
   const srcLang = options?.srcLang ?? config.global?.srcLang ?? 'en';
-  const xliffVersion = config.global?.xliffVersion || '2.1';
-  const attrs: any = { version: xliffVersion, srcLang };
+  const attrs: any = { version: config.global?.xliffVersion || '2.1', srcLang };
   if (options?.trgLang) attrs.trgLang = options.trgLang;
+  if (useSlr) attrs['xmlns:slr'] = 'urn:oasis:names:tc:xliff:sizerestriction:2.0';
   const root = create({ version: '1.0', encoding: 'UTF-8' }).ele('xliff', attrs);
   const file = root.ele('file', { id: 'workbook', original: 'workbook.xlsx', 'tool-id': options?.generator ?? 'excel-l10n' });
+  if (useSlr) file.ele('slr:profiles', { generalProfile: 'xliff:codepoints' });
+  return { root, file };
+}
 
-  for (const u of units) {
-    const regs = regexesForUnit(u, config);
-    const unit = file.ele('unit', { id: u.id });
-    const notes = unit.ele('notes');
-    notes.ele('note').txt(`sheet=${u.sheetName};row=${u.row};col=${u.col}`);
-    if (config.global?.exportComments) {
-      if (u.meta?.headerName) notes.ele('note', { category: 'header' }).txt(String(u.meta.headerName));
-      if (u.meta?.metadataRows) notes.ele('note', { category: 'metadataRows' }).txt(JSON.stringify(u.meta.metadataRows));
-      if (u.meta?.comments) notes.ele('note', { category: 'comments' }).txt(typeof u.meta.comments === 'string' ? u.meta.comments : JSON.stringify(u.meta.comments));
-    }
-    // Export HTML skeleton and inline map for reconstruction during merge
-    if (u.meta?.htmlSkeleton) {
-      notes.ele('note', { category: 'htmlSkeleton' }).txt(String(u.meta.htmlSkeleton));
-    }
-    if (u.meta?.htmlInlineMap) {
-      notes.ele('note', { category: 'htmlInlineMap' }).txt(JSON.stringify(u.meta.htmlInlineMap));
-    }
-    if (u.meta?.htmlTexts) {
-      notes.ele('note', { category: 'htmlTexts' }).txt(JSON.stringify(u.meta.htmlTexts));
-    }
+// One <unit>: its notes, then a <segment> per segment
+export function writeUnit(parent: any, u: TranslationUnit, config: Config, limit: number | undefined, useSlr: boolean): void {
+  const regs = regexesForUnit(u, config);
+  const unitAttrs: Record<string, string> = { id: u.id };
+  if (u.meta?.locked) unitAttrs.translate = 'no';
+  if (limit !== undefined) {
+    if (useSlr) unitAttrs['slr:sizeRestriction'] = String(limit);
+    else Object.assign(unitAttrs, { maxwidth: String(limit), 'size-unit': 'char' });
+  }
+  const unit = parent.ele('unit', unitAttrs);
+  const notes = unit.ele('notes');
+  notes.ele('note').txt(`sheet=${u.sheetName};row=${u.row};col=${u.col}`);
+  if (u.kind && u.kind !== 'cell') notes.ele('note', { category: 'kind' }).txt(u.kind);
+  if (u.key != null) notes.ele('note', { category: 'key' }).txt(u.key);
+  for (const [category, text] of Object.entries(u.meta?.context || {})) notes.ele('note', { category }).txt(String(text));
+  if (config.global?.exportComments) {
+    if (u.meta?.headerName) notes.ele('note', { category: 'header' }).txt(String(u.meta.headerName));
+    if (u.meta?.metadataRows) notes.ele('note', { category: 'metadataRows' }).txt(JSON.stringify(u.meta.metadataRows));
+    if (u.meta?.comments) notes.ele('note', { category: 'comments' }).txt(typeof u.meta.comments === 'string' ? u.meta.comments : JSON.stringify(u.meta.comments));
+  }
+  // Export HTML skeleton and inline map for reconstruction during merge
+  if (u.meta?.htmlSkeleton) {
+    notes.ele('note', { category: 'htmlSkeleton' }).txt(String(u.meta.htmlSkeleton));
+  }
+  if (u.meta?.htmlInlineMap) {
+    notes.ele('note', { category: 'htmlInlineMap' }).txt(JSON.stringify(u.meta.htmlInlineMap));
+  }
+  if (u.meta?.htmlTexts) {
+    notes.ele('note', { category: 'htmlTexts' }).txt(JSON.stringify(u.meta.htmlTexts));
+  }
+  if (u.meta?.richTextFonts) {
+    notes.ele('note', { category: 'richTextFonts' }).txt(JSON.stringify(u.meta.richTextFonts));
+  }
+  if (u.meta?.formulaCodes) {
+    notes.ele('note', { category: 'formulaCodes' }).txt(JSON.stringify(u.meta.formulaCodes));
+  }
+  if (u.meta?.hyperlink) {
+    notes.ele('note', { category: 'hyperlink' }).txt(JSON.stringify(u.meta.hyperlink));
+  }
 
-    const segs = u.segments && u.segments.length ? u.segments : [{ id: `${u.id}_s0`, source: u.source } as Segment];
-    // collect placeholder map for this unit
-    const phMap: Record<string, Record<string, string>> = {};
-    for (const s of segs) {
-      const seg = unit.ele('segment', { id: s.id });
-      const { encoded, map } = encodePlaceholders(s.source, regs);
-      phMap[s.id] = map;
-      const src = seg.ele('source').att('xml:space', 'preserve');
-      writeWithPh(src, encoded);
-      if (s.target != null) {
-        const tgt = seg.ele('target').att('xml:space', 'preserve');
-        writeWithPh(tgt, s.target);
-      }
-    }
-    if (Object.keys(phMap).length) {
-      notes.ele('note', { category: 'ph' }).txt(JSON.stringify(phMap));
+  const segs = u.segments && u.segments.length ? u.segments : [{ id: `${u.id}_s0`, source: u.source } as Segment];
+  // collect placeholder map for this unit
+  const phMap: Record<string, Record<string, string>> = {};
+  for (const s of segs) {
+    const seg = unit.ele('segment', s.state ? { id: s.id, state: s.state } : { id: s.id });
+    const { encoded, map } = encodePlaceholders(s.source, regs);
+    phMap[s.id] = map;
+    const src = seg.ele('source').att('xml:space', 'preserve');
+    writeWithPh(src, encoded);
+    if (s.target != null) {
+      const tgt = seg.ele('target').att('xml:space', 'preserve');
+      writeWithPh(tgt, encodeTargetPlaceholders(s.target, map, regs));
     }
   }
+  if (Object.keys(phMap).length) {
+    notes.ele('note', { category: 'ph' }).txt(JSON.stringify(phMap));
+  }
+}
+
+export async function exportToXliff(units: TranslationUnit[], config: Config, options?: XliffOptions): Promise<string> {
+  // Character limits: the Size and Length Restriction module in 2.x, maxwidth/size-unit in 1.2
+  const limits = units.map(u => maxCharsFor(u, config, options?.trgLang));
+  const useSlr = (config.global?.xliffVersion || '2.1') !== '1.2' && limits.some(l => l !== undefined);
+  const { root, file } = xliffSkeleton(config, options, useSlr);
+  for (const [i, u] of units.entries()) writeUnit(file, u, config, limits[i], useSlr);
 
   // Disable pretty printing to ensure whitespace around inline tags is preserved exactly as is.
   // Pretty printing often adds newlines/indentation in mixed content (e.g. <source>text <pc>...</pc></source>)
@@ -203,17 +255,22 @@ export async function exportToXliff(units: TranslationUnit[], config: Config, op
   return root.end({ prettyPrint: false });
 }
 
-function extractNotes(notesArray: any): { sheetName: string; row: number; col: string; ph?: Record<string, Record<string, string>>; htmlSkeleton?: string; htmlInlineMap?: Record<string, { open: string; close: string }>; htmlTexts?: string[] } {
+function extractNotes(notesArray: any): { sheetName: string; row: number; col: string; kind?: string; key?: string; ph?: Record<string, Record<string, string>>; htmlSkeleton?: string; htmlInlineMap?: Record<string, { open: string; close: string }>; htmlTexts?: string[]; richTextFonts?: any; formulaCodes?: string[]; hyperlink?: any } {
   let sheetName = '';
   let row = 0;
   let col = '';
+  let kind: string | undefined;
+  let key: string | undefined;
   let ph: Record<string, Record<string, string>> | undefined;
   let htmlSkeleton: string | undefined;
   let htmlInlineMap: Record<string, { open: string; close: string }> | undefined;
   let htmlTexts: string[] | undefined;
+  let richTextFonts: any;
+  let formulaCodes: string[] | undefined;
+  let hyperlink: any;
   
   // With preserveOrder: true, notesArray is an array of objects
-  if (!Array.isArray(notesArray)) return { sheetName, row, col, ph, htmlSkeleton, htmlInlineMap, htmlTexts };
+  if (!Array.isArray(notesArray)) return { sheetName, row, col, kind, key, ph, htmlSkeleton, htmlInlineMap, htmlTexts, richTextFonts, formulaCodes, hyperlink };
   
   for (const item of notesArray) {
     if (item.note) {
@@ -238,8 +295,12 @@ function extractNotes(notesArray: any): { sheetName: string; row: number; col: s
       
       if (!category && text) {
         // Plain note without category - check for sheet/row/col pattern
-        const m = /sheet=(.*?);row=(\d+);col=([A-Z]+)/.exec(text);
+        const m = /sheet=(.*?);row=(\d+);col=([A-Z]*)/.exec(text);
         if (m) { sheetName = m[1]; row = parseInt(m[2], 10); col = m[3]; }
+      } else if (category === 'kind' && text) {
+        kind = String(text);
+      } else if (category === 'key' && text) {
+        key = String(text);
       } else if (category === 'ph' && text) {
         try { ph = JSON.parse(text); } catch { /* ignore */ }
       } else if (category === 'htmlSkeleton' && text) {
@@ -248,11 +309,17 @@ function extractNotes(notesArray: any): { sheetName: string; row: number; col: s
         try { htmlInlineMap = JSON.parse(text); } catch { /* ignore */ }
       } else if (category === 'htmlTexts' && text) {
         try { htmlTexts = JSON.parse(text); } catch { /* ignore */ }
+      } else if (category === 'richTextFonts' && text) {
+        try { richTextFonts = JSON.parse(text); } catch { /* ignore */ }
+      } else if (category === 'formulaCodes' && text) {
+        try { formulaCodes = JSON.parse(text); } catch { /* ignore */ }
+      } else if (category === 'hyperlink' && text) {
+        try { hyperlink = JSON.parse(text); } catch { /* ignore */ }
       }
     }
   }
   
-  return { sheetName, row, col, ph, htmlSkeleton, htmlInlineMap, htmlTexts };
+  return { sheetName, row, col, kind, key, ph, htmlSkeleton, htmlInlineMap, htmlTexts, richTextFonts, formulaCodes, hyperlink };
 }
 
 function flattenText(node: any): string {
@@ -277,7 +344,7 @@ function flattenText(node: any): string {
 
 export function parseXliffToUnits(xlf: string): TranslationUnit[] {
   // Use preserveOrder: true to maintain the order of mixed content (text and inline elements)
-  const parser = new XMLParser({ ignoreAttributes: false, attributeNamePrefix: '', preserveOrder: true, trimValues: false });
+  const parser = new XMLParser({ ignoreAttributes: false, attributeNamePrefix: '', preserveOrder: true, trimValues: false, parseTagValue: false });
   const obj: any = parser.parse(xlf);
   const units: TranslationUnit[] = [];
 
@@ -341,6 +408,16 @@ export function parseXliffToUnits(xlf: string): TranslationUnit[] {
         continue;
       }
 
+      // Rich text run (<pc id="rtN"> or <g id="rtN">): keep as run markers for the merger
+      if (node.pc || node.g) {
+        const attrs = node[':@'] || {};
+        const rt = /^rt(\d+)$/.exec(String(attrs['@_id'] || attrs.id || ''));
+        if (rt) {
+          out += `[[rt:${rt[1]}]]${flatten(node.pc || node.g)}[[/rt:${rt[1]}]]`;
+          continue;
+        }
+      }
+
       // XLIFF 2.1 pc element
       if (node.pc) {
         const pcArray = node.pc;
@@ -450,9 +527,14 @@ export function parseXliffToUnits(xlf: string): TranslationUnit[] {
       
       // Extract unit attributes from the parent object
       let id = '';
+      let maxChars: number | undefined;
+      let locked = false;
       if (unitItem[':@']) {
         const attrs = unitItem[':@'];
         id = attrs['@_id'] || attrs.id || '';
+        const limit = Number(attrs['slr:sizeRestriction'] ?? attrs.maxwidth);
+        if (limit > 0) maxChars = limit;
+        locked = attrs.translate === 'no';
       }
       
       if (!id) continue;
@@ -463,34 +545,47 @@ export function parseXliffToUnits(xlf: string): TranslationUnit[] {
       
       // Extract notes
       let sheetName = '', col = ''; let row = 0;
+      let kind: string | undefined;
+      let key: string | undefined;
       let phMap: Record<string, Record<string, string>> | undefined;
       let htmlSkeleton: string | undefined;
       let htmlInlineMap: Record<string, { open: string; close: string }> | undefined;
       let htmlTexts: string[] | undefined;
+      let richTextFonts: any;
+      let formulaCodes: string[] | undefined;
+      let hyperlink: any;
       
       for (const item of unitArray) {
         if (item.notes) {
-          const { sheetName: sn, row: rr, col: cc, ph, htmlSkeleton: hs, htmlInlineMap: him, htmlTexts: htxt } = extractNotes(item.notes);
+          const { sheetName: sn, row: rr, col: cc, kind: kd, key: kk, ph, htmlSkeleton: hs, htmlInlineMap: him, htmlTexts: htxt, richTextFonts: rtf, formulaCodes: fxc, hyperlink: hl } = extractNotes(item.notes);
           if (sn) sheetName = sn;
+          if (kd) kind = kd;
+          if (kk != null) key = kk;
           if (rr) row = rr;
           if (cc) col = cc;
           if (ph) phMap = ph;
           if (hs) htmlSkeleton = hs;
           if (him) htmlInlineMap = him;
           if (htxt) htmlTexts = htxt;
+          if (rtf) richTextFonts = rtf;
+          if (fxc) formulaCodes = fxc;
+          if (hl) hyperlink = hl;
         }
       }
 
       // Extract segments
       const segmentElements: any[] = [];
+      const segmentStates: (Segment['state'] | undefined)[] = [];
       for (const item of unitArray) {
         if (item.segment) {
           segmentElements.push(item.segment);
+          segmentStates.push(item[':@']?.state);
         }
       }
       
       const segments: Segment[] = segmentElements.map((segArray: any, idx: number) => {
         let segId = `${id}_s${idx}`;
+        const state = segmentStates[idx];
         let sourceArray: any = null;
         let targetArray: any = null;
         
@@ -511,15 +606,22 @@ export function parseXliffToUnits(xlf: string): TranslationUnit[] {
         
         const src = flatten(sourceArray);
         const tgt = targetArray ? flatten(targetArray) : undefined;
-        return { id: segId, source: src, target: tgt };
+        return { id: segId, source: src, target: tgt, ...(state ? { state } : {}) };
       });
 
       const tu: TranslationUnit = { id, sheetName, row, col, colIndex: 0, source: segments.map(s => s.source).join(''), segments, meta: {} };
+      if (kind) tu.kind = kind as TranslationUnit['kind'];
+      if (key != null) tu.key = key;
       if (fileTrg) (tu.meta as any).targetLocale = fileTrg;
       if (phMap) (tu.meta as any).placeholders = phMap;
       if (htmlSkeleton) (tu.meta as any).htmlSkeleton = htmlSkeleton;
       if (htmlInlineMap) (tu.meta as any).htmlInlineMap = htmlInlineMap;
       if (htmlTexts) (tu.meta as any).htmlTexts = htmlTexts;
+      if (richTextFonts) (tu.meta as any).richTextFonts = richTextFonts;
+      if (formulaCodes) (tu.meta as any).formulaCodes = formulaCodes;
+      if (hyperlink) (tu.meta as any).hyperlink = hyperlink;
+      if (maxChars) (tu.meta as any).maxChars = maxChars;
+      if (locked) (tu.meta as any).locked = true;
       units.push(tu);
     }
   }
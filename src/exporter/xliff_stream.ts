@@ -1,91 +1,49 @@
 import fs from 'node:fs';
-import { Config, Segment, TranslationUnit } from '../types.js';
+import { once } from 'node:events';
+import { fragment } from 'xmlbuilder2';
+import { Config, TranslationUnit } from '../types.js';
+import { configHasLimits, maxCharsFor } from '../io/limits.js';
+import { writeUnit, XliffOptions, xliffSkeleton } from './xliff.js';
 
-function regexesForUnit(u: TranslationUnit, config: Config): RegExp[] {
-  const sheetCfg = config.workbook.sheets.find(s => {
-    try { return new RegExp(s.namePattern).test(u.sheetName) || s.namePattern === u.sheetName; } catch { return s.namePattern === u.sheetName; }
-  });
-  const res = (sheetCfg?.inlineCodeRegexes || []).map(r => {
-    try { return new RegExp(r, 'g'); } catch { return null as any; }
-  }).filter(Boolean) as RegExp[];
-  return res;
-}
-
-const PH_MARK_RE = /(\[\[ph:[^\]]+\]\])/g;
+// Streaming counterpart of exportToXliff(): the same document for the same units, written unit by unit.
+// exportToXliff declares the size restriction module (XLIFF 2.x) only when some unit has a character limit;
+// written ahead of the units, it is declared here whenever the config sets limits (maxCharsColumn, or
+// maxCharsPerTarget for trgLang), so a config with limits that no unit reaches differs in that declaration.
 
-function encodePlaceholders(text: string, regs: RegExp[]): { encoded: string; map: Record<string, string> } {
-  const map: Record<string, string> = {};
-  let phIndex = 1;
-  // ICU protect (simple)
-  const ICU_BLOCK = /\{[^{}]*,\s*(plural|select)\s*,[\s\S]*?\}/g;
-  let icuIdx = 1;
-  const icuMap: Record<string, string> = {};
-  let encoded = text.replace(ICU_BLOCK, (m) => m.replace(/\{([^{}]*)\}/g, (_inner, grp) => {
-    const token = `icu${icuIdx++}`;
-    icuMap[token] = `{${grp}}`;
-    return `[[ph:${token}]]`;
-  }));
-  for (const k of Object.keys(icuMap)) map[k] = icuMap[k];
-  for (const re of regs) {
-    encoded = encoded.replace(re, (m) => {
-      const id = `ph${phIndex++}`;
-      map[id] = m;
-      return `[[ph:${id}]]`;
-    });
-  }
-  return { encoded, map };
-}
-
-function writeWithPhStr(encoded: string): string {
-  // split by markers and write <ph id>
-  const parts = encoded.split(PH_MARK_RE);
-  let out = '';
-  for (const part of parts) {
-    if (!part) continue;
-    const m = /^\[\[ph:([^\]]+)\]\]$/.exec(part);
-    if (m) out += `<ph id="${m[1]}"/>`;
-    else out += escapeXml(part);
-  }
-  return out;
-}
-
-function escapeXml(s: string): string {
-  return String(s).replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
-}
+const UNITS_MARK = '\u0000';
 
+// Units are written as they come, and the next one is only asked for once the file has taken the last one,
+// so a streaming extractor feeding it reads no further ahead than the disk writes
 export async function exportToXliffStreamFromIterator(
   iter: AsyncIterable<TranslationUnit>,
   config: Config,
-  options: { srcLang?: string; generator?: string },
+  options: XliffOptions,
   outPath: string
 ): Promise<void> {
-  const srcLang = options.srcLang || config.global?.srcLang || 'en';
-  const ws = fs.createWriteStream(outPath, { encoding: 'utf-8' });
-  ws.write(`<?xml version="1.0" encoding="UTF-8"?>\n`);
-  ws.write(`<xliff version="2.1" srcLang="${srcLang}">\n`);
-  ws.write(`  <file id="workbook" original="workbook.xlsx" tool-id="${options.generator || 'excel-l10n'}">\n`);
+  const useSlr = (config.global?.xliffVersion || '2.1') !== '1.2' && configHasLimits(config, options.trgLang);
+  // The document around its units, split where they go
+  const { root, file } = xliffSkeleton(config, options, useSlr);
+  file.txt(UNITS_MARK);
+  const [head, tail] = root.end({ prettyPrint: false }).split(UNITS_MARK);
 
-  for await (const u of iter) {
-    const regs = regexesForUnit(u, config);
-    ws.write(`    <unit id="${escapeXml(u.id)}">\n`);
-    ws.write(`      <notes><note>sheet=${escapeXml(u.sheetName)};row=${u.row};col=${escapeXml(u.col)}</note></notes>\n`);
-    const segs: Segment[] = (u.segments && u.segments.length) ? u.segments : [{ id: `${u.id}_s0`, source: u.source } as Segment];
-    const phMap: Record<string, Record<string, string>> = {};
-    for (const s of segs) {
-      const { encoded, map } = encodePlaceholders(s.source, regs);
-      phMap[s.id] = map;
-      ws.write(`      <segment id="${escapeXml(s.id)}">\n`);
-      ws.write(`        <source>${writeWithPhStr(encoded)}</source>\n`);
-      if (s.target) ws.write(`        <target>${writeWithPhStr(s.target)}</target>\n`);
-      ws.write(`      </segment>\n`);
-    }
-    if (Object.keys(phMap).length) {
-      ws.write(`      <notes><note category="ph">${escapeXml(JSON.stringify(phMap))}</note></notes>\n`);
+  const ws = fs.createWriteStream(outPath, { encoding: 'utf-8' });
+  const write = async (text: string) => {
+    if (!ws.write(text)) await once(ws, 'drain');
+  };
+  try {
+    let units = 0;
+    for await (const u of iter) {
+      const frag = fragment();
+      writeUnit(frag, u, config, maxCharsFor(u, config, options.trgLang), useSlr);
+      await write((units++ ? '' : head) + frag.end({ prettyPrint: false }));
     }
-    ws.write(`    </unit>\n`);
+    // Without units the <file> element is empty (and no limit needs declaring), as exportToXliff writes it
+    await write(units ? tail : xliffSkeleton(config, options, false).root.end({ prettyPrint: false }));
+    await new Promise<void>((resolve, reject) => ws.on('error', reject).end(resolve));
+  } catch (e) {
+    // An aborted or failed extraction leaves no partial file behind
+    ws.destroy();
+    await fs.promises.rm(outPath, { force: true });
+    throw e;
   }
-
-  ws.write(`  </file>\n`);
-  ws.write(`</xliff>\n`);
-  await new Promise<void>((resolve, reject) => ws.end(resolve));
 }
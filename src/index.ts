@@ -1,16 +1,22 @@
-import { Config, TranslationUnit } from './types.js';
+import { Config, ExtractOptions, MergeReport, TranslationUnit } from './types.js';
 import { parseConfig } from './config/index.js';
 import { extractUnits } from './io/excel.js';
+import { extractStreamWorkbook } from './io/stream.js';
 import { segmentUnits } from './segmenter/index.js';
 import { exportToXliff, parseXliffToUnits } from './exporter/xliff.js';
-import { exportToJson, parseJsonUnits } from './exporter/json.js';
+import { exportToXliffStreamFromIterator } from './exporter/xliff_stream.js';
+import { exportToJson, exportToJsonLines, parseJsonLines, parseJsonUnits } from './exporter/json.js';
+import { exportToJsonStreamFromIterator, JsonFormat, readJsonUnits } from './exporter/json_stream.js';
 import { mergeWorkbook } from './merger/index.js';
+import { mergeStreamWorkbook } from './merger/stream.js';
 
-export type { Config, TranslationUnit } from './types.js';
+export type { Config, ExtractOptions, ExtractProgress, MergeReport, RowFilter, TranslationUnit } from './types.js';
 export { parseConfig };
+export { filterUnitsForLocale } from './utils/index.js';
+export { prefillTargets } from './segmenter/index.js';
 
-export async function extract(inputXlsxPath: string, config: Config): Promise<TranslationUnit[]> {
-  const units = await extractUnits(inputXlsxPath, config);
+export async function extract(inputXlsxPath: string, config: Config, options?: ExtractOptions): Promise<TranslationUnit[]> {
+  const units = await extractUnits(inputXlsxPath, config, options);
   const segmented = segmentUnits(units, config);
   return segmented;
 }
@@ -27,17 +33,59 @@ export async function exportUnitsToJson(units: TranslationUnit[], config?: Confi
   return exportToJson(units, config, meta);
 }
 
-export async function merge(inputXlsxPath: string, outputXlsxPath: string, translatedUnits: TranslationUnit[], config: Config): Promise<void> {
-  await mergeWorkbook(inputXlsxPath, outputXlsxPath, translatedUnits, config);
+// JSON Lines: one unit per line, for data pipelines
+export function exportUnitsToJsonLines(units: TranslationUnit[], config?: Config): string {
+  return exportToJsonLines(units, config);
 }
 
-export function parseTranslated(input: string, format: 'xlf' | 'json'): TranslationUnit[] {
+export async function merge(inputXlsxPath: string, outputXlsxPath: string, translatedUnits: TranslationUnit[], config: Config): Promise<MergeReport> {
+  return mergeWorkbook(inputXlsxPath, outputXlsxPath, translatedUnits, config);
+}
+
+export function parseTranslated(input: string, format: 'xlf' | 'json' | 'jsonl'): TranslationUnit[] {
+  if (format === 'jsonl') return parseJsonLines(input);
   return format === 'xlf' ? parseXliffToUnits(input) : parseJsonUnits(input);
 }
 
-// Experimental streaming scaffold: currently yields units after a normal extract.
-// Replace with a true exceljs.stream-based reader in a subsequent iteration.
-export async function* extractStream(inputXlsxPath: string, config: Config): AsyncGenerator<TranslationUnit> {
-  const all = await extract(inputXlsxPath, config);
-  for (const u of all) yield u;
+// Translated units of a JSON or JSON Lines file, read one at a time instead of loading the file
+export function parseTranslatedStream(filePath: string, format: JsonFormat): AsyncGenerator<TranslationUnit> {
+  return readJsonUnits(filePath, format);
+}
+
+// Streaming extract(): the same units, read row by row as they are asked for (see io/stream.ts for what it
+// does not support). options.signal stops it between rows; options.onProgress reports the sheet, row and percent.
+export async function* extractStream(inputXlsxPath: string, config: Config, options?: ExtractOptions): AsyncGenerator<TranslationUnit> {
+  yield* extractStreamWorkbook(inputXlsxPath, config, options);
+}
+
+// Write units to an XLIFF file as an iterable (such as extractStream) yields them; the document is the one
+// exportUnitsToXliff gives
+export async function exportUnitsToXliffStream(
+  units: AsyncIterable<TranslationUnit>,
+  config: Config,
+  outputPath: string,
+  options?: { srcLang?: string; trgLang?: string; generator?: string }
+): Promise<void> {
+  return exportToXliffStreamFromIterator(units, config, options || {}, outputPath);
+}
+
+// Streaming merge(): worksheets are rewritten row by row in the package (see merger/stream.ts for what it does not support).
+// translatedUnits may be an iterable such as parseTranslatedStream; units are read from it one at a time.
+export async function mergeStream(
+  inputXlsxPath: string,
+  outputXlsxPath: string,
+  translatedUnits: Iterable<TranslationUnit> | AsyncIterable<TranslationUnit>,
+  config: Config
+): Promise<MergeReport> {
+  return mergeStreamWorkbook(inputXlsxPath, outputXlsxPath, translatedUnits, config);
+}
+
+// Write units to a JSON ({ meta, units }, as exportUnitsToJson gives it) or JSON Lines file as an iterable yields them
+export async function exportUnitsToJsonStream(
+  units: AsyncIterable<TranslationUnit>,
+  config: Config | undefined,
+  outputPath: string,
+  options?: { meta?: Record<string, any>; format?: JsonFormat }
+): Promise<void> {
+  return exportToJsonStreamFromIterator(units, config, options || {}, outputPath);
 }
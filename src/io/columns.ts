@@ -0,0 +1,104 @@
+import ExcelJS from 'exceljs';
+import { cellValueToText, colIndexToLetter, colLetterToIndex } from '../utils/index.js';
+
+// Column references accepted in sourceColumns/targetColumns:
+//   "B"                  column letter (1-3 letters), even when a header cell has that text; use "header:EN"
+//   "header:Source Text" header cell equals the text exactly
+//   "header-ci:source"   header cell equals the text, ignoring case and surrounding whitespace
+//   "header-regex:^Src"  header cell matches the regular expression
+//   "Source Text"        any other bare value is an exact header name
+export type ColumnRefMode = 'letter' | 'exact' | 'ci' | 'regex';
+export type ColumnRef = { raw: string; mode: ColumnRefMode; value: string };
+export type ResolvedColumn = { ref: string; letter: string; index: number };
+
+const LETTER_RE = /^[A-Za-z]{1,3}$/;
+
+export function parseColumnRef(raw: string): ColumnRef {
+  const s = String(raw);
+  if (s.startsWith('header:')) return { raw: s, mode: 'exact', value: s.slice('header:'.length) };
+  if (s.startsWith('header-ci:')) return { raw: s, mode: 'ci', value: s.slice('header-ci:'.length) };
+  if (s.startsWith('header-regex:')) return { raw: s, mode: 'regex', value: s.slice('header-regex:'.length) };
+  if (LETTER_RE.test(s)) return { raw: s, mode: 'letter', value: s.toUpperCase() };
+  return { raw: s, mode: 'exact', value: s };
+}
+
+export function isHeaderRef(raw: string): boolean {
+  return parseColumnRef(raw).mode !== 'letter';
+}
+
+// Columns a header reference may match, e.g. those of an Excel Table; default is the whole row
+export type HeaderSpan = { firstCol: number; lastCol: number };
+
+// Read header texts (1-based column index → text) from the given row
+export function readHeaderTexts(ws: ExcelJS.Worksheet, headerRow: number, span?: HeaderSpan): Map<number, string> {
+  const headers = new Map<number, string>();
+  if (!headerRow || headerRow < 1) return headers;
+  const row = ws.getRow(headerRow);
+  row.eachCell({ includeEmpty: false }, (cell, colNumber) => {
+    if (span && (colNumber < span.firstCol || colNumber > span.lastCol)) return;
+    const text = cellValueToText(cell.value);
+    if (text) headers.set(colNumber, text);
+  });
+  return headers;
+}
+
+function headerMatches(ref: ColumnRef, text: string): boolean {
+  if (ref.mode === 'exact') return text === ref.value;
+  if (ref.mode === 'ci') return text.trim().toLowerCase() === ref.value.trim().toLowerCase();
+  let re: RegExp;
+  try {
+    re = new RegExp(ref.value);
+  } catch (e: any) {
+    throw new Error(`Invalid header regex '${ref.value}': ${e?.message || e}`);
+  }
+  return re.test(text);
+}
+
+// Find all columns whose header matches a non-letter reference
+export function findHeaderColumns(ref: ColumnRef, headers: Map<number, string>): number[] {
+  const hits: number[] = [];
+  for (const [idx, text] of headers) {
+    if (headerMatches(ref, text)) hits.push(idx);
+  }
+  return hits.sort((a, b) => a - b);
+}
+
+// Resolve a single reference to a column index; returns 0 when a header reference has no match.
+// Throws when a header reference matches more than one column.
+export function lookupColumn(raw: string, headers: Map<number, string>, ctx: { sheetName: string; headerRow: number }): number {
+  const ref = parseColumnRef(raw);
+  if (ref.mode === 'letter') return colLetterToIndex(ref.value);
+  const hits = findHeaderColumns(ref, headers);
+  if (hits.length > 1) {
+    throw new Error(
+      `Header reference '${raw}' matches multiple columns (${hits.map(colIndexToLetter).join(', ')}) in row ${ctx.headerRow} on sheet '${ctx.sheetName}'.`
+    );
+  }
+  return hits[0] ?? 0;
+}
+
+export function resolveColumn(raw: string, headers: Map<number, string>, ctx: { sheetName: string; headerRow: number }): ResolvedColumn {
+  const index = lookupColumn(raw, headers, ctx);
+  if (!index) {
+    throw new Error(`Header reference '${raw}' not found in row ${ctx.headerRow} on sheet '${ctx.sheetName}'.`);
+  }
+  return { ref: raw, letter: colIndexToLetter(index), index };
+}
+
+// Resolve sourceColumns for a worksheet; header row is only read when a header reference is present
+export function resolveColumns(ws: ExcelJS.Worksheet, refs: string[], headerRow: number | undefined, span?: HeaderSpan): ResolvedColumn[] {
+  const hr = headerRow ?? 1;
+  const headers = refs.some(isHeaderRef) ? readHeaderTexts(ws, hr, span) : new Map<number, string>();
+  return refs.map(r => resolveColumn(r, headers, { sheetName: ws.name, headerRow: hr }));
+}
+
+export function keyColumnRefs(keyColumn?: string | string[]): string[] {
+  if (!keyColumn) return [];
+  return Array.isArray(keyColumn) ? keyColumn : [keyColumn];
+}
+
+// Composite keys join their parts with '|'; a key whose parts are all empty is ''
+export function joinKey(parts: string[]): string {
+  const trimmed = parts.map(p => p.trim());
+  return trimmed.some(p => p !== '') ? trimmed.join('|') : '';
+}
@@ -0,0 +1,34 @@
+import { SheetConfig } from '../types.js';
+
+// SheetConfig.contextColumns: same-row values of other columns, exported as <note category="..."> for translators.
+// Units carry them in meta.context as { category: text }.
+
+// Note categories the exporters already use for round-trip data
+const RESERVED_CATEGORIES = new Set([
+  'kind', 'key', 'ph', 'header', 'metadataRows', 'comments',
+  'htmlSkeleton', 'htmlInlineMap', 'htmlTexts', 'richTextFonts', 'formulaCodes', 'hyperlink',
+]);
+
+// [column ref, category] pairs of the sheet
+export function contextColumnRefs(sheetCfg: SheetConfig): [string, string][] {
+  const entries = Object.entries(sheetCfg.contextColumns || {});
+  for (const [ref, category] of entries) {
+    if (!category || RESERVED_CATEGORIES.has(category)) {
+      throw new Error(`Context column '${ref}' on sheet '${sheetCfg.namePattern}' needs a note category other than '${category}'.`);
+    }
+  }
+  return entries;
+}
+
+// Non-empty context texts of a row; undefined when there are none
+export function rowContext(
+  columns: { index: number; category: string }[],
+  textAt: (colIndex: number) => string
+): Record<string, string> | undefined {
+  const context: Record<string, string> = {};
+  for (const { index, category } of columns) {
+    const text = textAt(index).trim();
+    if (text) context[category] = text;
+  }
+  return Object.keys(context).length ? context : undefined;
+}
@@ -0,0 +1,110 @@
+import ExcelJS from 'exceljs';
+import JSZip from 'jszip';
+import { DntColor, DntRule, SheetConfig } from '../types.js';
+import { colIndexToLetter } from '../utils/index.js';
+import { asArray, openPackage, readXmlPart, sheetPartPaths } from './ooxml.js';
+import { cellStyle, partChunks, rowCells, sheetPartReader } from './sheetxml.js';
+
+// SheetConfig.doNotTranslate: cells marked as not for translation by a named cell style, font attributes
+// or colours (RGB or theme + tint). A matching cell is left out, or exported locked (meta.locked) so
+// translators see it as context and merge writes its source unchanged.
+
+export type DntAction = 'exclude' | 'lock';
+
+// Sheet name → (cell address → named cell style); ExcelJS drops named styles, so they are read from the package
+export type StyleNameLookup = (sheetName: string) => Promise<Map<string, string>>;
+
+export function needsStyleNames(sheetCfg: SheetConfig): boolean {
+  return (sheetCfg.doNotTranslate || []).some(r => r.style !== undefined);
+}
+
+// cellXfs index → name of the cell style it is based on
+export async function readXfStyleNames(zip: JSZip): Promise<string[]> {
+  const doc = await readXmlPart(zip, 'xl/styles.xml');
+  const byXfId = new Map<string, string>();
+  for (const s of asArray<any>(doc?.styleSheet?.cellStyles?.cellStyle)) byXfId.set(String(s.xfId), String(s.name));
+  return asArray<any>(doc?.styleSheet?.cellXfs?.xf).map(xf => byXfId.get(String(xf.xfId ?? 0)) ?? '');
+}
+
+// Rows of a worksheet part that have cells with a named style, as they are read: row number and
+// cell address → style name. Only the row being read is held.
+export async function* rowStyleNames(zip: JSZip, part: string, xfNames: string[]): AsyncGenerator<[number, Map<string, string>]> {
+  const file = zip.file(part);
+  if (!file) return;
+  const rows: [number, Map<string, string>][] = [];
+  const reader = sheetPartReader({
+    head: () => undefined,
+    text: () => undefined,
+    tail: () => undefined,
+    row: (xml, r) => {
+      const names = new Map<string, string>();
+      for (const cell of rowCells(xml)) {
+        const s = cellStyle(cell);
+        const name = s !== undefined ? xfNames[Number(s)] : '';
+        if (name) names.set(`${colIndexToLetter(cell.col)}${r}`, name);
+      }
+      if (names.size) rows.push([r, names]);
+    },
+  });
+  for await (const chunk of partChunks(file)) {
+    reader.write(chunk);
+    yield* rows.splice(0);
+  }
+  reader.end();
+  yield* rows.splice(0);
+}
+
+export function cellStyleNameReader(filePath: string): StyleNameLookup {
+  let pkg: Promise<{ zip: JSZip; parts: Map<string, string>; xfNames: string[] }> | undefined;
+  const cache = new Map<string, Map<string, string>>();
+  return async sheetName => {
+    const cached = cache.get(sheetName);
+    if (cached) return cached;
+    pkg ??= (async () => {
+      const zip = await openPackage(filePath);
+      return { zip, parts: await sheetPartPaths(zip), xfNames: await readXfStyleNames(zip) };
+    })();
+    const { zip, parts, xfNames } = await pkg;
+    const out = new Map<string, string>();
+    const part = parts.get(sheetName);
+    if (part) {
+      for await (const [, names] of rowStyleNames(zip, part, xfNames)) for (const [address, name] of names) out.set(address, name);
+    }
+    cache.set(sheetName, out);
+    return out;
+  };
+}
+
+function colorMatches(want: DntColor, color: any): boolean {
+  if (!color) return false;
+  if (typeof want === 'string') {
+    const hex = want.trim().replace(/^#/, '').toLowerCase();
+    return typeof color.argb === 'string' && color.argb.slice(-6).toLowerCase() === hex.slice(-6);
+  }
+  if (color.theme !== want.theme) return false;
+  return want.tint === undefined || Math.abs((color.tint ?? 0) - want.tint) < 0.005;
+}
+
+// Font flag set on the cell, or on every run of a rich text value
+function fontFlag(cell: ExcelJS.Cell, flag: 'strike' | 'bold' | 'italic' | 'underline'): boolean {
+  if ((cell.font as any)?.[flag]) return true;
+  const v: any = cell.value;
+  const runs: any[] = v && typeof v === 'object' && Array.isArray(v.richText) ? v.richText : [];
+  return runs.length > 0 && runs.every(run => !!run.font?.[flag]);
+}
+
+function ruleMatches(rule: DntRule, cell: ExcelJS.Cell, styleName: string | undefined): boolean {
+  if (rule.style !== undefined && rule.style.toLowerCase() !== (styleName ?? '').toLowerCase()) return false;
+  for (const flag of ['strike', 'bold', 'italic', 'underline'] as const) {
+    if (rule[flag] !== undefined && fontFlag(cell, flag) !== rule[flag]) return false;
+  }
+  if (rule.fontColor !== undefined && !colorMatches(rule.fontColor, (cell.font as any)?.color)) return false;
+  if (rule.fillColor !== undefined && !colorMatches(rule.fillColor, (cell.fill as any)?.fgColor)) return false;
+  return true;
+}
+
+// Action of the first rule the cell matches
+export function dntAction(rules: DntRule[] | undefined, cell: ExcelJS.Cell, styleName?: string): DntAction | undefined {
+  const rule = (rules || []).find(r => ruleMatches(r, cell, styleName));
+  return rule ? rule.action ?? 'exclude' : undefined;
+}
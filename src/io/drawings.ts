@@ -0,0 +1,322 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import JSZip from 'jszip';
+import { TranslationUnit } from '../types.js';
+import { decodeXml, encodeXml, openPackage, partRelationships, relsPathOf, sheetPartPaths } from './ooxml.js';
+import { partUnit, rewriteSheetRefs } from './parts.js';
+
+// SheetConfig.translateDrawings: text of DrawingML shapes and text boxes, and of chart and axis titles.
+// ExcelJS neither reads nor writes drawings, so extraction reads the drawing and chart parts of the package,
+// and merge copies them from the input into the written workbook with the translated text.
+// Unit ids: <sheet>::shape:<shape id>, <sheet>::chart:<frame id>:title, <sheet>::chart:<frame id>:axis:<axis id>
+// A text body is one unit with its paragraphs (and line breaks) separated by "\n"; a translated body gets one
+// paragraph per line, formatted like the first run of the paragraph it replaces.
+
+const REL_DRAWING = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/drawing';
+const RELS_NS = 'http://schemas.openxmlformats.org/package/2006/relationships';
+// Worksheet children that follow <drawing>, in schema order
+const AFTER_DRAWING = ['legacyDrawing', 'legacyDrawingHF', 'drawingHF', 'picture', 'oleObjects', 'controls', 'webPublishItems', 'tableParts', 'extLst'];
+
+export function isDrawingUnit(tu: TranslationUnit): boolean {
+  return tu.kind === 'shape' || tu.kind === 'chart';
+}
+
+// Element with the given local name, any namespace prefix, empty or with content (elements must not nest)
+function elementRe(local: string, flags = 'g'): RegExp {
+  return new RegExp(`<(\\w+:)?${local}\\b(?:[^>]*?\\/>|[^>]*>[\\s\\S]*?<\\/\\1${local}>)`, flags);
+}
+
+const PARAGRAPH = elementRe('p');
+const TEXT_OR_BREAK = /<(\w+:)?t(?:\s[^>]*)?>([\s\S]*?)<\/\1t>|<(?:\w+:)?br\b[^>]*\/>/g;
+
+function paragraphText(p: string): string {
+  let out = '';
+  for (const m of p.matchAll(TEXT_OR_BREAK)) out += m[2] !== undefined ? decodeXml(m[2]) : '\n';
+  return out;
+}
+
+// Text of a txBody / c:rich body
+export function bodyText(body: string): string {
+  return (body.match(PARAGRAPH) || []).map(paragraphText).join('\n');
+}
+
+function rebuildParagraph(p: string, line: string): string {
+  const prefix = /^<(\w+:)?p\b/.exec(p)?.[1] ?? '';
+  const pPr = elementRe('pPr', '').exec(p)?.[0] ?? '';
+  const rPr = elementRe('rPr', '').exec(p)?.[0] ?? '';
+  const end = elementRe('endParaRPr', '').exec(p)?.[0] ?? '';
+  const run = line ? `<${prefix}r>${rPr}<${prefix}t>${encodeXml(line)}</${prefix}t></${prefix}r>` : '';
+  return `<${prefix}p>${pPr}${run}${end}</${prefix}p>`;
+}
+
+export function rewriteBody(body: string, text: string): string {
+  const paragraphs = [...body.matchAll(PARAGRAPH)];
+  if (!paragraphs.length) return body;
+  const first = paragraphs[0].index!;
+  const last = paragraphs[paragraphs.length - 1];
+  const lines = text.split('\n');
+  const rebuilt = lines.map((line, i) => rebuildParagraph(paragraphs[Math.min(i, paragraphs.length - 1)][0], line)).join('');
+  return body.slice(0, first) + rebuilt + body.slice(last.index! + last[0].length);
+}
+
+// Called for every text body with its key ("shape:3", "chart:4:title", ...); returns the body to keep
+type BodyVisitor = (key: string, body: string) => string;
+
+function visitBody(xml: string, local: string, key: string, visit: BodyVisitor): string {
+  return xml.replace(new RegExp(`(<(\\w+:)?${local}\\b[^>]*>)([\\s\\S]*?)(<\\/\\2${local}>)`), (m, open: string, _p, body: string, close: string) =>
+    bodyText(body).trim() ? open + visit(key, body) + close : m
+  );
+}
+
+function cNvPrId(xml: string): string | undefined {
+  return /<(?:\w+:)?cNvPr\b[^>]*?\bid="(\d+)"/.exec(xml)?.[1];
+}
+
+// Shapes and text boxes of a drawing part; shapes whose text is linked to a cell are left to the cell
+function visitDrawing(xml: string, visit: BodyVisitor): string {
+  return xml.replace(elementRe('sp'), sp => {
+    const id = cNvPrId(sp);
+    if (!id || /\btextlink="[^"]+"/.test(/^<[^>]*>/.exec(sp)![0])) return sp;
+    return visitBody(sp, 'txBody', `shape:${id}`, visit);
+  });
+}
+
+// Graphic frame id of each chart relationship in a drawing part
+function chartFrames(xml: string): Map<string, string> {
+  const out = new Map<string, string>();
+  for (const m of xml.matchAll(elementRe('graphicFrame'))) {
+    const id = cNvPrId(m[0]);
+    const rel = /<(?:\w+:)?chart\b[^>]*?\br:id="([^"]+)"/.exec(m[0])?.[1];
+    if (id && rel) out.set(rel, id);
+  }
+  return out;
+}
+
+// Chart title (before the plot area) and axis titles; only rich text titles, not ones taken from a cell
+function visitChart(xml: string, chartKey: string, visit: BodyVisitor): string {
+  const titled = (title: string, key: string) => visitBody(title, 'rich', key, visit);
+  const plotArea = xml.search(/<(\w+:)?plotArea\b/);
+  const head = plotArea >= 0 ? xml.slice(0, plotArea) : xml;
+  const rest = plotArea >= 0 ? xml.slice(plotArea) : '';
+  const newHead = head.replace(elementRe('title', ''), title => titled(title, `${chartKey}:title`));
+  const newRest = rest.replace(/<(\w+:)?(catAx|valAx|dateAx|serAx)>[\s\S]*?<\/\1\2>/g, axis => {
+    const axId = /<(?:\w+:)?axId\b[^>]*?\bval="(\d+)"/.exec(axis)?.[1];
+    return axId ? axis.replace(elementRe('title', ''), title => titled(title, `${chartKey}:axis:${axId}`)) : axis;
+  });
+  return newHead + newRest;
+}
+
+async function partText(zip: JSZip, part: string): Promise<string | undefined> {
+  return zip.file(part)?.async('string');
+}
+
+async function drawingPart(zip: JSZip, sheetPart: string): Promise<string | undefined> {
+  const rels = await partRelationships(zip, sheetPart);
+  return [...rels.values()].find(r => r.type === 'drawing')?.target;
+}
+
+// Sheet name → units of its drawing; the package is opened on first use
+export function drawingUnitReader(filePath: string): (sheetName: string) => Promise<TranslationUnit[]> {
+  let pkg: Promise<{ zip: JSZip; parts: Map<string, string> }> | undefined;
+  return async sheetName => {
+    pkg ??= (async () => {
+      const zip = await openPackage(filePath);
+      return { zip, parts: await sheetPartPaths(zip) };
+    })();
+    const { zip, parts } = await pkg;
+    const sheetPart = parts.get(sheetName);
+    const drawing = sheetPart ? await drawingPart(zip, sheetPart) : undefined;
+    const xml = drawing ? await partText(zip, drawing) : undefined;
+    if (!drawing || !xml) return [];
+
+    const units: TranslationUnit[] = [];
+    const prefix = encodeURIComponent(sheetName);
+    const collect = (kind: TranslationUnit['kind']): BodyVisitor => (key, body) => {
+      units.push(partUnit(`${prefix}::${key}`, kind, sheetName, bodyText(body)));
+      return body;
+    };
+    visitDrawing(xml, collect('shape'));
+    const rels = await partRelationships(zip, drawing);
+    for (const [rel, frameId] of chartFrames(xml)) {
+      const chart = rels.get(rel);
+      const chartXml = chart ? await partText(zip, chart.target) : undefined;
+      if (chartXml) visitChart(chartXml, `chart:${frameId}`, collect('chart'));
+    }
+    return units;
+  };
+}
+
+type PartCopier = {
+  // Copy a part and, recursively, the internal targets of its relationships; returns its path in the output.
+  // `relTransform` picks the transform of a related part by relationship id.
+  copy(srcPart: string, transform?: (xml: string) => string, relTransform?: (rId: string) => ((xml: string) => string) | undefined): Promise<string>;
+  contentTypes(): string;
+};
+
+function escapeRe(s: string): string {
+  return s.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+}
+
+// Set the Target of relationships by id
+function retarget(relsXml: string, targets: Map<string, string>): string {
+  return relsXml.replace(/<Relationship\b[^>]*>/g, el => {
+    const id = /\bId="([^"]+)"/.exec(el)?.[1];
+    const target = id !== undefined ? targets.get(id) : undefined;
+    return target === undefined ? el : el.replace(/\bTarget="[^"]*"/, `Target="${target}"`);
+  });
+}
+
+// Copies parts from the input package into the written one under names free there, with their content types
+// and relationships; shared parts are copied once.
+async function partCopier(src: JSZip, dst: JSZip): Promise<PartCopier> {
+  const copied = new Map<string, string>();
+  const claimed = new Set<string>();
+  const srcTypes = (await partText(src, '[Content_Types].xml')) ?? '';
+  let types = (await partText(dst, '[Content_Types].xml')) ?? '';
+
+  const freeName = (part: string): string => {
+    const taken = (p: string) => !!dst.file(p) || claimed.has(p);
+    const m = /^(.*?)(\d*)(\.[^./]+)$/.exec(part);
+    let name = part;
+    for (let n = m?.[2] ? parseInt(m[2], 10) + 1 : 2; taken(name); n++) name = m ? `${m[1]}${n}${m[3]}` : `${part}${n}`;
+    claimed.add(name);
+    return name;
+  };
+
+  const addContentType = (srcPart: string, dstPart: string): void => {
+    const override = [...srcTypes.matchAll(/<Override\b[^>]*>/g)].map(m => m[0]).find(el => el.includes(`PartName="/${srcPart}"`));
+    const contentType = override && /\bContentType="([^"]+)"/.exec(override)?.[1];
+    if (contentType) {
+      types = types.replace('</Types>', `<Override PartName="/${dstPart}" ContentType="${contentType}"/></Types>`);
+      return;
+    }
+    const ext = escapeRe(path.posix.extname(srcPart).slice(1));
+    if (new RegExp(`<Default\\b[^>]*Extension="${ext}"`, 'i').test(types)) return;
+    const def = new RegExp(`<Default\\b[^>]*Extension="${ext}"[^>]*/>`, 'i').exec(srcTypes);
+    if (def) types = types.replace('</Types>', `${def[0]}</Types>`);
+  };
+
+  const copy: PartCopier['copy'] = async (srcPart, transform, relTransform) => {
+    const done = copied.get(srcPart);
+    if (done) return done;
+    const dstPart = freeName(srcPart);
+    copied.set(srcPart, dstPart);
+    const file = src.file(srcPart);
+    if (!file) return dstPart;
+    dst.file(dstPart, transform ? transform(await file.async('string')) : await file.async('nodebuffer'));
+    addContentType(srcPart, dstPart);
+
+    const relsXml = await partText(src, relsPathOf(srcPart));
+    if (relsXml) {
+      const targets = new Map<string, string>();
+      for (const [rId, rel] of await partRelationships(src, srcPart)) {
+        if (!src.file(rel.target)) continue; // external or missing
+        targets.set(rId, path.posix.relative(path.posix.dirname(dstPart), await copy(rel.target, relTransform?.(rId))));
+      }
+      dst.file(relsPathOf(dstPart), retarget(relsXml, targets));
+    }
+    return dstPart;
+  };
+
+  return { copy, contentTypes: () => types };
+}
+
+// Point the worksheet at the drawing, reusing the relationship of a drawing ExcelJS wrote (images) if any
+async function attachDrawing(dst: JSZip, sheetPart: string, drawing: string): Promise<void> {
+  const relsPath = relsPathOf(sheetPart);
+  let rels = (await partText(dst, relsPath)) ?? `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<Relationships xmlns="${RELS_NS}"></Relationships>`;
+  let sheet = (await partText(dst, sheetPart))!;
+  const target = path.posix.relative(path.posix.dirname(sheetPart), drawing);
+  const existing = /<drawing\b[^>]*?\br:id="([^"]+)"/.exec(sheet)?.[1];
+  if (existing) {
+    const current = await partRelationships(dst, sheetPart);
+    const old = current.get(existing)?.target;
+    if (old && old !== drawing) {
+      dst.remove(old);
+      dst.remove(relsPathOf(old));
+    }
+    rels = retarget(rels, new Map([[existing, target]]));
+  } else {
+    const ids = new Set([...rels.matchAll(/\bId="([^"]+)"/g)].map(m => m[1]));
+    let n = ids.size + 1;
+    while (ids.has(`rId${n}`)) n++;
+    const rId = `rId${n}`;
+    rels = rels.replace('</Relationships>', `<Relationship Id="${rId}" Type="${REL_DRAWING}" Target="${target}"/></Relationships>`);
+    const element = `<drawing r:id="${rId}"/>`;
+    const next = AFTER_DRAWING.map(tag => sheet.search(new RegExp(`<${tag}\\b`))).filter(i => i >= 0);
+    const at = next.length ? Math.min(...next) : sheet.lastIndexOf('</worksheet>');
+    sheet = sheet.slice(0, at) + element + sheet.slice(at);
+    if (!/\bxmlns:r=/.test(/<worksheet\b[^>]*>/.exec(sheet)![0])) {
+      sheet = sheet.replace(/<worksheet\b/, '<worksheet xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"');
+    }
+    dst.file(sheetPart, sheet);
+  }
+  dst.file(relsPath, rels);
+}
+
+// Visitor writing the translation of each body, by unit id
+function bodyTranslator(sheetName: string, translations: Map<string, string>): BodyVisitor {
+  const prefix = encodeURIComponent(sheetName);
+  return (key, body) => {
+    const text = translations.get(`${prefix}::${key}`);
+    return text !== undefined && text !== '' && text !== bodyText(body) ? rewriteBody(body, text) : body;
+  };
+}
+
+// Translate the drawing of a worksheet and its charts inside the package, for the streaming merge which
+// rewrites the input package instead of writing a new one
+export async function translateDrawingParts(zip: JSZip, sheetPart: string, sheetName: string, translations: Map<string, string>): Promise<void> {
+  const drawing = await drawingPart(zip, sheetPart);
+  const xml = drawing ? await partText(zip, drawing) : undefined;
+  if (!drawing || !xml) return;
+  const translate = bodyTranslator(sheetName, translations);
+  zip.file(drawing, visitDrawing(xml, translate));
+  const rels = await partRelationships(zip, drawing);
+  for (const [rel, frameId] of chartFrames(xml)) {
+    const chart = rels.get(rel);
+    const chartXml = chart ? await partText(zip, chart.target) : undefined;
+    if (chart && chartXml) zip.file(chart.target, visitChart(chartXml, `chart:${frameId}`, translate));
+  }
+}
+
+// Copy the drawings of `sheetNames` (input names) into the written workbook with their text translated.
+// `translations` maps unit id to merged text; sheets are paired by tab position, since merge may rename them.
+export async function restoreDrawings(
+  inputXlsxPath: string,
+  outputXlsxPath: string,
+  sheetNames: string[],
+  translations: Map<string, string>,
+  renames: Map<string, string>
+): Promise<void> {
+  if (!sheetNames.length) return;
+  const src = await openPackage(inputXlsxPath);
+  const dst = await openPackage(outputXlsxPath);
+  const srcSheets = [...(await sheetPartPaths(src)).entries()];
+  const dstSheets = [...(await sheetPartPaths(dst)).values()];
+  const copier = await partCopier(src, dst);
+  let changed = false;
+
+  for (const sheetName of sheetNames) {
+    const index = srcSheets.findIndex(([name]) => name === sheetName);
+    const drawing = index >= 0 ? await drawingPart(src, srcSheets[index][1]) : undefined;
+    if (!drawing || !dstSheets[index]) continue;
+    const translate = bodyTranslator(sheetName, translations);
+    const xml = (await partText(src, drawing)) ?? '';
+    const frames = chartFrames(xml);
+    // Chart series and labels refer to cells by sheet name; follow renamed sheets
+    const chartTransform = (frameId: string) => (chartXml: string) =>
+      visitChart(chartXml, `chart:${frameId}`, translate).replace(/(<(\w+:)?f>)([\s\S]*?)(<\/\2f>)/g, (m, open: string, _p, f: string, close: string) =>
+        renames.size ? open + encodeXml(rewriteSheetRefs(decodeXml(f), renames)) + close : m
+      );
+    const copy = await copier.copy(drawing, x => visitDrawing(x, translate), rId => {
+      const frameId = frames.get(rId);
+      return frameId ? chartTransform(frameId) : undefined;
+    });
+    await attachDrawing(dst, dstSheets[index], copy);
+    changed = true;
+  }
+
+  if (!changed) return;
+  dst.file('[Content_Types].xml', copier.contentTypes());
+  await fs.writeFile(outputXlsxPath, await dst.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' }));
+}
@@ -1,6 +1,23 @@
 import ExcelJS from 'exceljs';
-import { TranslationUnit, CellStyleSnapshot, Config } from '../types.js';
-import { colLetterToIndex, colIndexToLetter, makeTuId } from '../utils/index.js';
+import { TranslationUnit, CellStyleSnapshot, Config, ExtractOptions, SheetConfig } from '../types.js';
+import { cellValueToText, colIndexToLetter, makeKeyTuId, makeTuId } from '../utils/index.js';
+import { isHeaderRef, joinKey, keyColumnRefs, lookupColumn, readHeaderTexts, resolveColumn, ResolvedColumn } from './columns.js';
+import { richTextToInline } from './richtext.js';
+import { propertyUnits, sheetPartUnits } from './parts.js';
+import { validationTexts } from './validation.js';
+import { splitFormulaStrings } from './formula.js';
+import { isHyperlinkValue, restoreTooltips } from './hyperlink.js';
+import { compileRowFilters, rowSkipReason } from './rowfilter.js';
+import { MergeState, missingStateWarning, readMergeState, sourceHash, STATE_SHEET, stateKey } from './mergestate.js';
+import { sheetSkipReason, worksheetInfo } from './sheetfilter.js';
+import { sheetSelected } from './sheets.js';
+import { cellStyleNameReader, dntAction, needsStyleNames } from './dnt.js';
+import { drawingUnitReader } from './drawings.js';
+import { countSummary, nonTranslatableDetector, NonTranslatableKind } from './nontranslatable.js';
+import { contextColumnRefs, rowContext } from './context.js';
+import { parseMaxChars } from './limits.js';
+import { TableRange, tableSheetConfig, tableSheets } from './tables.js';
+import { A1Range, definedNameRanges, rangeAddress, resolveScopes, Scope, scopeAt, scopeColumns, scopedTargetIndex, scopeRows } from './ranges.js';
 
 function looksHtml(s: string): boolean {
   if (!s) return false;
@@ -358,170 +375,404 @@ function takeStyleSnapshot(cell: ExcelJS.Cell): CellStyleSnapshot | undefined {
   return { font, alignment, fill };
 }
 
-function normalizeSheetMatch(namePattern: string, sheetName: string): boolean {
-  try {
-    if (namePattern.startsWith('^') || namePattern.endsWith('$') || namePattern.includes('[') || namePattern.includes('(')) {
-      return new RegExp(namePattern).test(sheetName);
-    }
-  } catch {
-    // fallback to exact
-  }
-  return namePattern === sheetName;
+// Cell notes are either plain strings or { texts: [{ text, font }] } objects
+function noteToText(note: any): string {
+  if (!note) return '';
+  if (typeof note === 'string') return note;
+  if (Array.isArray(note.texts)) return note.texts.map((t: any) => t?.text ?? '').join('');
+  return '';
 }
 
-export async function extractUnits(inputXlsxPath: string, config: Config): Promise<TranslationUnit[]> {
-  const wb = await readWorkbook(inputXlsxPath);
-  const units: TranslationUnit[] = [];
+// Read access to one worksheet while building units. The in-memory reader backs it with an ExcelJS worksheet;
+// the streaming reader with the row being read, the header and metadata rows, and data read ahead from the package.
+export type SheetSource = {
+  name: string;
+  // Cell of the row being read
+  cell(row: number, col: number): ExcelJS.Cell;
+  value(row: number, col: number): any;
+  headerTexts(): Map<number, string>;
+  rowHidden(row: number): boolean;
+  columnHidden(col: number): boolean;
+  // Merged range holding a cell
+  mergeAt(row: number, col: number): A1Range | undefined;
+  note(cell: ExcelJS.Cell): any;
+  validation(cell: ExcelJS.Cell): any;
+};
+
+export type SheetUnitBuilder = {
+  rowUnits(row: number): Promise<TranslationUnit[]>;
+  // Log the sheet's non-translatable counts
+  done(): void;
+};
+
+function worksheetSource(ws: ExcelJS.Worksheet, headerRow: number, table?: TableRange): SheetSource {
+  let headers: Map<number, string> | undefined;
+  return {
+    name: ws.name,
+    cell: (r, c) => ws.getCell(r, c),
+    value: (r, c) => ws.getCell(r, c).value,
+    headerTexts: () => (headers ??= readHeaderTexts(ws, headerRow, table)),
+    rowHidden: r => ws.getRow(r).hidden ?? false,
+    columnHidden: c => ws.getColumn(c).hidden ?? false,
+    mergeAt: (r, c) => {
+      const cell = ws.getCell(r, c);
+      if (!cell.isMerged) return undefined;
+      const { top, left, bottom, right } = (ws as any)._merges[cell.master.address].model;
+      return { top, left, bottom, right };
+    },
+    note: cell => (cell as any).note || (cell as any).comments,
+    validation: cell => cell.dataValidation,
+  };
+}
 
-  for (const sheetCfg of config.workbook.sheets) {
-    const sheets = wb.worksheets.filter(ws => normalizeSheetMatch(sheetCfg.namePattern, ws.name));
-    for (const ws of sheets) {
-      const startRow = sheetCfg.valuesStartRow ?? 2;
-      const lastRow = ws.rowCount;
-      const excludedRows = new Set(sheetCfg.excludedRows || []);
-      const excludedCols = new Set((sheetCfg.excludedColumns || []).map(s => s.toUpperCase()));
-
-      for (let r = startRow; r <= lastRow; r++) {
-        const row = ws.getRow(r);
-        if ((sheetCfg.skipHiddenRows && (row.hidden ?? false)) || excludedRows.has(r)) continue;
-
-        for (const srcCol of sheetCfg.sourceColumns) {
-          const colLetter = srcCol.toUpperCase();
-          if (excludedCols.has(colLetter)) continue;
-          const cidx = colLetterToIndex(colLetter);
-          const col = ws.getColumn(cidx);
-          if (sheetCfg.skipHiddenColumns && (col.hidden ?? false)) continue;
-
-          const cell = ws.getCell(r, cidx);
-          // merged handling: only top-left when configured
-          if (sheetCfg.treatMergedRegions !== 'expand' && cell.isMerged) {
-            const m = cell.master as any; // top-left cell
-            if (sheetCfg.treatMergedRegions === 'skip') continue;
-            const mRow = Number(m.row);
-            const mCol = Number(m.col);
-            if (sheetCfg.treatMergedRegions === 'top-left' && (mRow !== r || mCol !== cidx)) continue;
+// Units of the configured cells of one sheet, row by row; shared by the in-memory and streaming readers
+export function sheetUnitBuilder(
+  sheet: SheetSource,
+  sheetCfg: SheetConfig,
+  config: Config,
+  options: ExtractOptions | undefined,
+  extra: { scopes?: Scope[]; styleNames?: Map<string, string>; mergeState: MergeState }
+): SheetUnitBuilder {
+  const { scopes, styleNames, mergeState } = extra;
+  const headerRow = sheetCfg.headerRow ?? 1;
+  const resolve = (refs: string[]): ResolvedColumn[] => {
+    const headers = refs.some(isHeaderRef) ? sheet.headerTexts() : new Map<number, string>();
+    return refs.map(r => resolveColumn(r, headers, { sheetName: sheet.name, headerRow }));
+  };
+  const excludedRows = new Set(sheetCfg.excludedRows || []);
+  const excludedCols = new Set((sheetCfg.excludedColumns || []).map(s => s.toUpperCase()));
+  // ranges: only cells inside them; a config without sourceColumns takes every column of its ranges
+  const sourceRefs = scopes && !sheetCfg.sourceColumns.length ? scopeColumns(scopes) : sheetCfg.sourceColumns;
+  const sourceCols = resolve(sourceRefs);
+  const keyCols = resolve(keyColumnRefs(sheetCfg.keyColumn));
+  const rowByKey = new Map<string, number>();
+  const rowFilters = compileRowFilters(sheetCfg.rowFilters, resolve((sheetCfg.rowFilters || []).map(f => f.column)));
+  const maxCharsCol = sheetCfg.maxCharsColumn ? resolve([sheetCfg.maxCharsColumn])[0] : undefined;
+  const contextRefs = contextColumnRefs(sheetCfg);
+  const contextCols = resolve(contextRefs.map(([ref]) => ref)).map((c, i) => ({ index: c.index, category: contextRefs[i][1] }));
+  const nonTranslatable = nonTranslatableDetector(sheetCfg);
+  const ntCounts = new Map<NonTranslatableKind, number>();
+  const exColors = (sheetCfg.excludeColors || []).map(s => s.toLowerCase());
+  // Incremental extract: target column per locale (0 when it does not exist yet)
+  const readTargets = !!(options?.onlyUntranslated || options?.prefillTargets);
+  const targetHeaders = readTargets ? sheet.headerTexts() : new Map<number, string>();
+  const targetCols = Object.entries(sheetCfg.targetColumns || {}).map(([loc, ref]) =>
+    [loc, (ref || '').trim() && readTargets ? lookupColumn(ref, targetHeaders, { sheetName: sheet.name, headerRow }) : 0] as const
+  );
+  const textAt = (r: number, c: number) => cellValueToText(sheet.value(r, c));
+
+  async function rowUnits(r: number): Promise<TranslationUnit[]> {
+    const units: TranslationUnit[] = [];
+    if ((sheetCfg.skipHiddenRows && sheet.rowHidden(r)) || excludedRows.has(r)) return units;
+    const skipReason = rowSkipReason(rowFilters, c => textAt(r, c));
+    if (skipReason) {
+      options?.log?.(`Skipped row ${r} on sheet '${sheet.name}': ${skipReason}`);
+      return units;
+    }
+    const rowKey = keyCols.length ? joinKey(keyCols.map(k => textAt(r, k.index))) : undefined;
+
+    for (const srcCol of sourceCols) {
+      const colLetter = srcCol.letter;
+      if (excludedCols.has(colLetter)) continue;
+      const cidx = srcCol.index;
+      if (sheetCfg.skipHiddenColumns && sheet.columnHidden(cidx)) continue;
+      const scope = scopes ? scopeAt(scopes, r, cidx) : undefined;
+      if (scopes && !scope) continue;
+      // Target column per locale for this cell; range offsets win over targetColumns
+      const cellTargets: (readonly [string, number])[] = [
+        ...targetCols.map(([loc, idx]) => [loc, scopedTargetIndex(scope, loc, cidx, idx)] as const),
+        ...Object.entries(scope?.targetOffsets || {})
+          .filter(([loc]) => !(loc in (sheetCfg.targetColumns || {})))
+          .map(([loc, offset]) => [loc, cidx + offset] as const),
+      ];
+
+      const cell = sheet.cell(r, cidx);
+      // merged handling: only top-left when configured
+      const merge = sheet.mergeAt(r, cidx);
+      if (sheetCfg.treatMergedRegions !== 'expand' && merge) {
+        if (sheetCfg.treatMergedRegions === 'skip') continue;
+        if (sheetCfg.treatMergedRegions === 'top-left' && (merge.top !== r || merge.left !== cidx)) continue;
+      }
+      // color exclusion (font or fill)
+      const fontColor = (cell.font as any)?.color?.argb ? `#${(cell.font as any).color.argb.slice(2)}`.toLowerCase() : undefined;
+      const fillColor = (cell.fill as any)?.fgColor?.argb ? `#${(cell.fill as any).fgColor.argb.slice(2)}`.toLowerCase() : undefined;
+      if ((fontColor && exColors.includes(fontColor)) || (fillColor && exColors.includes(fillColor))) continue;
+      // do-not-translate rules: leave the cell out, or export it locked
+      const dnt = dntAction(sheetCfg.doNotTranslate, cell, styleNames?.get(cell.address));
+      if (dnt === 'exclude') continue;
+
+      let text = '';
+      let richText = false;
+      let formula: string | null = null;
+      const meta: Record<string, any> = {};
+      if (dnt === 'lock') meta.locked = true;
+      const v: any = cell.value;
+      if (v && typeof v === 'object' && 'richText' in v) {
+        richText = true;
+        text = (v.richText as any[]).map(rt => rt.text).join('');
+        if (sheetCfg.preserveRichText !== false) {
+          const inline = richTextToInline(v.richText as any[], config.global?.xliffVersion || '2.1');
+          if (inline) {
+            text = inline.text;
+            meta.richTextFonts = inline.fonts;
           }
+        }
+      } else if (isHyperlinkValue(v)) {
+        text = cellValueToText(v.text);
+        meta.hyperlink = { url: v.hyperlink, ...(v.tooltip ? { tooltip: v.tooltip } : {}) };
+      } else if (v && typeof v === 'object' && 'formula' in v) {
+        formula = v.formula;
+        const strings = sheetCfg.translateFormulaStrings && typeof v.formula === 'string' ? splitFormulaStrings(v.formula) : null;
+        if (strings) {
+          // literals become the text, everything else is kept as codes for the merge
+          text = strings.template;
+          meta.formulaCodes = strings.codes;
+        } else if (sheetCfg.extractFormulaResults !== false) {
+          text = typeof v.result === 'string' ? v.result : String(v.result ?? '');
+        } else {
+          text = String(v.formula ?? '');
+        }
+      } else if (v == null) {
+        text = '';
+      } else {
+        text = typeof v === 'string' ? v : String(v);
+      }
 
-          // color exclusion (font or fill)
-          const exColors = (sheetCfg.excludeColors || []).map(s => s.toLowerCase());
-          const fontColor = (cell.font as any)?.color?.argb ? `#${(cell.font as any).color.argb.slice(2)}`.toLowerCase() : undefined;
-          const fillColor = (cell.fill as any)?.fgColor?.argb ? `#${(cell.fill as any).fgColor.argb.slice(2)}`.toLowerCase() : undefined;
-          if ((fontColor && exColors.includes(fontColor)) || (fillColor && exColors.includes(fillColor))) continue;
-
-          let text = '';
-          let richText = false;
-          let formula: string | null = null;
-          const v: any = cell.value;
-          if (v && typeof v === 'object' && 'richText' in v) {
-            richText = true;
-            text = (v.richText as any[]).map(rt => rt.text).join('');
-          } else if (v && typeof v === 'object' && 'formula' in v) {
-            formula = v.formula;
-            if (sheetCfg.extractFormulaResults !== false) {
-              text = typeof v.result === 'string' ? v.result : String(v.result ?? '');
-            } else {
-              text = String(v.formula ?? '');
-            }
-          } else if (v == null) {
-            text = '';
-          } else {
-            text = typeof v === 'string' ? v : String(v);
-          }
+      // Optional HTML sub-filter (rich text inline codes already look like markup)
+      let htmlDetected = false;
+
+      if (!meta.richTextFonts && !meta.formulaCodes && (sheetCfg as any).html?.enabled !== false && looksHtml(text)) {
+        htmlDetected = true;
+        const originalHtml = text;
+        const transTags = (sheetCfg as any).html?.translatableTags as string[] | undefined;
+        const xliffVersion = config.global?.xliffVersion || '2.1';
+
+        // Use hybrid approach: XLIFF inline elements for inline tags, skeleton for block tags
+        const { skeleton, xliffSource, inlineMap } = await htmlToXliffWithSkeleton(originalHtml, {
+          translatableTags: transTags,
+          xliffVersion
+        });
+
+        // Store skeleton for reconstruction during merge
+        meta.htmlSkeleton = skeleton;
+        // Only store inlineMap for XLIFF 1.2 (2.1 uses equivStart/equivEnd in the XLIFF itself)
+        if (inlineMap) {
+          meta.htmlInlineMap = inlineMap;
+        }
+        meta.htmlOriginal = originalHtml;
 
-          // Optional HTML sub-filter
-          const meta: Record<string, any> = {};
-          let htmlDetected = false;
-
-          if ((sheetCfg as any).html?.enabled !== false && looksHtml(text)) {
-            htmlDetected = true;
-            const originalHtml = text;
-            const transTags = (sheetCfg as any).html?.translatableTags as string[] | undefined;
-            const xliffVersion = config.global?.xliffVersion || '2.1';
-
-            // Use hybrid approach: XLIFF inline elements for inline tags, skeleton for block tags
-            const { skeleton, xliffSource, inlineMap } = await htmlToXliffWithSkeleton(originalHtml, {
-              translatableTags: transTags,
-              xliffVersion
-            });
-
-            // Store skeleton for reconstruction during merge
-            meta.htmlSkeleton = skeleton;
-            // Only store inlineMap for XLIFF 1.2 (2.1 uses equivStart/equivEnd in the XLIFF itself)
-            if (inlineMap) {
-              meta.htmlInlineMap = inlineMap;
-            }
-            meta.htmlOriginal = originalHtml;
-
-            // The translatable text is the XLIFF source with inline elements
-            text = xliffSource;
-          }
+        // The translatable text is the XLIFF source with inline elements
+        text = xliffSource;
+      }
 
-          if (!htmlDetected && text === '') continue; // skip empty when not HTML; when HTML with zero texts, keep TU with skeleton
-
-          const style = sheetCfg.preserveStyles ? takeStyleSnapshot(cell) : undefined;
-          const id = makeTuId(ws.name, r, colLetter);
-          // header text from configured headerRow (by column)
-          if (sheetCfg.headerRow && sheetCfg.headerRow >= 1) {
-            const hcell = ws.getCell(sheetCfg.headerRow, cidx);
-            const hv: any = hcell.value;
-            let headerText = '';
-            if (hv && typeof hv === 'object' && 'richText' in hv) {
-              headerText = (hv.richText as any[]).map(rt => rt.text).join('');
-            } else if (hv && typeof hv === 'object' && 'formula' in hv) {
-              headerText = typeof hv.result === 'string' ? hv.result : String(hv.result ?? '');
-            } else if (hv != null) {
-              headerText = typeof hv === 'string' ? hv : String(hv);
-            }
-            if (headerText) meta.headerName = headerText;
-          }
-          // metadataRows values for this column
-          if (sheetCfg.metadataRows && sheetCfg.metadataRows.length) {
-            const map: Record<number, string> = {};
-            for (const mr of sheetCfg.metadataRows) {
-              const mcell = ws.getCell(mr, cidx);
-              const mv: any = mcell.value;
-              let mtext = '';
-              if (mv && typeof mv === 'object' && 'richText' in mv) {
-                mtext = (mv.richText as any[]).map(rt => rt.text).join('');
-              } else if (mv && typeof mv === 'object' && 'formula' in mv) {
-                mtext = typeof mv.result === 'string' ? mv.result : String(mv.result ?? '');
-              } else if (mv != null) {
-                mtext = typeof mv === 'string' ? mv : String(mv);
-              }
-              if (mtext) map[mr] = mtext;
-            }
-            if (Object.keys(map).length) meta.metadataRows = map;
-          }
-          if (sheetCfg.translateComments) {
-            const note = (cell as any).note || (cell as any).comments;
-            if (note) meta.comments = note;
-          }
-          const tu: TranslationUnit = {
-            id,
-            sheetName: ws.name,
-            row: r,
-            col: colLetter,
-            colIndex: cidx,
-            source: text,
-            richText,
-            style,
-            formula,
-            isMerged: cell.isMerged,
-            mergedRange: (cell as any)._mergeCount ? (cell as any)._mergeCount : null,
-            meta: Object.keys(meta).length ? meta : undefined,
-            segments: [{
-              id: `${id}_s0`,
-              // Segment source equals translator-facing text (HTML stripped, inline markers preserved)
-              source: text,
-              target: ''
-            }]
-          };
+      // Row key is only required (and claimed) by rows that produce units
+      const unitId = (): string => {
+        if (rowKey === undefined) return makeTuId(sheet.name, r, colLetter);
+        if (!rowKey) {
+          throw new Error(`Empty key in column(s) ${keyCols.map(k => k.letter).join(', ')} at row ${r} on sheet '${sheet.name}'.`);
+        }
+        const seenAt = rowByKey.get(rowKey);
+        if (seenAt !== undefined && seenAt !== r) {
+          throw new Error(`Duplicate key '${rowKey}' at rows ${seenAt} and ${r} on sheet '${sheet.name}'.`);
+        }
+        rowByKey.set(rowKey, r);
+        return makeKeyTuId(sheet.name, rowKey, srcCol.ref);
+      };
+      // Locales whose target is empty, or was merged from a different source text; undefined unless onlyUntranslated
+      let pending: string[] | undefined;
+      const untranslatedLocales = (id: string): string[] | undefined => {
+        if (!options?.onlyUntranslated) return undefined;
+        const hash = sourceHash(cellValueToText(cell.value));
+        return cellTargets.filter(([loc, idx]) => {
+          if (!idx || !textAt(r, idx).trim()) return true;
+          const recorded = mergeState.get(stateKey(id, loc));
+          return recorded !== undefined && recorded !== hash;
+        }).map(([loc]) => loc);
+      };
+
+      // Units attached to the cell: its note, its data validation strings and its hyperlink tooltip
+      const noteText = sheetCfg.notes?.translate ? noteToText(sheet.note(cell)) : '';
+      const tooltipText = sheetCfg.hyperlinks?.tooltips !== false && meta.hyperlink?.tooltip ? String(meta.hyperlink.tooltip) : '';
+      const dvTexts = sheetCfg.dataValidation?.translate ? validationTexts(sheet.validation(cell), sheetCfg.dataValidation) : [];
+      const context = rowContext(contextCols, c => textAt(r, c));
+      const subUnit = (id: string, kind: TranslationUnit['kind'], subText: string): TranslationUnit => ({
+        id,
+        kind,
+        sheetName: sheet.name,
+        row: r,
+        col: colLetter,
+        colIndex: cidx,
+        ...(rowKey !== undefined ? { key: rowKey } : {}),
+        source: subText,
+        segments: [{ id: `${id}_s0`, source: subText, target: '' }],
+        ...(pending || context
+          ? { meta: { ...(pending ? { untranslatedLocales: pending } : {}), ...(context ? { context } : {}) } }
+          : {}),
+      });
+      const attachedUnits = (hostId: string): TranslationUnit[] => [
+        ...(noteText ? [subUnit(`${hostId}::note`, 'note', noteText)] : []),
+        ...dvTexts.map(([part, t]) => subUnit(`${hostId}::dv:${part}`, 'validation', t)),
+        ...(tooltipText ? [subUnit(`${hostId}::tooltip`, 'tooltip', tooltipText)] : []),
+      ];
+
+      // Numbers, dates, URLs, codes, bare placeholders: skipped like empty cells, or locked
+      const ntKind = text ? nonTranslatable?.detect(cell.value, text) : undefined;
+      if (ntKind) ntCounts.set(ntKind, (ntCounts.get(ntKind) ?? 0) + 1);
+      if ((!htmlDetected && text === '') || (ntKind && nonTranslatable!.action === 'skip')) {
+        // skip empty when not HTML; when HTML with zero texts, keep TU with skeleton. Notes and validations on empty cells still count.
+        if (noteText || dvTexts.length) {
+          const hostId = unitId();
+          pending = untranslatedLocales(hostId);
+          if (!pending || pending.length) units.push(...attachedUnits(hostId));
+        }
+        continue;
+      }
 
-          // Do not override segments for HTML; keep plain concatenated text for translators
-          units.push(tu);
+      const style = sheetCfg.preserveStyles ? takeStyleSnapshot(cell) : undefined;
+      const id = unitId();
+      pending = untranslatedLocales(id);
+      if (pending && !pending.length) continue;
+      if (ntKind) meta.locked = true;
+      if (pending) meta.untranslatedLocales = pending;
+      if (context) meta.context = context;
+      if (maxCharsCol) {
+        const limit = parseMaxChars(
+          textAt(r, maxCharsCol.index),
+          `in column ${maxCharsCol.letter} at row ${r} on sheet '${sheet.name}'`
+        );
+        if (limit) meta.maxChars = limit;
+      }
+      // Existing translations to prefill; rich text, HTML and formula targets have no plain text to offer
+      if (options?.prefillTargets && !meta.richTextFonts && !meta.formulaCodes && !htmlDetected) {
+        const existing: Record<string, string> = {};
+        for (const [loc, idx] of cellTargets) {
+          const t = idx ? textAt(r, idx) : '';
+          if (t.trim()) existing[loc] = t;
         }
+        if (Object.keys(existing).length) meta.existingTargets = existing;
+      }
+      // header text from configured headerRow (by column)
+      if (sheetCfg.headerRow && sheetCfg.headerRow >= 1) {
+        const hv: any = sheet.value(sheetCfg.headerRow, cidx);
+        let headerText = '';
+        if (hv && typeof hv === 'object' && 'richText' in hv) {
+          headerText = (hv.richText as any[]).map(rt => rt.text).join('');
+        } else if (hv && typeof hv === 'object' && 'formula' in hv) {
+          headerText = typeof hv.result === 'string' ? hv.result : String(hv.result ?? '');
+        } else if (hv != null) {
+          headerText = typeof hv === 'string' ? hv : String(hv);
+        }
+        if (headerText) meta.headerName = headerText;
+      }
+      // metadataRows values for this column
+      if (sheetCfg.metadataRows && sheetCfg.metadataRows.length) {
+        const map: Record<number, string> = {};
+        for (const mr of sheetCfg.metadataRows) {
+          const mv: any = sheet.value(mr, cidx);
+          let mtext = '';
+          if (mv && typeof mv === 'object' && 'richText' in mv) {
+            mtext = (mv.richText as any[]).map(rt => rt.text).join('');
+          } else if (mv && typeof mv === 'object' && 'formula' in mv) {
+            mtext = typeof mv.result === 'string' ? mv.result : String(mv.result ?? '');
+          } else if (mv != null) {
+            mtext = typeof mv === 'string' ? mv : String(mv);
+          }
+          if (mtext) map[mr] = mtext;
+        }
+        if (Object.keys(map).length) meta.metadataRows = map;
+      }
+      if (sheetCfg.translateComments) {
+        const note = sheet.note(cell);
+        if (note) meta.comments = note;
+      }
+      const tu: TranslationUnit = {
+        id,
+        sheetName: sheet.name,
+        row: r,
+        col: colLetter,
+        colIndex: cidx,
+        ...(rowKey !== undefined ? { key: rowKey } : {}),
+        source: text,
+        richText,
+        style,
+        formula,
+        isMerged: !!merge,
+        mergedRange: merge && merge.top === r && merge.left === cidx ? rangeAddress(merge) : null,
+        meta: Object.keys(meta).length ? meta : undefined,
+        segments: [{
+          id: `${id}_s0`,
+          // Segment source equals translator-facing text (HTML stripped, inline markers preserved)
+          source: text,
+          target: ''
+        }]
+      };
+
+      // Do not override segments for HTML; keep plain concatenated text for translators
+      units.push(tu);
+      units.push(...attachedUnits(id));
+    }
+    return units;
+  }
+
+  return {
+    rowUnits,
+    done() {
+      if (ntCounts.size) {
+        options?.log?.(`${nonTranslatable!.action === 'skip' ? 'Skipped' : 'Locked'} non-translatable cells on sheet '${sheet.name}': ${countSummary(ntCounts)}`);
       }
+    },
+  };
+}
+
+export async function extractUnits(inputXlsxPath: string, config: Config, options?: ExtractOptions): Promise<TranslationUnit[]> {
+  const wb = await readWorkbook(inputXlsxPath);
+  await restoreTooltips(wb, inputXlsxPath);
+  const units: TranslationUnit[] = [];
+  const partsDone = new Set<string>();
+  const mergeState = readMergeState(wb);
+  if (options?.onlyUntranslated && !wb.getWorksheet(STATE_SHEET)) {
+    options.warn?.(missingStateWarning(inputXlsxPath));
+  }
+  const styleNameLookup = cellStyleNameReader(inputXlsxPath);
+  const readDrawingUnits = drawingUnitReader(inputXlsxPath);
+  const drawingsDone = new Set<string>();
+
+  for (const baseCfg of config.workbook.sheets) {
+    const sheets = wb.worksheets.filter((ws, i) => {
+      if (!sheetSelected(baseCfg, { name: ws.name, index: i + 1 })) return false;
+      const skipReason = sheetSkipReason(baseCfg, worksheetInfo(ws));
+      if (skipReason) options?.log?.(`Skipped sheet '${ws.name}': ${skipReason}`);
+      return !skipReason;
+    });
+    for (const { ws, table } of tableSheets(sheets, baseCfg)) {
+      const sheetCfg = table ? tableSheetConfig(baseCfg, table) : baseCfg;
+      // Tab name and header/footer once per sheet, even when several sheet configs match it
+      if (!partsDone.has(ws.name)) {
+        const parts = sheetPartUnits(ws, sheetCfg);
+        if (parts.length) partsDone.add(ws.name);
+        units.push(...parts);
+      }
+      if (sheetCfg.translateDrawings && !drawingsDone.has(ws.name)) {
+        drawingsDone.add(ws.name);
+        units.push(...(await readDrawingUnits(ws.name)));
+      }
+      const scopes = resolveScopes(ws.name, sheetCfg, definedNameRanges(wb));
+      if (scopes && !scopes.length) continue;
+      const scopeSpan = scopes ? scopeRows(scopes) : undefined;
+      const startRow = scopeSpan?.first ?? sheetCfg.valuesStartRow ?? 2;
+      const lastRow = scopeSpan?.last ?? table?.lastRow ?? ws.rowCount;
+      const styleNames = needsStyleNames(sheetCfg) ? await styleNameLookup(ws.name) : undefined;
+      const builder = sheetUnitBuilder(worksheetSource(ws, sheetCfg.headerRow ?? 1, table), sheetCfg, config, options, { scopes, styleNames, mergeState });
+      for (let r = startRow; r <= lastRow; r++) units.push(...(await builder.rowUnits(r)));
+      builder.done();
     }
   }
+  units.push(...propertyUnits(wb, config));
+  // Tab position, so index-based sheet patterns also resolve for the unit in the exporters
+  const sheetIndexes = new Map(wb.worksheets.map((ws, i) => [ws.name, i + 1]));
+  for (const u of units) {
+    const index = sheetIndexes.get(u.sheetName);
+    if (index !== undefined) u.sheetIndex = index;
+  }
   return units;
 }
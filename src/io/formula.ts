@@ -0,0 +1,109 @@
+// String literals inside formulas ↔ translatable text.
+// ="Total: "&TEXT(A1,"0")&" items" becomes the template "Total: [[fx:1]] items" with codes
+// ['"', '"&TEXT(A1,"0")&"', '"']: the first and last codes wrap the template, the middle ones
+// appear as [[fx:N]] placeholders that translators may move but not drop.
+
+export const FORMULA_CODE = '\\[\\[fx:\\d+\\]\\]';
+
+// Excel caps a single string literal at 255 characters
+const MAX_LITERAL_LENGTH = 255;
+
+// Function arguments whose literals are codes rather than text (format strings, references, lookup keys, criteria)
+const CODE_ARGS: Record<string, number[]> = {
+  TEXT: [1],
+  INDIRECT: [0],
+  HYPERLINK: [0],
+  CELL: [0],
+  INFO: [0],
+  MATCH: [0],
+  VLOOKUP: [0],
+  HLOOKUP: [0],
+  XLOOKUP: [0],
+  COUNTIF: [1],
+  SUMIF: [1],
+  AVERAGEIF: [1],
+};
+
+type Literal = { start: number; end: number; text: string };
+
+function isTranslatable(formula: string, lit: Literal, fn: { name: string; arg: number } | undefined): boolean {
+  if (!/\p{L}/u.test(lit.text)) return false;
+  if (fn && CODE_ARGS[fn.name]?.includes(fn.arg)) return false;
+  // Operands of a comparison ("Yes" in A1="Yes") must keep matching the data
+  const before = formula.slice(0, lit.start).trimEnd();
+  const after = formula.slice(lit.end).trimStart();
+  return !/[=<>]$/.test(before) && !/^[=<>]/.test(after);
+}
+
+export function splitFormulaStrings(formula: string): { template: string; codes: string[] } | null {
+  const literals: Literal[] = [];
+  const stack: { name: string; arg: number }[] = [];
+  let i = 0;
+  while (i < formula.length) {
+    const ch = formula[i];
+    if (ch === '"') {
+      let j = i + 1;
+      let text = '';
+      while (j < formula.length) {
+        if (formula[j] === '"' && formula[j + 1] === '"') { text += '"'; j += 2; continue; }
+        if (formula[j] === '"') break;
+        text += formula[j++];
+      }
+      const lit = { start: i, end: j + 1, text };
+      if (isTranslatable(formula, lit, stack[stack.length - 1])) literals.push(lit);
+      i = j + 1;
+    } else if (ch === "'") {
+      // quoted sheet name
+      const close = formula.indexOf("'", i + 1);
+      i = close < 0 ? formula.length : close + 1;
+    } else if (ch === '(') {
+      const name = /([A-Za-z_][\w.]*)$/.exec(formula.slice(0, i))?.[1] ?? '';
+      stack.push({ name: name.toUpperCase().replace(/^_XLFN\./, ''), arg: 0 });
+      i++;
+    } else if (ch === ')') {
+      stack.pop();
+      i++;
+    } else if (ch === ',' && stack.length) {
+      stack[stack.length - 1].arg++;
+      i++;
+    } else {
+      i++;
+    }
+  }
+  if (!literals.length) return null;
+
+  const codes: string[] = [];
+  let template = '';
+  let pos = 0;
+  literals.forEach((lit, n) => {
+    codes.push(formula.slice(pos, lit.start + 1));
+    if (n > 0) template += `[[fx:${n}]]`;
+    template += lit.text;
+    pos = lit.end - 1;
+  });
+  codes.push(formula.slice(pos));
+  return { template, codes };
+}
+
+// Why a translated template cannot be rebuilt into a formula, or undefined when it can
+export function formulaTextError(text: string, codes: string[]): string | undefined {
+  const tokens: string[] = text.match(/\[\[fx:\d+\]\]/g) || [];
+  const expected = codes.slice(1, -1).map((_, n) => `[[fx:${n + 1}]]`);
+  if (tokens.length !== expected.length || expected.some(t => !tokens.includes(t))) {
+    return `must keep each formula code ${expected.join(', ')} exactly once`;
+  }
+  const tooLong = text.split(/\[\[fx:\d+\]\]/).find(part => part.length > MAX_LITERAL_LENGTH);
+  if (tooLong !== undefined) return `has a string of ${tooLong.length} characters; Excel allows ${MAX_LITERAL_LENGTH} per formula string`;
+  return undefined;
+}
+
+export function rebuildFormula(text: string, codes: string[], unitId: string): string {
+  const error = formulaTextError(text, codes);
+  if (error) throw new Error(`Translation of ${unitId} ${error}.`);
+  let out = codes[0];
+  for (const part of text.split(/(\[\[fx:\d+\]\])/)) {
+    const m = /^\[\[fx:(\d+)\]\]$/.exec(part);
+    out += m ? codes[Number(m[1])] : part.replace(/"/g, '""');
+  }
+  return out + codes[codes.length - 1];
+}
@@ -0,0 +1,69 @@
+import ExcelJS from 'exceljs';
+import JSZip from 'jszip';
+import { SheetConfig } from '../types.js';
+import { openPackage, readHyperlinkTooltips, sheetPartPaths } from './ooxml.js';
+
+// Hyperlink cells: ExcelJS values of the form { text, hyperlink, tooltip }.
+// The display text is the cell's unit, the tooltip (screen tip) an attached unit <cell id>::tooltip;
+// the address travels in unit meta (hyperlink) and is rewritten per locale on merge.
+
+export type HyperlinkMeta = { url: string; tooltip?: string };
+
+export function isHyperlinkValue(v: any): boolean {
+  return !!v && typeof v === 'object' && typeof v.hyperlink === 'string';
+}
+
+export function rewriteUrl(url: string, locale: string, sheetCfg: SheetConfig): string {
+  let out = url;
+  for (const rule of sheetCfg.hyperlinks?.urlRewrites?.[locale] || []) {
+    let re: RegExp;
+    try {
+      re = new RegExp(rule.pattern, 'g');
+    } catch {
+      throw new Error(`Invalid urlRewrites pattern '${rule.pattern}' for locale '${locale}' on sheet '${sheetCfg.namePattern}'.`);
+    }
+    out = out.replace(re, rule.replacement);
+  }
+  return out;
+}
+
+export function hyperlinkValue(text: string, link: HyperlinkMeta, locale: string, sheetCfg: SheetConfig): ExcelJS.CellHyperlinkValue {
+  const value: any = { text, hyperlink: rewriteUrl(link.url, locale, sheetCfg) };
+  if (link.tooltip) value.tooltip = link.tooltip;
+  return value;
+}
+
+// A translated tooltip lands on the hyperlink already merged into `cell`, or on a copy of the source cell's link
+export function applyTooltip(cell: ExcelJS.Cell, sourceCell: ExcelJS.Cell, tooltip: string, locale: string, sheetCfg: SheetConfig): void {
+  const current: any = cell.value;
+  if (isHyperlinkValue(current)) {
+    cell.value = { ...current, tooltip };
+    return;
+  }
+  const src: any = sourceCell.value;
+  if (!isHyperlinkValue(src)) return;
+  cell.value = { ...hyperlinkValue(src.text, { url: src.hyperlink }, locale, sheetCfg), tooltip } as any;
+}
+
+// ExcelJS drops hyperlink tooltips when reading a file; put them back from the worksheet XML
+export async function restoreTooltips(wb: ExcelJS.Workbook, filePath: string): Promise<void> {
+  let zip: JSZip | undefined;
+  let sheetParts: Map<string, string> | undefined;
+  for (const ws of wb.worksheets) {
+    const links: ExcelJS.Cell[] = [];
+    ws.eachRow({ includeEmpty: false }, row => {
+      row.eachCell({ includeEmpty: false }, cell => {
+        if (isHyperlinkValue(cell.value) && !(cell.value as any).tooltip) links.push(cell);
+      });
+    });
+    if (!links.length) continue;
+    zip ??= await openPackage(filePath);
+    sheetParts ??= await sheetPartPaths(zip);
+    const part = sheetParts.get(ws.name);
+    const tooltips = part ? await readHyperlinkTooltips(zip, part) : new Map<string, string>();
+    for (const cell of links) {
+      const tooltip = tooltips.get(cell.address);
+      if (tooltip) cell.value = { ...(cell.value as any), tooltip };
+    }
+  }
+}
@@ -0,0 +1,30 @@
+import { Config, TranslationUnit } from '../types.js';
+import { sheetConfigFor } from './sheets.js';
+
+// Character limits of cell targets: SheetConfig.maxCharsColumn gives a per-row limit (extracted into meta.maxChars),
+// SheetConfig.maxCharsPerTarget[locale] applies to rows without one. Limits count Unicode code points.
+
+// Limit in a maxCharsColumn cell; empty cells have none
+export function parseMaxChars(text: string, where: string): number | undefined {
+  const t = text.trim();
+  if (!t) return undefined;
+  const n = Number(t);
+  if (!Number.isInteger(n) || n <= 0) throw new Error(`Invalid character limit '${t}' ${where}.`);
+  return n;
+}
+
+export function maxCharsFor(u: TranslationUnit, config: Config, locale?: string): number | undefined {
+  if (u.kind && u.kind !== 'cell') return undefined;
+  if (u.meta?.maxChars) return u.meta.maxChars as number;
+  if (!locale) return undefined;
+  return sheetConfigFor(config, u)?.maxCharsPerTarget?.[locale];
+}
+
+// Whether units extracted with this config can have a limit for `locale`, before any of them is seen
+export function configHasLimits(config: Config, locale?: string): boolean {
+  return config.workbook.sheets.some(s => !!s.maxCharsColumn || (!!locale && s.maxCharsPerTarget?.[locale] !== undefined));
+}
+
+export function charCount(text: string): number {
+  return Array.from(text).length;
+}
@@ -0,0 +1,45 @@
+import { createHash } from 'node:crypto';
+import ExcelJS from 'exceljs';
+
+// Merge state: for every (unit id, locale) written by merge, a hash of the source cell text at that time.
+// Kept in a very hidden worksheet so an incremental extract can tell stale translations from current ones.
+
+export const STATE_SHEET = '_l10n_state';
+
+// "<unit id>|<locale>" → source hash
+export type MergeState = Map<string, string>;
+
+export function stateKey(unitId: string, locale: string): string {
+  return `${unitId}|${locale}`;
+}
+
+export function sourceHash(text: string): string {
+  return createHash('sha1').update(text, 'utf8').digest('hex').slice(0, 16);
+}
+
+// What an incremental extract of a workbook without a state sheet says: only empty targets can be found
+export function missingStateWarning(inputXlsxPath: string): string {
+  return `'${inputXlsxPath}' has no merge state (${STATE_SHEET}): only empty targets are found, not stale ones. Merge with global.mergeState: true to record it.`;
+}
+
+export function readMergeState(wb: ExcelJS.Workbook): MergeState {
+  const state: MergeState = new Map();
+  wb.getWorksheet(STATE_SHEET)?.eachRow({ includeEmpty: false }, (row, r) => {
+    if (r === 1) return; // header
+    const [id, locale, hash] = [1, 2, 3].map(c => String(row.getCell(c).value ?? ''));
+    if (id && locale && hash) state.set(stateKey(id, locale), hash);
+  });
+  return state;
+}
+
+export function writeMergeState(wb: ExcelJS.Workbook, state: MergeState): void {
+  if (!state.size) return;
+  const existing = wb.getWorksheet(STATE_SHEET);
+  if (existing) wb.removeWorksheet(existing.id);
+  const ws = wb.addWorksheet(STATE_SHEET, { state: 'veryHidden' });
+  ws.addRow(['unitId', 'locale', 'sourceHash']);
+  for (const [key, hash] of state) {
+    const at = key.lastIndexOf('|');
+    ws.addRow([key.slice(0, at), key.slice(at + 1), hash]);
+  }
+}
@@ -0,0 +1,66 @@
+import { NonTranslatableConfig, SheetConfig } from '../types.js';
+
+// SheetConfig.nonTranslatable: cells whose content is not text for a translator (numbers, dates, booleans,
+// URLs, e-mail addresses, codes matching `patterns`, or nothing but placeholders) are skipped or exported locked.
+
+export type NonTranslatableKind = 'number' | 'date' | 'boolean' | 'url' | 'email' | 'pattern' | 'placeholder';
+
+export type NonTranslatableDetector = {
+  action: 'skip' | 'lock';
+  // Kind of non-translatable content of a cell value and its text, if any
+  detect(value: any, text: string): NonTranslatableKind | undefined;
+};
+
+const NUMBER_TEXT = /^[-+]?[$€£¥]?\s?(?:\d{1,3}(?:[,.'\s]\d{3})+|\d+)(?:[.,]\d+)?(?:[eE][-+]?\d+)?\s?%?$/;
+const DATE_TEXT = /^(?:\d{4}-\d{2}-\d{2}(?:[T ]\d{2}:\d{2}(?::\d{2}(?:\.\d+)?)?(?:Z|[+-]\d{2}:?\d{2})?)?|\d{1,2}[./-]\d{1,2}[./-]\d{2,4}|\d{1,2}:\d{2}(?::\d{2})?)$/;
+const URL_TEXT = /^(?:(?:https?|ftp):\/\/|www\.)[^\s]+$/i;
+const EMAIL_TEXT = /^(?:mailto:)?[^\s@]+@[^\s@]+\.[^\s@]+$/i;
+// printf (%s, %1$d), .NET/ICU style ({0}, {name}), template (${x}, {{x}}), markup tags and exported inline codes
+const PLACEHOLDER = /%(?:\d+\$)?[-+ 0#]*\d*(?:\.\d+)?[sdifuxXeEgGc@%]|\$\{[^}]*\}|\{\{[^}]*\}\}|\{[^{}]*\}|<\/?[A-Za-z][^>]*>|\[\[[^\]]+\]\]/g;
+
+function rawValue(value: any): any {
+  if (value && typeof value === 'object' && 'formula' in value) return value.result;
+  return value;
+}
+
+function normalize(cfg: SheetConfig['nonTranslatable']): NonTranslatableConfig | undefined {
+  if (!cfg) return undefined;
+  return cfg === true ? {} : cfg;
+}
+
+export function nonTranslatableDetector(sheetCfg: SheetConfig): NonTranslatableDetector | undefined {
+  const cfg = normalize(sheetCfg.nonTranslatable);
+  if (!cfg) return undefined;
+  const patterns = (cfg.patterns || []).map(p => {
+    try { return new RegExp(p); } catch (e: any) { throw new Error(`Invalid nonTranslatable pattern '${p}' on sheet '${sheetCfg.namePattern}': ${e.message}`); }
+  });
+  // The sheet's inline code patterns count as placeholders too
+  const codes = (sheetCfg.inlineCodeRegexes || []).flatMap(r => {
+    try { return [new RegExp(r, 'g')]; } catch { return []; }
+  });
+  const withoutPlaceholders = (t: string) => codes.reduce((s, re) => s.replace(re, ''), t.replace(PLACEHOLDER, ''));
+  const on = (flag: keyof NonTranslatableConfig) => cfg[flag] !== false;
+  return {
+    action: cfg.action ?? 'skip',
+    detect(value, text) {
+      const raw = rawValue(value);
+      const t = text.trim();
+      if (on('numbers') && (typeof raw === 'number' || NUMBER_TEXT.test(t))) return 'number';
+      if (on('dates') && (raw instanceof Date || DATE_TEXT.test(t))) return 'date';
+      if (on('booleans') && typeof raw === 'boolean') return 'boolean';
+      if (on('urls') && URL_TEXT.test(t)) return 'url';
+      if (on('emails') && EMAIL_TEXT.test(t)) return 'email';
+      if (patterns.some(re => re.test(t))) return 'pattern';
+      if (on('placeholders') && t) {
+        const rest = withoutPlaceholders(t);
+        if (rest !== t && !rest.replace(/[\s\p{P}\p{S}]/gu, '')) return 'placeholder';
+      }
+      return undefined;
+    },
+  };
+}
+
+// Per-sheet tally for the log: "12 numbers, 2 urls"
+export function countSummary(counts: Map<NonTranslatableKind, number>): string {
+  return [...counts].map(([kind, n]) => `${n} ${kind}${n === 1 ? '' : 's'}`).join(', ');
+}
@@ -0,0 +1,102 @@
+import fs from 'node:fs/promises';
+import path from 'node:path';
+import { Readable } from 'node:stream';
+import { StringDecoder } from 'node:string_decoder';
+import JSZip from 'jszip';
+import { XMLParser } from 'fast-xml-parser';
+
+// Direct access to XLSX package parts for data ExcelJS does not read back (e.g. hyperlink tooltips).
+
+const parser = new XMLParser({ ignoreAttributes: false, attributeNamePrefix: '', removeNSPrefix: true, parseTagValue: false, parseAttributeValue: false });
+
+export function asArray<T>(v: T | T[] | undefined): T[] {
+  return v == null ? [] : Array.isArray(v) ? v : [v];
+}
+
+export function decodeXml(s: string): string {
+  return s.replace(/&(lt|gt|quot|apos|amp|#x[0-9a-fA-F]+|#\d+);/g, (m, e: string) => {
+    if (e[0] === '#') return String.fromCodePoint(e[1] === 'x' ? parseInt(e.slice(2), 16) : parseInt(e.slice(1), 10));
+    return ({ lt: '<', gt: '>', quot: '"', apos: "'", amp: '&' } as Record<string, string>)[e];
+  });
+}
+
+// Text content; attribute values also need their double quotes escaped
+export function encodeXml(s: string, attribute = false): string {
+  const text = s.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;');
+  return attribute ? text.replace(/"/g, '&quot;') : text;
+}
+
+export async function openPackage(filePath: string): Promise<JSZip> {
+  return JSZip.loadAsync(await fs.readFile(filePath));
+}
+
+export async function readXmlPart(zip: JSZip, partPath: string): Promise<any | undefined> {
+  const file = zip.file(partPath);
+  return file ? parser.parse(await file.async('string')) : undefined;
+}
+
+export function relsPathOf(part: string): string {
+  return path.posix.join(path.posix.dirname(part), '_rels', `${path.posix.basename(part)}.rels`);
+}
+
+// Relationships of a part: rId → { target (package path, or URL for external targets), type (last URI segment) }
+export async function partRelationships(zip: JSZip, partPath: string): Promise<Map<string, { target: string; type: string }>> {
+  const doc = await readXmlPart(zip, relsPathOf(partPath));
+  const out = new Map<string, { target: string; type: string }>();
+  for (const rel of asArray<any>(doc?.Relationships?.Relationship)) {
+    const raw = String(rel.Target);
+    const target = rel.TargetMode === 'External'
+      ? raw
+      : raw.startsWith('/') ? raw.slice(1) : path.posix.normalize(path.posix.join(path.posix.dirname(partPath), raw));
+    out.set(String(rel.Id), { target, type: String(rel.Type || '').split('/').pop() || '' });
+  }
+  return out;
+}
+
+// Sheet name → worksheet part path (xl/worksheets/sheetN.xml)
+export async function sheetPartPaths(zip: JSZip): Promise<Map<string, string>> {
+  const doc = await readXmlPart(zip, 'xl/workbook.xml');
+  const rels = await partRelationships(zip, 'xl/workbook.xml');
+  const out = new Map<string, string>();
+  for (const sheet of asArray<any>(doc?.workbook?.sheets?.sheet)) {
+    const rel = rels.get(String(sheet.id));
+    if (rel) out.set(String(sheet.name), rel.target);
+  }
+  return out;
+}
+
+// Tab colour (ARGB) of a worksheet part, read from <sheetPr>; only the head of the part is decompressed
+export async function readTabColor(zip: JSZip, sheetPart: string): Promise<string | undefined> {
+  const file = zip.file(sheetPart);
+  if (!file) return undefined;
+  // <sheetPr> is the first child of <worksheet>: reading stops at its end or at <sheetData> when it is missing
+  const done = /<\/(?:\w+:)?sheetPr>|<(?:\w+:)?sheetPr\b[^>]*\/>|<(?:\w+:)?sheetData\b/;
+  const head = await new Promise<string>((resolve, reject) => {
+    const decoder = new StringDecoder('utf8');
+    let text = '';
+    const stream = file.nodeStream('nodebuffer') as Readable;
+    stream
+      .on('data', (chunk: Buffer) => {
+        text += decoder.write(chunk);
+        if (done.test(text)) {
+          resolve(text);
+          stream.destroy();
+        }
+      })
+      .on('end', () => resolve(text + decoder.end()))
+      .on('error', reject)
+      .resume();
+  });
+  const sheetPr = /<(?:\w+:)?sheetPr\b[^>]*>([\s\S]*?)<\/(?:\w+:)?sheetPr>/.exec(head)?.[1] ?? '';
+  return /<(?:\w+:)?tabColor\b[^>]*\brgb="([0-9A-Fa-f]{6,8})"/.exec(sheetPr)?.[1];
+}
+
+// Cell address → tooltip of the hyperlinks in a worksheet part
+export async function readHyperlinkTooltips(zip: JSZip, sheetPart: string): Promise<Map<string, string>> {
+  const doc = await readXmlPart(zip, sheetPart);
+  const out = new Map<string, string>();
+  for (const link of asArray<any>(doc?.worksheet?.hyperlinks?.hyperlink)) {
+    if (link.tooltip) out.set(String(link.ref), String(link.tooltip));
+  }
+  return out;
+}
@@ -0,0 +1,171 @@
+import ExcelJS from 'exceljs';
+import { Config, SheetConfig, TranslationUnit } from '../types.js';
+
+// Workbook text outside the configured cells: sheet tab names, page headers/footers and document properties.
+// Each part is one unit; its id ends in the part name so merge can locate it again:
+//   <sheet>::sheetName, <sheet>::hf:oddHeader, workbook::prop:title
+
+export const HEADER_FOOTER_FIELDS = ['oddHeader', 'oddFooter', 'evenHeader', 'evenFooter', 'firstHeader', 'firstFooter'] as const;
+export const DEFAULT_PROPERTIES = ['title', 'subject', 'keywords', 'description', 'category'];
+const KNOWN_PROPERTIES = [...DEFAULT_PROPERTIES, 'company', 'manager'];
+
+// Header/footer control codes (&L, &P, &"Arial,Bold", &12, &KFF0000, &&, ...), protected as placeholders on export
+export const HEADER_FOOTER_CODE = '&(?:"[^"]*"|\\d+|K[0-9A-Fa-f]{6}|K\\d{2}[+-]\\d{3}|[LCRPNDTZFAGBIUSEXY&])';
+
+const INVALID_SHEET_CHARS = /[\\/?*:[\]]/;
+
+export function partUnit(id: string, kind: TranslationUnit['kind'], sheetName: string, text: string): TranslationUnit {
+  return {
+    id,
+    kind,
+    sheetName,
+    row: 0,
+    col: '',
+    colIndex: 0,
+    source: text,
+    segments: [{ id: `${id}_s0`, source: text, target: '' }],
+  };
+}
+
+function partName(tu: TranslationUnit): string {
+  return tu.id.slice(tu.id.lastIndexOf('::') + 2);
+}
+
+export function isPartUnit(tu: TranslationUnit): boolean {
+  return tu.kind === 'sheetName' || tu.kind === 'headerFooter' || tu.kind === 'property';
+}
+
+export function sheetPartUnits(ws: Pick<ExcelJS.Worksheet, 'name' | 'headerFooter'>, sheetCfg: SheetConfig): TranslationUnit[] {
+  const units: TranslationUnit[] = [];
+  const prefix = encodeURIComponent(ws.name);
+  if (sheetCfg.translateSheetName) units.push(partUnit(`${prefix}::sheetName`, 'sheetName', ws.name, ws.name));
+  if (sheetCfg.translateHeaderFooter) {
+    const hf: any = ws.headerFooter || {};
+    for (const field of HEADER_FOOTER_FIELDS) {
+      const text = typeof hf[field] === 'string' ? hf[field] : '';
+      if (text.trim()) units.push(partUnit(`${prefix}::hf:${field}`, 'headerFooter', ws.name, text));
+    }
+  }
+  return units;
+}
+
+function propertyNames(config: Config): string[] {
+  const opt = config.workbook.translateProperties;
+  if (!opt) return [];
+  const names = opt === true ? DEFAULT_PROPERTIES : opt;
+  for (const name of names) {
+    if (!KNOWN_PROPERTIES.includes(name)) {
+      throw new Error(`Unknown document property '${name}' in translateProperties. Supported: ${KNOWN_PROPERTIES.join(', ')}.`);
+    }
+  }
+  return names;
+}
+
+// Properties come from an ExcelJS workbook, or from docProps read by the streaming extractor
+export function propertyUnits(wb: ExcelJS.Workbook | Record<string, string | undefined>, config: Config): TranslationUnit[] {
+  const units: TranslationUnit[] = [];
+  for (const name of propertyNames(config)) {
+    const text = (wb as any)[name];
+    if (typeof text === 'string' && text.trim()) units.push(partUnit(`workbook::prop:${name}`, 'property', '', text));
+  }
+  return units;
+}
+
+// Write one translated part. Sheet names are only collected here; renameSheets applies them after every
+// other unit has been merged, because units still address their sheet by its original name.
+export function applyPartUnit(wb: ExcelJS.Workbook, tu: TranslationUnit, text: string, renames: Map<string, string>): void {
+  if (text === '') return;
+  if (tu.kind === 'property') {
+    (wb as any)[partName(tu).replace(/^prop:/, '')] = text;
+    return;
+  }
+  const ws = wb.getWorksheet(tu.sheetName);
+  if (!ws) return;
+  if (tu.kind === 'sheetName') {
+    if (text !== ws.name) renames.set(ws.name, text);
+    return;
+  }
+  const field = partName(tu).replace(/^hf:/, '');
+  ws.headerFooter = { ...(ws.headerFooter || {}), [field]: text } as any;
+}
+
+function unquoteSheet(name: string): string {
+  return name.replace(/''/g, "'");
+}
+
+export function quoteSheetName(name: string): string {
+  // Bare names must look like identifiers and not like a cell reference (A1, R1C1)
+  if (/^[A-Za-z_][A-Za-z0-9_.]*$/.test(name) && !/^[A-Za-z]{1,3}\d+$/.test(name) && !/^R\d*C\d*$/i.test(name)) return name;
+  return `'${name.replace(/'/g, "''")}'`;
+}
+
+// Rewrite Sheet!A1 / 'My Sheet'!A1 references; string literals are left alone
+const SHEET_REF = /("(?:[^"]|"")*")|'((?:[^']|'')+)'!|([A-Za-z_\u00C0-\uFFFF][\w.\u00C0-\uFFFF]*)!/g;
+
+export function rewriteSheetRefs(formula: string, renames: Map<string, string>): string {
+  return formula.replace(SHEET_REF, (m, literal: string | undefined, quoted: string | undefined, bare: string | undefined) => {
+    if (literal) return m;
+    const name = quoted !== undefined ? unquoteSheet(quoted) : bare!;
+    const next = renames.get(name);
+    return next === undefined ? m : `${quoteSheetName(next)}!`;
+  });
+}
+
+function validateRenames(wb: ExcelJS.Workbook, renames: Map<string, string>): void {
+  const finalNames = new Map<string, string>();
+  for (const ws of wb.worksheets) {
+    const name = renames.get(ws.name) ?? ws.name;
+    if (renames.has(ws.name)) {
+      if (!name.trim()) throw new Error(`Translated name for sheet '${ws.name}' is empty.`);
+      if (name.length > 31) throw new Error(`Translated name '${name}' for sheet '${ws.name}' is longer than 31 characters.`);
+      if (INVALID_SHEET_CHARS.test(name)) throw new Error(`Translated name '${name}' for sheet '${ws.name}' contains one of the characters \\ / ? * : [ ].`);
+      if (name.startsWith("'") || name.endsWith("'")) throw new Error(`Translated name '${name}' for sheet '${ws.name}' starts or ends with an apostrophe.`);
+    }
+    const clash = finalNames.get(name.toLowerCase());
+    if (clash !== undefined) throw new Error(`Sheets '${clash}' and '${ws.name}' would both be named '${name}'.`);
+    finalNames.set(name.toLowerCase(), ws.name);
+  }
+}
+
+// Rename sheets and rewrite every reference to them: cell formulas, internal hyperlinks,
+// data validation and conditional formatting formulae, and defined names.
+export function renameSheets(wb: ExcelJS.Workbook, renames: Map<string, string>): void {
+  if (!renames.size) return;
+  validateRenames(wb, renames);
+  const rewrite = (f: string) => rewriteSheetRefs(f, renames);
+
+  for (const ws of wb.worksheets) {
+    ws.eachRow({ includeEmpty: false }, row => {
+      row.eachCell({ includeEmpty: false }, cell => {
+        const v: any = cell.value;
+        if (v && typeof v === 'object' && typeof v.formula === 'string') {
+          const formula = rewrite(v.formula);
+          if (formula !== v.formula) cell.value = { ...v, formula };
+        } else if (v && typeof v === 'object' && typeof v.hyperlink === 'string' && v.hyperlink.startsWith('#')) {
+          const hyperlink = `#${rewrite(v.hyperlink.slice(1))}`;
+          if (hyperlink !== v.hyperlink) cell.value = { ...v, hyperlink };
+        }
+      });
+    });
+    const dv: any = (ws as any).dataValidations?.model;
+    for (const rule of Object.values<any>(dv || {})) {
+      if (rule && Array.isArray(rule.formulae)) rule.formulae = rule.formulae.map((f: any) => (typeof f === 'string' ? rewrite(f) : f));
+    }
+    for (const cf of ((ws as any).conditionalFormattings || []) as any[]) {
+      for (const rule of cf.rules || []) {
+        if (Array.isArray(rule.formulae)) rule.formulae = rule.formulae.map((f: any) => (typeof f === 'string' ? rewrite(f) : f));
+      }
+    }
+  }
+
+  const defined = wb.definedNames.model as any[];
+  if (defined.length) {
+    wb.definedNames.model = defined.map(d => ({ ...d, ranges: (d.ranges || []).map((r: string) => rewrite(r)) }));
+  }
+
+  // Two passes so swapped names (A→B, B→A) never collide mid-way
+  const moving = wb.worksheets.filter(ws => renames.has(ws.name));
+  const finalNames = moving.map(ws => renames.get(ws.name)!);
+  moving.forEach((ws, i) => { ws.name = `__l10n_rename_${i}`; });
+  moving.forEach((ws, i) => { ws.name = finalNames[i]; });
+}
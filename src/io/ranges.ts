@@ -0,0 +1,74 @@
+import ExcelJS from 'exceljs';
+import { RangeScope, SheetConfig } from '../types.js';
+import { colIndexToLetter, colLetterToIndex } from '../utils/index.js';
+
+// SheetConfig.ranges: extraction and merge are limited to these areas of the sheet.
+// Each entry is an A1 range ("B2:B140", "'UI strings'!B2:C9") or a defined name, optionally with
+// per-locale target offsets (target column = source column + offset) that override targetColumns.
+
+export type A1Range = { sheet?: string; top: number; left: number; bottom: number; right: number };
+export type Scope = A1Range & { targetOffsets?: { [locale: string]: number } };
+
+const A1_RE = /^(?:(?:'((?:[^']|'')+)'|([^!']+))!)?\$?([A-Z]{1,3})\$?(\d+)(?::\$?([A-Z]{1,3})\$?(\d+))?$/i;
+
+export function parseA1Range(ref: string): A1Range | null {
+  const m = A1_RE.exec(ref.trim());
+  if (!m) return null;
+  const sheet = m[1] !== undefined ? m[1].replace(/''/g, "'") : m[2];
+  const [c1, r1] = [colLetterToIndex(m[3]), parseInt(m[4], 10)];
+  const [c2, r2] = m[5] ? [colLetterToIndex(m[5]), parseInt(m[6], 10)] : [c1, r1];
+  return { sheet, top: Math.min(r1, r2), left: Math.min(c1, c2), bottom: Math.max(r1, r2), right: Math.max(c1, c2) };
+}
+
+// "B2:C4" for a range (without its sheet)
+export function rangeAddress(range: A1Range): string {
+  return `${colIndexToLetter(range.left)}${range.top}:${colIndexToLetter(range.right)}${range.bottom}`;
+}
+
+// Areas of a defined name, as ExcelJS gives them
+export function definedNameRanges(wb: ExcelJS.Workbook): (name: string) => string[] {
+  return name => wb.definedNames.getRanges(name).ranges || [];
+}
+
+// Scopes of the config that lie on this sheet; undefined when the config has no ranges (whole columns).
+// `definedRanges` gives the areas of a defined name.
+export function resolveScopes(sheetName: string, sheetCfg: SheetConfig, definedRanges: (name: string) => string[]): Scope[] | undefined {
+  if (!sheetCfg.ranges) return undefined;
+  const scopes: Scope[] = [];
+  for (const entry of sheetCfg.ranges) {
+    const { ref, targetOffsets }: RangeScope = typeof entry === 'string' ? { ref: entry } : entry;
+    const direct = parseA1Range(ref);
+    const areas = direct ? [direct] : definedRanges(ref).map(r => parseA1Range(r));
+    if (!areas.length || areas.some(a => !a)) {
+      throw new Error(`Range '${ref}' in sheet config '${sheetCfg.namePattern}' is neither an A1 range nor a defined name.`);
+    }
+    for (const area of areas as A1Range[]) {
+      // A range without a sheet applies to every matching sheet
+      if (area.sheet !== undefined && area.sheet !== sheetName) continue;
+      scopes.push({ ...area, ...(targetOffsets ? { targetOffsets } : {}) });
+    }
+  }
+  return scopes;
+}
+
+export function scopeAt(scopes: Scope[], row: number, col: number): Scope | undefined {
+  return scopes.find(s => row >= s.top && row <= s.bottom && col >= s.left && col <= s.right);
+}
+
+// Row span covered by the scopes
+export function scopeRows(scopes: Scope[]): { first: number; last: number } {
+  return { first: Math.min(...scopes.map(s => s.top)), last: Math.max(0, ...scopes.map(s => s.bottom)) };
+}
+
+// Column letters covered by the scopes, used as sourceColumns when none are configured
+export function scopeColumns(scopes: Scope[]): string[] {
+  const cols = new Set<number>();
+  for (const s of scopes) for (let c = s.left; c <= s.right; c++) cols.add(c);
+  return [...cols].sort((a, b) => a - b).map(colIndexToLetter);
+}
+
+// Target column of a locale for a source cell in the scope: its offset, else the targetColumns index (0 when unknown)
+export function scopedTargetIndex(scope: Scope | undefined, locale: string, sourceCol: number, targetIdx: number | undefined): number {
+  const offset = scope?.targetOffsets?.[locale];
+  return offset !== undefined ? sourceCol + offset : targetIdx ?? 0;
+}
@@ -0,0 +1,85 @@
+// Rich text runs ↔ XLIFF inline codes.
+// Runs sharing the dominant font stay plain text; every other run becomes <pc id="rtN"> (2.1) or <g id="rtN"> (1.2).
+// Run fonts are kept in unit meta (richTextFonts) so merge can rebuild an ExcelJS richText value.
+// Run text is XML-escaped inside the markup, like any other text of an XLIFF inline string.
+
+import { decodeXml, encodeXml } from './ooxml.js';
+
+export type RichTextFonts = { base: Record<string, any>; runs: Record<string, Record<string, any>> };
+
+type Run = { text: string; font?: Record<string, any> };
+
+function fontKey(font?: Record<string, any>): string {
+  const f = font || {};
+  return JSON.stringify(Object.keys(f).sort().map(k => [k, f[k]]));
+}
+
+function ctypeFor(font: Record<string, any>, base: Record<string, any>): string {
+  if (font.bold && !base.bold) return 'bold';
+  if (font.italic && !base.italic) return 'italic';
+  if (font.underline && !base.underline) return 'underline';
+  return 'x-rt';
+}
+
+export function richTextToInline(runs: Run[], xliffVersion: '1.2' | '2.1'): { text: string; fonts: RichTextFonts } | null {
+  const list = (runs || []).filter(r => r && r.text);
+  if (!list.length) return null;
+
+  // base font: the one covering most characters
+  const weight = new Map<string, number>();
+  for (const r of list) weight.set(fontKey(r.font), (weight.get(fontKey(r.font)) ?? 0) + r.text.length);
+  let baseKey = fontKey(list[0].font);
+  for (const [k, w] of weight) if (w > (weight.get(baseKey) ?? 0)) baseKey = k;
+  if (weight.size === 1) return null; // uniform formatting: nothing to protect
+
+  const base = { ...(list.find(r => fontKey(r.font) === baseKey)?.font || {}) };
+  const fonts: RichTextFonts = { base, runs: {} };
+  let n = 1;
+  let text = '';
+  for (const r of list) {
+    if (fontKey(r.font) === baseKey) {
+      text += encodeXml(r.text);
+      continue;
+    }
+    const id = n++;
+    const font = { ...(r.font || {}) };
+    fonts.runs[String(id)] = font;
+    text += xliffVersion === '1.2'
+      ? `<g id="rt${id}" ctype="${ctypeFor(font, base)}">${encodeXml(r.text)}</g>`
+      : `<pc id="rt${id}" dataRef="rt_${id}">${encodeXml(r.text)}</pc>`;
+  }
+  return { text, fonts };
+}
+
+// Translated text carries either [[rt:N]]…[[/rt:N]] markers around plain text (parsed XLIFF) or
+// <pc id="rtN">/<g id="rtN"> markup around escaped text (JSON). Tags next to markers are plain text.
+const RT_MARKER = /\[\[rt:(\d+)\]\]|\[\[\/rt:(\d+)\]\]/g;
+const RT_MARKUP = /<(?:pc|g)\b[^>]*\bid="rt(\d+)"[^>]*>|<\/(?:pc|g)>/g;
+
+export function inlineToRichText(text: string, fonts: RichTextFonts): { richText: Run[] } {
+  const out: Run[] = [];
+  const stack: string[] = [];
+  const markers = /\[\[\/?rt:\d+\]\]/.test(text);
+  const token = markers ? RT_MARKER : RT_MARKUP;
+  const push = (raw: string) => {
+    const chunk = markers ? raw : decodeXml(raw);
+    if (!chunk) return;
+    const id = stack[stack.length - 1];
+    const font = id && fonts.runs[id] ? fonts.runs[id] : fonts.base;
+    out.push(Object.keys(font).length ? { text: chunk, font: { ...font } } : { text: chunk });
+  };
+  let last = 0;
+  let m: RegExpExecArray | null;
+  token.lastIndex = 0;
+  while ((m = token.exec(text)) !== null) {
+    push(text.slice(last, m.index));
+    last = token.lastIndex;
+    if (m[1]) {
+      stack.push(m[1]);
+    } else {
+      stack.pop();
+    }
+  }
+  push(text.slice(last));
+  return { richText: out };
+}
@@ -0,0 +1,67 @@
+import { RowFilter } from '../types.js';
+import { ResolvedColumn } from './columns.js';
+
+// SheetConfig.rowFilters: every rule must pass for a row to be extracted.
+// Cell texts are compared trimmed; equals/notEquals accept one value or a list of alternatives.
+
+export type CompiledRowFilter = { column: ResolvedColumn; check: (text: string) => string | null };
+
+function quoteList(values: string[]): string {
+  return values.map(v => `'${v}'`).join(' or ');
+}
+
+function compileRule(rule: RowFilter, column: ResolvedColumn): CompiledRowFilter {
+  const conditions = (['equals', 'notEquals', 'regex', 'nonEmpty'] as const).filter(k => rule[k] !== undefined);
+  if (conditions.length !== 1) {
+    throw new Error(`Row filter on column '${rule.column}' needs exactly one of equals, notEquals, regex or nonEmpty.`);
+  }
+  const norm = (s: string) => (rule.ignoreCase ? s.toLowerCase() : s);
+  const describe = (text: string) => `${rule.column} is '${text}'`;
+
+  if (rule.equals !== undefined || rule.notEquals !== undefined) {
+    const expected = ([] as string[]).concat((rule.equals ?? rule.notEquals) as string | string[]).map(v => String(v).trim());
+    const wanted = new Set(expected.map(norm));
+    const mustEqual = rule.equals !== undefined;
+    return {
+      column,
+      check: text => {
+        const hit = wanted.has(norm(text));
+        if (mustEqual && !hit) return `${describe(text)} (expected ${quoteList(expected)})`;
+        if (!mustEqual && hit) return `${describe(text)} (excluded)`;
+        return null;
+      },
+    };
+  }
+  if (rule.regex !== undefined) {
+    let re: RegExp;
+    try {
+      re = new RegExp(rule.regex, rule.ignoreCase ? 'i' : '');
+    } catch (e: any) {
+      throw new Error(`Invalid row filter regex '${rule.regex}' on column '${rule.column}': ${e?.message || e}`);
+    }
+    return { column, check: text => (re.test(text) ? null : `${describe(text)} (does not match /${rule.regex}/)`) };
+  }
+  const wantNonEmpty = rule.nonEmpty !== false;
+  return {
+    column,
+    check: text => {
+      if (wantNonEmpty && !text) return `${rule.column} is empty`;
+      if (!wantNonEmpty && text) return `${describe(text)} (expected empty)`;
+      return null;
+    },
+  };
+}
+
+// columns[i] is the resolved column of filters[i]
+export function compileRowFilters(filters: RowFilter[] | undefined, columns: ResolvedColumn[]): CompiledRowFilter[] {
+  return (filters || []).map((rule, i) => compileRule(rule, columns[i]));
+}
+
+// Reason the row is skipped, or null when every rule passes
+export function rowSkipReason(filters: CompiledRowFilter[], textAt: (colIndex: number) => string): string | null {
+  for (const f of filters) {
+    const reason = f.check(textAt(f.column.index).trim());
+    if (reason) return reason;
+  }
+  return null;
+}
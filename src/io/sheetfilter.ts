@@ -0,0 +1,36 @@
+import ExcelJS from 'exceljs';
+import { SheetConfig } from '../types.js';
+
+// Worksheet-level filters: hidden/veryHidden sheets (skipHiddenSheets, default true) and tab colours
+// (includeTabColors / excludeTabColors, "#rrggbb" like excludeColors). Theme-based tab colours have no
+// RGB value and count as uncoloured.
+
+export type SheetInfo = { name: string; state?: string; tabColor?: string };
+
+// ARGB or RGB, with or without '#' → "#rrggbb"
+export function normalizeColor(color: string): string {
+  const hex = color.trim().replace(/^#/, '').toLowerCase();
+  return `#${hex.length === 8 ? hex.slice(2) : hex}`;
+}
+
+export function worksheetInfo(ws: ExcelJS.Worksheet): SheetInfo {
+  return { name: ws.name, state: ws.state, tabColor: (ws.properties as any).tabColor?.argb };
+}
+
+// Reason the sheet is skipped, or null when it is extracted
+export function sheetSkipReason(sheetCfg: SheetConfig, sheet: SheetInfo): string | null {
+  if (sheetCfg.skipHiddenSheets !== false && sheet.state && sheet.state !== 'visible') {
+    return `sheet is ${sheet.state}`;
+  }
+  const include = (sheetCfg.includeTabColors || []).map(normalizeColor);
+  const exclude = (sheetCfg.excludeTabColors || []).map(normalizeColor);
+  if (!include.length && !exclude.length) return null;
+  const color = sheet.tabColor ? normalizeColor(sheet.tabColor) : undefined;
+  if (include.length && (!color || !include.includes(color))) return `tab colour ${color ?? 'none'} is not in includeTabColors`;
+  if (color && exclude.includes(color)) return `tab colour ${color} is in excludeTabColors`;
+  return null;
+}
+
+export function needsTabColors(sheetCfg: SheetConfig): boolean {
+  return !!(sheetCfg.includeTabColors?.length || sheetCfg.excludeTabColors?.length);
+}
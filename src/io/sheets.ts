@@ -0,0 +1,91 @@
+import { Config, SheetConfig } from '../types.js';
+import { STATE_SHEET } from './mergestate.js';
+
+// Sheet selection shared by extract, merge, the streaming extractor and the exporters.
+// A pattern (namePattern, excludeSheets entries) is one of:
+//   "exact:Q1 (draft"   the sheet name as written
+//   "glob:Q? *"         * and ? wildcards over the whole name
+//   "regex:^Q\d"        a regular expression
+//   "index:1,3-5"       1-based positions in the workbook's tab order
+// Without a prefix, patterns starting with ^, ending with $ or containing [ or ( are regexes (falling back to
+// the exact name when they do not compile); anything else is an exact name.
+
+export type SheetRef = { name: string; index?: number };
+
+type SheetMatcher = (sheet: SheetRef) => boolean;
+
+// Compiled namePattern/excludeSheets per sheet config, dropped with the config
+const selectors = new WeakMap<SheetConfig, SheetMatcher>();
+
+function globToRegExp(glob: string): RegExp {
+  const body = glob.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  return new RegExp(`^${body}$`);
+}
+
+function parseIndexes(list: string, pattern: string): (index: number) => boolean {
+  const spans = list.split(',').map(part => {
+    const m = /^\s*(\d+)\s*(?:-\s*(\d+)\s*)?$/.exec(part);
+    if (!m) throw new Error(`Invalid sheet index list in pattern '${pattern}'.`);
+    const first = parseInt(m[1], 10);
+    return [first, m[2] ? parseInt(m[2], 10) : first];
+  });
+  return index => spans.some(([first, last]) => index >= first && index <= last);
+}
+
+function compile(pattern: string): SheetMatcher {
+  const m = /^(exact|glob|regex|index):([\s\S]*)$/.exec(pattern);
+  const [mode, body] = m ? [m[1], m[2]] : ['', pattern];
+  switch (mode) {
+    case 'exact':
+      return s => s.name === body;
+    case 'glob': {
+      const re = globToRegExp(body);
+      return s => re.test(s.name);
+    }
+    case 'regex': {
+      let re: RegExp;
+      try { re = new RegExp(body); } catch (e: any) { throw new Error(`Invalid sheet pattern '${pattern}': ${e.message}`); }
+      return s => re.test(s.name);
+    }
+    case 'index': {
+      const has = parseIndexes(body, pattern);
+      return s => s.index !== undefined && has(s.index);
+    }
+  }
+  if (pattern.startsWith('^') || pattern.endsWith('$') || pattern.includes('[') || pattern.includes('(')) {
+    try {
+      const re = new RegExp(pattern);
+      return s => re.test(s.name);
+    } catch {
+      // not a regex after all: exact name
+    }
+  }
+  return s => s.name === pattern;
+}
+
+export function matchesSheetPattern(pattern: string, sheet: SheetRef): boolean {
+  return compile(pattern)(sheet);
+}
+
+// The sheet is in scope of the config: matched by namePattern and by none of excludeSheets.
+// The merge state sheet is never in scope.
+export function sheetSelected(sheetCfg: SheetConfig, sheet: SheetRef): boolean {
+  if (sheet.name === STATE_SHEET) return false;
+  let selector = selectors.get(sheetCfg);
+  if (!selector) {
+    const include = compile(sheetCfg.namePattern);
+    const exclude = (sheetCfg.excludeSheets || []).map(compile);
+    selector = s => include(s) && !exclude.some(m => m(s));
+    selectors.set(sheetCfg, selector);
+  }
+  return selector(sheet);
+}
+
+export function sheetConfigsFor(config: Config, sheet: SheetRef): SheetConfig[] {
+  return config.workbook.sheets.filter(s => sheetSelected(s, sheet));
+}
+
+// First config selecting the sheet of a unit, for per-sheet export settings
+export function sheetConfigFor(config: Config, unit: { sheetName: string; sheetIndex?: number }): SheetConfig | undefined {
+  return config.workbook.sheets.find(s => sheetSelected(s, { name: unit.sheetName, index: unit.sheetIndex }));
+}
@@ -0,0 +1,183 @@
+import JSZip from 'jszip';
+import { asArray, partRelationships } from './ooxml.js';
+import { A1Range, parseA1Range } from './ranges.js';
+import { HyperlinkMeta } from './hyperlink.js';
+import { HEADER_FOOTER_FIELDS } from './parts.js';
+import { MergeState, stateKey } from './mergestate.js';
+import { TableRange, tableRange } from './tables.js';
+import { cellValue, nodeText, rawText, readSheetPart, rowCells, stringItem, xmlParser as parser } from './sheetxml.js';
+
+// Package data the ExcelJS stream reader does not parse, read ahead of streaming so the streaming extractor
+// builds the same units as the in-memory reader: hidden rows and columns, merged ranges, hyperlinks,
+// data validations, headers/footers, notes and tables of a worksheet, the shared strings with their run fonts,
+// the defined names, the merge state and the document properties.
+// Worksheet parts are walked row by row; only the rows' attributes are looked at inside <sheetData>.
+
+export type SheetExtras = {
+  hiddenRows: Set<number>;
+  hiddenCols: Set<number>;
+  merges: A1Range[];
+  // Cell address → link; like ExcelJS, only links with a relationship (not in-workbook locations)
+  hyperlinks: Map<string, HyperlinkMeta>;
+  validations: { ranges: A1Range[]; model: Record<string, any> }[];
+  headerFooter: Record<string, string>;
+  // Cell address → note text
+  notes: Map<string, string>;
+};
+
+function flag(value: unknown): boolean {
+  return value === '1' || value === 'true';
+}
+
+// The worksheet part with an empty <sheetData>, and the rows marked hidden
+async function scanWorksheet(file: JSZip.JSZipObject): Promise<{ outer: string; hiddenRows: Set<number> }> {
+  const hiddenRows = new Set<number>();
+  let outer = '';
+  await readSheetPart(file, {
+    head: xml => { outer += xml; },
+    row: (xml, r) => {
+      if (flag(/^<[^>]*?\shidden="([^"]*)"/.exec(xml)?.[1])) hiddenRows.add(r);
+    },
+    text: () => undefined,
+    tail: xml => { outer += xml; },
+  });
+  return { outer, hiddenRows };
+}
+
+function rangesOf(refs: unknown): A1Range[] {
+  return String(refs ?? '').split(/\s+/).map(ref => parseA1Range(ref)).filter((r): r is A1Range => !!r);
+}
+
+// Data validation in the shape ExcelJS gives cell.dataValidation
+function validationModel(dv: any): Record<string, any> {
+  const model: Record<string, any> = { type: dv.type || 'any' };
+  for (const key of ['promptTitle', 'prompt', 'errorTitle', 'error', 'operator']) {
+    if (dv[key] !== undefined) model[key] = String(dv[key]);
+  }
+  const formulae = ['formula1', 'formula2'].filter(f => dv[f] !== undefined).map(f => nodeText(dv[f]));
+  if (formulae.length) model.formulae = formulae;
+  return model;
+}
+
+async function readNotes(zip: JSZip, commentsPart: string | undefined): Promise<Map<string, string>> {
+  const notes = new Map<string, string>();
+  const file = commentsPart ? zip.file(commentsPart) : null;
+  if (!file) return notes;
+  const doc = parser.parse(await file.async('string'));
+  for (const c of asArray<any>(doc?.comments?.commentList?.comment)) {
+    // ExcelJS reads the runs of a comment, not a bare <t>
+    const text = asArray<any>(c.text?.r).map(r => nodeText(r.t)).join('');
+    if (text) notes.set(String(c.ref), text);
+  }
+  return notes;
+}
+
+export async function readSheetExtras(zip: JSZip, sheetPart: string): Promise<SheetExtras> {
+  const file = zip.file(sheetPart);
+  const { outer, hiddenRows } = file ? await scanWorksheet(file) : { outer: '', hiddenRows: new Set<number>() };
+  const ws = outer ? parser.parse(outer)?.worksheet ?? {} : {};
+  const rels = await partRelationships(zip, sheetPart);
+
+  const hiddenCols = new Set<number>();
+  for (const col of asArray<any>(ws.cols?.col)) {
+    if (!flag(col.hidden)) continue;
+    for (let c = parseInt(col.min, 10); c <= parseInt(col.max, 10); c++) hiddenCols.add(c);
+  }
+  const hyperlinks = new Map<string, HyperlinkMeta>();
+  for (const link of asArray<any>(ws.hyperlinks?.hyperlink)) {
+    const rel = link.id !== undefined ? rels.get(String(link.id)) : undefined;
+    if (rel) hyperlinks.set(String(link.ref), { url: rel.target, ...(link.tooltip ? { tooltip: String(link.tooltip) } : {}) });
+  }
+  const headerFooter: Record<string, string> = {};
+  for (const field of HEADER_FOOTER_FIELDS) {
+    if (ws.headerFooter?.[field] !== undefined) headerFooter[field] = rawText(ws.headerFooter[field]);
+  }
+  const commentsPart = [...rels.values()].find(rel => rel.type === 'comments')?.target;
+  return {
+    hiddenRows,
+    hiddenCols,
+    merges: asArray<any>(ws.mergeCells?.mergeCell).flatMap(m => rangesOf(m.ref)),
+    hyperlinks,
+    validations: asArray<any>(ws.dataValidations?.dataValidation).map(dv => ({ ranges: rangesOf(dv.sqref), model: validationModel(dv) })),
+    headerFooter,
+    notes: await readNotes(zip, commentsPart),
+  };
+}
+
+// Shared string table as ExcelJS reads it: plain strings, or { richText } for strings made of runs.
+// The stream reader's own table drops run attributes (strike, RGB colours) and the _xHHHH_ escapes.
+export async function readSharedStrings(zip: JSZip): Promise<any[]> {
+  const file = zip.file('xl/sharedStrings.xml');
+  if (!file) return [];
+  const doc = parser.parse(await file.async('string'));
+  return asArray<any>(doc?.sst?.si).map(stringItem);
+}
+
+// Document properties under the names ExcelJS gives them on a workbook
+export async function readDocumentProperties(zip: JSZip): Promise<Record<string, string | undefined>> {
+  const read = async (part: string) => {
+    const file = zip.file(part);
+    return file ? parser.parse(await file.async('string')) : undefined;
+  };
+  const core = (await read('docProps/core.xml'))?.coreProperties ?? {};
+  const app = (await read('docProps/app.xml'))?.Properties ?? {};
+  const text = (v: any): string | undefined => (v === undefined ? undefined : rawText(v));
+  return {
+    title: text(core.title),
+    subject: text(core.subject),
+    keywords: text(core.keywords),
+    description: text(core.description),
+    category: text(core.category),
+    company: text(app.Company),
+    manager: text(app.Manager),
+  };
+}
+
+// Tables of a worksheet by name, with the header and totals rows as ExcelJS reads them (a header row only
+// when headerRowCount="1" is written out)
+export async function readSheetTables(zip: JSZip, sheetPart: string): Promise<Map<string, TableRange>> {
+  const tables = new Map<string, TableRange>();
+  for (const rel of (await partRelationships(zip, sheetPart)).values()) {
+    if (rel.type !== 'table') continue;
+    const file = zip.file(rel.target);
+    const table = file ? parser.parse(await file.async('string'))?.table : undefined;
+    if (!table?.name || !table.ref) continue;
+    const name = String(table.name);
+    tables.set(name, tableRange(name, { ref: String(table.ref), headerRow: table.headerRowCount === '1', totalsRow: table.totalsRowCount === '1' }));
+  }
+  return tables;
+}
+
+// Defined name → the areas it refers to ("'UI strings'!$B$2:$B$9"); a name defined for several sheets lists
+// the areas of each
+export async function readDefinedNames(zip: JSZip): Promise<Map<string, string[]>> {
+  const names = new Map<string, string[]>();
+  const file = zip.file('xl/workbook.xml');
+  const doc = file ? parser.parse(await file.async('string')) : undefined;
+  for (const dn of asArray<any>(doc?.workbook?.definedNames?.definedName)) {
+    // Commas inside quoted sheet names do not separate areas
+    const areas = rawText(dn).match(/(?:'(?:[^']|'')*'|[^,])+/g) || [];
+    const name = String(dn.name);
+    names.set(name, [...(names.get(name) || []), ...areas.filter(area => parseA1Range(area))]);
+  }
+  return names;
+}
+
+// The merge state sheet (see mergestate.ts), read row by row
+export async function readStateSheet(zip: JSZip, part: string | undefined, sharedStrings: any[]): Promise<MergeState> {
+  const state: MergeState = new Map();
+  const file = part ? zip.file(part) : null;
+  if (!file) return state;
+  await readSheetPart(file, {
+    head: () => undefined,
+    text: () => undefined,
+    tail: () => undefined,
+    row: (xml, r) => {
+      if (r === 1) return; // header
+      const values = new Map(rowCells(xml).map(c => [c.col, String(cellValue(c, sharedStrings) ?? '')]));
+      const [id, locale, hash] = [1, 2, 3].map(c => values.get(c) ?? '');
+      if (id && locale && hash) state.set(stateKey(id, locale), hash);
+    },
+  });
+  return state;
+}
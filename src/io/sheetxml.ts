@@ -0,0 +1,263 @@
+import { PassThrough } from 'node:stream';
+import { StringDecoder } from 'node:string_decoder';
+import JSZip from 'jszip';
+import { XMLParser } from 'fast-xml-parser';
+import { asArray, decodeXml, encodeXml } from './ooxml.js';
+import { colIndexToLetter, colLetterToIndex } from '../utils/index.js';
+
+// Worksheet XML read and written without ExcelJS, for the streaming extractor and merge: a part is walked
+// row by row (only one <row> element is held at a time), cells are read into ExcelJS-shaped values and
+// values are written back as cells with inline strings.
+
+// Text nodes keep their whitespace, unlike the parser in ooxml.ts
+export const xmlParser = new XMLParser({
+  ignoreAttributes: false, attributeNamePrefix: '', removeNSPrefix: true,
+  parseTagValue: false, parseAttributeValue: false, trimValues: false, htmlEntities: true,
+});
+
+// Text of an element that may carry attributes (xml:space)
+export function rawText(node: any): string {
+  return typeof node === 'string' ? node : typeof node?.['#text'] === 'string' ? node['#text'] : '';
+}
+
+// Cell and run text, with Excel's _xHHHH_ escapes decoded
+export function nodeText(node: any): string {
+  return rawText(node).replace(/_x([0-9A-F]{4})_/g, (_: string, hex: string) => String.fromCharCode(parseInt(hex, 16)));
+}
+
+function colorModel(c: any): Record<string, any> | undefined {
+  if (c?.rgb) return { argb: String(c.rgb) };
+  if (c?.theme) return { theme: parseInt(c.theme, 10), ...(c.tint ? { tint: parseFloat(c.tint) } : {}) };
+  if (c?.indexed) return { indexed: parseInt(c.indexed, 10) };
+  return undefined;
+}
+
+const present = () => true;
+const integer = (node: any) => parseInt(node?.val, 10);
+const val = (node: any) => node?.val;
+
+// Run property tag → ExcelJS font property and value
+const FONT_PROPS: Record<string, [string, (node: any) => any]> = {
+  b: ['bold', present], i: ['italic', present], strike: ['strike', present], outline: ['outline', present],
+  shadow: ['shadow', present], condense: ['condense', present], extend: ['extend', present],
+  u: ['underline', node => node?.val || true],
+  sz: ['size', integer], family: ['family', integer], charset: ['charset', integer],
+  color: ['color', colorModel],
+  rFont: ['name', val], vertAlign: ['vertAlign', val], scheme: ['scheme', val],
+};
+
+function runFont(rPr: any): Record<string, any> {
+  const font: Record<string, any> = {};
+  for (const [tag, node] of Object.entries<any>(rPr || {})) {
+    const prop = FONT_PROPS[tag];
+    const value = prop?.[1](node);
+    if (value) font[prop[0]] = value;
+  }
+  return font;
+}
+
+// A shared string item or inline string as ExcelJS reads it: plain text, or { richText } when made of runs
+export function stringItem(si: any): any {
+  const runs = asArray<any>(si?.r);
+  if (!runs.length) return nodeText(si?.t);
+  return { richText: runs.map(r => (r.rPr !== undefined ? { font: runFont(r.rPr), text: nodeText(r.t) } : { text: nodeText(r.t) })) };
+}
+
+// ExcelJS font → <rPr> children, in the order of the schema's font elements
+function runPropsXml(font: Record<string, any>, p: string): string {
+  const attr = (v: unknown) => encodeXml(String(v), true);
+  const el = (tag: string, attrs = '') => `<${p}${tag}${attrs}/>`;
+  let out = '';
+  if (font.name) out += el('rFont', ` val="${attr(font.name)}"`);
+  if (font.charset) out += el('charset', ` val="${font.charset}"`);
+  if (font.family) out += el('family', ` val="${font.family}"`);
+  for (const [prop, tag] of [['bold', 'b'], ['italic', 'i'], ['strike', 'strike'], ['outline', 'outline'], ['shadow', 'shadow'], ['condense', 'condense'], ['extend', 'extend']]) {
+    if (font[prop]) out += el(tag);
+  }
+  const c = font.color;
+  if (c?.argb) out += el('color', ` rgb="${attr(c.argb)}"`);
+  else if (c?.theme !== undefined) out += el('color', ` theme="${c.theme}"${c.tint ? ` tint="${c.tint}"` : ''}`);
+  else if (c?.indexed !== undefined) out += el('color', ` indexed="${c.indexed}"`);
+  if (font.size) out += el('sz', ` val="${font.size}"`);
+  if (font.underline) out += el('u', font.underline === true || font.underline === 'single' ? '' : ` val="${attr(font.underline)}"`);
+  if (font.vertAlign) out += el('vertAlign', ` val="${attr(font.vertAlign)}"`);
+  if (font.scheme) out += el('scheme', ` val="${attr(font.scheme)}"`);
+  return out;
+}
+
+const SHEET_DATA_OPEN = /<((?:\w+:)?)sheetData\b[^>]*?(\/?)>/;
+// Next row, or the end of <sheetData>
+const ROW_OR_CLOSE = /<((?:\w+:)?)row\b([^>]*?)(\/?)>|<\/(?:\w+:)?sheetData\s*>/;
+
+function attr(attrs: string, name: string): string | undefined {
+  return new RegExp(`(?:^|\\s)${name}="([^"]*)"`).exec(attrs)?.[1];
+}
+
+export type SheetPartVisitor = {
+  // The part up to and including the <sheetData> tag (an empty <sheetData/> is opened here and closed in the tail)
+  head(xml: string): void;
+  row(xml: string, r: number): void;
+  // Text between rows, usually whitespace
+  text(xml: string): void;
+  // </sheetData> and the rest of the part
+  tail(xml: string): void;
+};
+
+// Feed a worksheet part in chunks; rows are handed over one complete <row> element at a time
+export function sheetPartReader(visitor: SheetPartVisitor): { write(chunk: string): void; end(): void } {
+  let phase: 'head' | 'rows' | 'tail' = 'head';
+  let buf = '';
+  let lastRow = 0;
+  const write = (chunk: string) => {
+    buf += chunk;
+    if (phase === 'head') {
+      const open = SHEET_DATA_OPEN.exec(buf);
+      if (!open) return;
+      visitor.head(buf.slice(0, open.index) + (open[2] ? `<${open[1]}sheetData>` : open[0]));
+      buf = (open[2] ? `</${open[1]}sheetData>` : '') + buf.slice(open.index + open[0].length);
+      phase = 'rows';
+    }
+    while (phase === 'rows') {
+      const m = ROW_OR_CLOSE.exec(buf);
+      if (!m) return;
+      if (m.index > 0) visitor.text(buf.slice(0, m.index));
+      if (m[1] === undefined) {
+        buf = buf.slice(m.index);
+        phase = 'tail';
+        break;
+      }
+      let end = m.index + m[0].length;
+      if (!m[3]) {
+        const close = buf.indexOf(`</${m[1]}row>`, end);
+        if (close < 0) {
+          buf = buf.slice(m.index);
+          return;
+        }
+        end = close + `</${m[1]}row>`.length;
+      }
+      const r = attr(m[2], 'r');
+      lastRow = r ? parseInt(r, 10) : lastRow + 1;
+      visitor.row(buf.slice(m.index, end), lastRow);
+      buf = buf.slice(end);
+    }
+  };
+  const end = () => {
+    if (phase === 'head') {
+      visitor.head(buf);
+      visitor.tail('');
+    } else {
+      visitor.tail(buf);
+    }
+    buf = '';
+  };
+  return { write, end };
+}
+
+// The part's text, decoded chunk by chunk. JSZip's streams are not async iterable; a native one is put in between.
+export async function* partChunks(file: JSZip.JSZipObject): AsyncGenerator<string> {
+  const decoder = new StringDecoder('utf8');
+  const through = new PassThrough();
+  file.nodeStream('nodebuffer').on('error', (e: Error) => through.destroy(e)).pipe(through);
+  for await (const chunk of through as AsyncIterable<Buffer>) yield decoder.write(chunk);
+  yield decoder.end();
+}
+
+export async function readSheetPart(file: JSZip.JSZipObject, visitor: SheetPartVisitor): Promise<void> {
+  const reader = sheetPartReader(visitor);
+  for await (const chunk of partChunks(file)) reader.write(chunk);
+  reader.end();
+}
+
+export type RowCell = { xml: string; col: number; at: number; attrs: string };
+
+const CELL = /<((?:\w+:)?)c\b([^>]*?)(?:\/>|>([\s\S]*?)<\/\1c>)/g;
+
+// Cells of a <row> element with their column and offset; cells without a reference follow the previous one
+export function rowCells(rowXml: string): RowCell[] {
+  const cells: RowCell[] = [];
+  let col = 0;
+  for (const m of rowXml.matchAll(CELL)) {
+    const ref = attr(m[2], 'r');
+    col = ref ? colLetterToIndex(ref) : col + 1;
+    cells.push({ xml: m[0], col, at: m.index!, attrs: m[2] });
+  }
+  return cells;
+}
+
+export function cellStyle(cell: RowCell): string | undefined {
+  return attr(cell.attrs, 's');
+}
+
+// Value of a cell as ExcelJS gives it; numbers stay numbers (date formats are not applied)
+export function cellValue(cell: RowCell, sharedStrings: any[]): any {
+  const type = attr(cell.attrs, 't');
+  const v = /<((?:\w+:)?)v>([\s\S]*?)<\/\1v>/.exec(cell.xml)?.[2];
+  const f = /<((?:\w+:)?)f\b[^>]*?(?:\/>|>([\s\S]*?)<\/\1f>)/.exec(cell.xml);
+  let value: any;
+  if (type === 'inlineStr') {
+    const is = /<((?:\w+:)?)is>[\s\S]*?<\/\1is>/.exec(cell.xml)?.[0];
+    value = is ? stringItem(xmlParser.parse(is)?.is) : '';
+  } else if (v === undefined) {
+    value = null;
+  } else if (type === 's') {
+    value = sharedStrings[parseInt(v, 10)] ?? '';
+  } else if (type === 'b') {
+    value = v === '1';
+  } else if (type === 'e') {
+    value = { error: decodeXml(v) };
+  } else if (type === 'str') {
+    value = decodeXml(v);
+  } else {
+    value = Number(v);
+  }
+  return f ? { formula: decodeXml(f[2] ?? ''), result: value ?? undefined } : value;
+}
+
+function stringXml(value: any, p: string): string {
+  const t = (text: string) => `<${p}t xml:space="preserve">${encodeXml(text)}</${p}t>`;
+  if (typeof value === 'object' && Array.isArray(value?.richText)) {
+    const runs = value.richText.map((run: any) => {
+      const props = run.font ? runPropsXml(run.font, p) : '';
+      return `<${p}r>${props ? `<${p}rPr>${props}</${p}rPr>` : ''}${t(String(run.text ?? ''))}</${p}r>`;
+    });
+    return `<${p}is>${runs.join('')}</${p}is>`;
+  }
+  return `<${p}is>${t(String(value ?? ''))}</${p}is>`;
+}
+
+// A cell holding `value`: text (plain, rich or a hyperlink's) as an inline string, or a formula without a
+// cached result. `p` is the namespace prefix of the part's elements.
+export function cellXml(row: number, col: number, value: any, style: string | undefined, p = ''): string {
+  const open = `<${p}c r="${colIndexToLetter(col)}${row}"${style !== undefined ? ` s="${style}"` : ''}`;
+  if (value && typeof value === 'object' && 'formula' in value) return `${open}><${p}f>${encodeXml(String(value.formula))}</${p}f></${p}c>`;
+  const text = value && typeof value === 'object' && 'hyperlink' in value ? value.text : value;
+  return `${open} t="inlineStr">${stringXml(text, p)}</${p}c>`;
+}
+
+// Replace and insert cells of a <row> element; `cells` maps column → new cell XML
+export function rewriteRow(rowXml: string, cells: Map<number, string>): string {
+  const existing = rowCells(rowXml);
+  let out = '';
+  let pos = 0;
+  const pending = [...cells.keys()].sort((a, b) => a - b);
+  for (const cell of existing) {
+    while (pending.length && pending[0] < cell.col) {
+      out += rowXml.slice(pos, cell.at) + cells.get(pending.shift()!)!;
+      pos = cell.at;
+    }
+    if (pending[0] === cell.col) {
+      out += rowXml.slice(pos, cell.at) + cells.get(pending.shift()!)!;
+      pos = cell.at + cell.xml.length;
+    }
+  }
+  const rest = rowXml.slice(pos);
+  const close = /<\/(?:\w+:)?row>$/.exec(rest);
+  const added = pending.map(c => cells.get(c)!).join('');
+  // An empty <row/> gets opened to take its cells; spans no longer cover the row and are dropped
+  const body = close ? rest.slice(0, close.index) + added + close[0] : rest.replace(/\s*\/>$/, `>${added}</${/^<((?:\w+:)?)row/.exec(rowXml)?.[1] ?? ''}row>`);
+  return (out + body).replace(/^(<(?:\w+:)?row\b[^>]*?)\s+spans="[^"]*"/, '$1');
+}
+
+export function rowXml(r: number, cells: Map<number, string>, p = ''): string {
+  return `<${p}row r="${r}">${[...cells.keys()].sort((a, b) => a - b).map(c => cells.get(c)).join('')}</${p}row>`;
+}
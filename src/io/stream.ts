@@ -1,92 +1,304 @@
 import ExcelJS from 'exceljs';
-import { Config, TranslationUnit } from '../types.js';
-import { colLetterToIndex, colIndexToLetter } from '../utils/index.js';
+import JSZip from 'jszip';
+import { Config, ExtractOptions, SheetConfig, TranslationUnit } from '../types.js';
+import { cellValueToText } from '../utils/index.js';
+import { SheetSource, SheetUnitBuilder, sheetUnitBuilder } from './excel.js';
+import { sheetConfigsFor } from './sheets.js';
+import { needsTabColors, sheetSkipReason } from './sheetfilter.js';
+import { asArray, openPackage, readTabColor, readXmlPart, sheetPartPaths } from './ooxml.js';
+import { A1Range, parseA1Range, resolveScopes, Scope, scopeRows } from './ranges.js';
+import { TableRange, tableSheetConfig } from './tables.js';
+import { MergeState, missingStateWarning, STATE_SHEET } from './mergestate.js';
+import { propertyUnits, sheetPartUnits } from './parts.js';
+import { needsStyleNames, readXfStyleNames, rowStyleNames } from './dnt.js';
+import { drawingUnitReader } from './drawings.js';
+import { readDefinedNames, readDocumentProperties, readSharedStrings, readSheetExtras, readSheetTables, readStateSheet, SheetExtras } from './sheetscan.js';
+import { partChunks } from './sheetxml.js';
+import { unitSegmenter } from '../segmenter/index.js';
 
-export async function* extractStreamWorkbook(inputXlsxPath: string, config: Config): AsyncGenerator<TranslationUnit> {
-  const reader = new (ExcelJS as any).stream.xlsx.WorkbookReader(inputXlsxPath, { entries: 'emit', sharedStrings: 'cache', styles: 'cache', hyperlinks: 'emit', worksheets: 'emit' });
+// Streaming counterpart of extract(): the same units for the same config, read row by row so only the
+// current row (plus header and metadata rows) is held in memory. What the ExcelJS stream reader does not
+// parse is read from the package first (see sheetscan.ts).
+// Units come sheet by sheet in package order; when several configs match a sheet, row by row. Nothing is read
+// ahead of the consumer: the next row is parsed when the next unit is asked for. options.signal stops the
+// extraction between rows, and options.onProgress follows it row by row.
+// Tables, defined names and the merge state (for onlyUntranslated) are read from the package up front.
+// metadataRows must lie above the rows that use them.
+
+function within(range: A1Range, row: number, col: number): boolean {
+  return row >= range.top && row <= range.bottom && col >= range.left && col <= range.right;
+}
+
+// Merged ranges by row, for the rows they cover
+function mergesByRow(merges: A1Range[]): Map<number, A1Range[]> {
+  const out = new Map<number, A1Range[]>();
+  for (const m of merges) {
+    for (let r = m.top; r <= m.bottom; r++) (out.get(r) ?? out.set(r, []).get(r)!).push(m);
+  }
+  return out;
+}
+
+// Give the streamed row what the in-memory reader sees: hyperlink values, and merged cells holding the
+// value of their top-left cell
+function completeRow(row: ExcelJS.Row, extras: SheetExtras, merges: A1Range[], masterValues: Map<A1Range, any>): void {
+  if (extras.hyperlinks.size) {
+    row.eachCell(cell => {
+      const link = extras.hyperlinks.get(cell.address);
+      const v: any = cell.value;
+      if (!link || v == null) return;
+      const text = typeof v === 'object' && 'formula' in v ? v.result : v;
+      cell.value = { text, hyperlink: link.url, ...(link.tooltip ? { tooltip: link.tooltip } : {}) } as any;
+    });
+  }
+  for (const m of merges) {
+    if (m.top === row.number) masterValues.set(m, row.getCell(m.left).value);
+    const master = masterValues.get(m);
+    for (let c = m.left; c <= m.right; c++) {
+      if ((m.top !== row.number || c !== m.left) && master != null) row.getCell(c).value = master;
+    }
+    if (m.bottom === row.number) masterValues.delete(m);
+  }
+}
+
+// A sheet config as applied to one sheet: inside its table, within its ranges, from row `first` to `last`
+type SheetPlan = { sheetCfg: SheetConfig; table?: TableRange; scopes?: Scope[]; first: number; last: number };
+
+function streamSource(
+  sheetName: string,
+  extras: SheetExtras,
+  byRow: Map<number, A1Range[]>,
+  rows: Map<number, ExcelJS.Row>,
+  current: () => ExcelJS.Row,
+  headerRow: number,
+  table?: TableRange
+): SheetSource {
+  let headers: Map<number, string> | undefined;
+  return {
+    name: sheetName,
+    cell: (_r, c) => current().getCell(c),
+    value: (r, c) => (r === current().number ? current() : rows.get(r))?.findCell(c)?.value,
+    headerTexts: () => {
+      if (headers) return headers;
+      headers = new Map();
+      rows.get(headerRow)?.eachCell((cell, colNumber) => {
+        if (table && (colNumber < table.firstCol || colNumber > table.lastCol)) return;
+        const text = cellValueToText(cell.value);
+        if (text) headers!.set(colNumber, text);
+      });
+      return headers;
+    },
+    rowHidden: r => extras.hiddenRows.has(r),
+    columnHidden: c => extras.hiddenCols.has(c),
+    mergeAt: (r, c) => byRow.get(r)?.find(m => within(m, r, c)),
+    note: cell => extras.notes.get(cell.address),
+    validation: cell => {
+      // a later validation of the same cell wins, as in ExcelJS
+      let model: Record<string, any> | undefined;
+      for (const v of extras.validations) if (v.ranges.some(range => within(range, Number(cell.row), Number(cell.col)))) model = v.model;
+      return model;
+    },
+  };
+}
+
+// The stream reader names worksheets from the workbook part, which packages written by ExcelJS store after
+// the sheets; its sheet list is filled in beforehand so sheets streamed ahead of it still get their names
+async function seedSheetList(reader: any, zip: JSZip): Promise<void> {
+  const doc = await readXmlPart(zip, 'xl/workbook.xml');
+  const sheets = asArray<any>(doc?.workbook?.sheets?.sheet).map(s => ({
+    id: parseInt(s.sheetId, 10), name: String(s.name), state: s.state || 'visible', rId: String(s.id),
+  }));
+  reader.model = { ...reader.model, sheets };
+}
+
+// Last row of a worksheet from its <dimension>, reading only the start of the part
+async function dimensionRows(zip: JSZip, part: string | undefined): Promise<number> {
+  const file = part ? zip.file(part) : null;
+  if (!file) return 0;
+  let head = '';
+  for await (const chunk of partChunks(file)) {
+    head += chunk;
+    if (/<(?:\w+:)?sheetData\b/.test(head)) break;
+  }
+  const ref = /<(?:\w+:)?dimension\b[^>]*?\sref="([^"]*)"/.exec(head)?.[1];
+  return (ref && parseA1Range(ref)?.bottom) || 0;
+}
+
+export async function* extractStreamWorkbook(inputXlsxPath: string, config: Config, options?: ExtractOptions): AsyncGenerator<TranslationUnit> {
+  const reader = new (ExcelJS as any).stream.xlsx.WorkbookReader(inputXlsxPath, { entries: 'emit', sharedStrings: 'cache', styles: 'cache', hyperlinks: 'ignore', worksheets: 'emit' });
 
   const sheets = config.workbook.sheets;
-  const matchSheet = (name: string) => sheets.filter(s => {
-    try { return new RegExp(s.namePattern).test(name) || s.namePattern === name; } catch { return s.namePattern === name; }
-  });
+  const zip = await openPackage(inputXlsxPath);
+  const sheetParts = await sheetPartPaths(zip);
+  await seedSheetList(reader, zip);
+  const sharedStrings = await readSharedStrings(zip);
+  const xfNames = sheets.some(needsStyleNames) ? await readXfStyleNames(zip) : [];
+  const readDrawingUnits = drawingUnitReader(inputXlsxPath);
+  const segment = unitSegmenter(config);
+  const partsDone = new Set<string>();
+  const drawingsDone = new Set<string>();
+
+  // The stream reader does not parse <sheetPr>, so tab colours are read from the package when a config filters on them
+  let tabColors: Map<string, string | undefined> | undefined;
+  if (sheets.some(needsTabColors)) {
+    tabColors = new Map();
+    for (const [name, part] of sheetParts) tabColors.set(name, await readTabColor(zip, part));
+  }
+  let mergeState: MergeState = new Map();
+  if (options?.onlyUntranslated) {
+    if (!sheetParts.has(STATE_SHEET)) options.warn?.(missingStateWarning(inputXlsxPath));
+    mergeState = await readStateSheet(zip, sheetParts.get(STATE_SHEET), sharedStrings);
+  }
+  const definedNames = sheets.some(s => s.ranges) ? await readDefinedNames(zip) : new Map<string, string[]>();
+
+  // Sheet parts stream in package order; the tab position comes from the workbook part
+  const tabIndexOf = (sheetName: string): number | undefined => {
+    const tabIndex = (reader.model?.sheets || []).findIndex((s: any) => s.name === sheetName);
+    return tabIndex >= 0 ? tabIndex + 1 : undefined;
+  };
+  const configsFor = (sheetName: string, state: string | undefined, log?: (message: string) => void): SheetConfig[] =>
+    sheetConfigsFor(config, { name: sheetName, index: tabIndexOf(sheetName) }).filter(sheetCfg => {
+      const skipReason = sheetSkipReason(sheetCfg, { name: sheetName, state, tabColor: tabColors?.get(sheetName) });
+      if (skipReason) log?.(`Skipped sheet '${sheetName}': ${skipReason}`);
+      return !skipReason;
+    });
 
+  // Tables of the sheets table configs match; a config whose table is on none of them fails before any unit
+  const tablesOf = new Map<string, Map<string, TableRange>>();
+  for (const s of reader.model?.sheets || []) {
+    const part = sheetParts.get(s.name);
+    if (part && configsFor(s.name, s.state).some(sheetCfg => sheetCfg.table)) tablesOf.set(s.name, await readSheetTables(zip, part));
+  }
+  for (const sheetCfg of sheets) {
+    if (sheetCfg.table && ![...tablesOf.values()].some(tables => tables.has(sheetCfg.table!))) {
+      throw new Error(`Table '${sheetCfg.table}' not found on any sheet matching '${sheetCfg.namePattern}'.`);
+    }
+  }
+
+  // Progress is the share of rows read out of the last rows of the selected sheets
+  const sheetRows = new Map<string, number>();
+  if (options?.onProgress) {
+    for (const s of reader.model?.sheets || []) {
+      if (configsFor(s.name, s.state).length) sheetRows.set(s.name, await dimensionRows(zip, sheetParts.get(s.name)));
+    }
+  }
+  const totalRows = [...sheetRows.values()].reduce((a, b) => a + b, 0);
+  let rowsBefore = 0;
+  const progress = (sheet: string, row: number, read: number) => {
+    const percent = totalRows ? Math.min(100, Math.floor((read * 100) / totalRows)) : 100;
+    options!.onProgress!({ sheet, row, percent });
+  };
+
+  options?.signal?.throwIfAborted();
   for await (const ws of reader as any) {
     const wsa: any = ws;
     const sheetName: string = wsa.name || wsa.id || 'Sheet';
-    const matches = matchSheet(sheetName);
-    if (matches.length === 0) continue;
-
-    for (const sheetCfg of matches) {
-      const sourceCols = (sheetCfg.sourceColumns || []).map(colLetterToIndex);
-      const valuesStart = sheetCfg.valuesStartRow ?? 2;
-      const headerRow = sheetCfg.headerRow ?? 1;
-      const metaRows: number[] = Array.isArray((sheetCfg as any).metadataRows) ? (sheetCfg as any).metadataRows : [];
+    const sheetIndex = tabIndexOf(sheetName);
+    // Table configs apply to the sheets holding their table; rows come from the table or the ranges when given
+    const plans: SheetPlan[] = [];
+    for (const baseCfg of configsFor(sheetName, wsa.state, options?.log)) {
+      const table = baseCfg.table ? tablesOf.get(sheetName)?.get(baseCfg.table) : undefined;
+      if (baseCfg.table && !table) continue;
+      const sheetCfg = table ? tableSheetConfig(baseCfg, table) : baseCfg;
+      const scopes = resolveScopes(sheetName, sheetCfg, name => definedNames.get(name) || []);
+      const span = scopes ? scopeRows(scopes) : undefined;
+      plans.push({ sheetCfg, table, scopes, first: span?.first ?? sheetCfg.valuesStartRow ?? 2, last: span?.last ?? table?.lastRow ?? Infinity });
+    }
+    if (plans.length === 0) continue;
+    // Configs whose ranges all lie on other sheets read no rows here
+    const matches = plans.filter(plan => !plan.scopes || plan.scopes.length);
+    const emit = (u: TranslationUnit): TranslationUnit => segment(sheetIndex !== undefined ? { ...u, sheetIndex } : u);
 
-      // caches for meta capture
-      const headerCache: Record<number, string> = {};
-      const metaCache: Record<number, Record<number, string>> = {};
+    const part = sheetParts.get(sheetName);
+    const extras = part
+      ? await readSheetExtras(zip, part)
+      : { hiddenRows: new Set<number>(), hiddenCols: new Set<number>(), merges: [], hyperlinks: new Map(), validations: [], headerFooter: {}, notes: new Map() };
+    for (const { sheetCfg } of plans) {
+      // Tab name and header/footer once per sheet, even when several sheet configs match it
+      if (!partsDone.has(sheetName)) {
+        const parts = sheetPartUnits({ name: sheetName, headerFooter: extras.headerFooter as ExcelJS.HeaderFooter }, sheetCfg);
+        if (parts.length) partsDone.add(sheetName);
+        for (const u of parts) yield emit(u);
+      }
+      if (sheetCfg.translateDrawings && !drawingsDone.has(sheetName)) {
+        drawingsDone.add(sheetName);
+        for (const u of await readDrawingUnits(sheetName)) yield emit(u);
+      }
+    }
 
-      let rowIndex = 0;
-      for await (const row of wsa) {
-        rowIndex = (row as any).number || rowIndex + 1;
-
-        // Capture header row values for requested columns regardless of hidden state
-        if (headerRow && rowIndex === headerRow) {
-          for (const srcIdx of sourceCols) {
-            const cell = (row as any).getCell ? (row as any).getCell(srcIdx) : undefined;
-            const v: any = cell?.value;
-            const text = v == null ? '' : (typeof v === 'string' ? v : String(v));
-            if (text) headerCache[srcIdx] = text;
-          }
-          continue; // don't yield units from header row
+    // Named cell styles of the row being read, from a second reader of the part that keeps pace with the stream
+    // reader; do-not-translate rules look them up by cell address
+    const styleNames = new Map<string, string>();
+    const styleRows = part && matches.some(plan => needsStyleNames(plan.sheetCfg)) ? rowStyleNames(zip, part, xfNames) : undefined;
+    let styledRow: [number, Map<string, string>] | undefined;
+    const readStyleNames = async (r: number) => {
+      styleNames.clear();
+      while (styleRows) {
+        if (!styledRow) {
+          const next = await styleRows.next();
+          if (next.done) break;
+          styledRow = next.value;
         }
+        if (styledRow[0] > r) break;
+        if (styledRow[0] === r) for (const [address, name] of styledRow[1]) styleNames.set(address, name);
+        styledRow = undefined;
+      }
+    };
 
-        // Capture metadata rows if configured
-        if (metaRows.includes(rowIndex)) {
-          const m: Record<number, string> = {};
-          for (const srcIdx of sourceCols) {
-            const cell = (row as any).getCell ? (row as any).getCell(srcIdx) : undefined;
-            const v: any = cell?.value;
-            const text = v == null ? '' : (typeof v === 'string' ? v : String(v));
-            if (text) m[srcIdx] = text;
-          }
-          if (Object.keys(m).length) metaCache[rowIndex] = m;
-          continue; // skip yielding for meta rows
-        }
+    // Header and metadata rows stay around for the rows below them
+    const keptRows = new Set(matches.flatMap(({ sheetCfg }) => [sheetCfg.headerRow ?? 1, ...(sheetCfg.metadataRows || [])]));
+    const rows = new Map<number, ExcelJS.Row>();
+    let current: ExcelJS.Row | undefined;
+    const byRow = mergesByRow(extras.merges);
+    const masterValues = new Map<A1Range, any>();
+    // One builder per config, created at its first value row once the header row has streamed past
+    const builders = new Map<SheetPlan, SheetUnitBuilder>();
+    const builderFor = async (plan: SheetPlan): Promise<SheetUnitBuilder> => {
+      let builder = builders.get(plan);
+      if (!builder) {
+        const { sheetCfg, table, scopes } = plan;
+        const source = streamSource(sheetName, extras, byRow, rows, () => current!, sheetCfg.headerRow ?? 1, table);
+        builder = sheetUnitBuilder(source, sheetCfg, config, options, { scopes, styleNames: needsStyleNames(sheetCfg) ? styleNames : undefined, mergeState });
+        builders.set(plan, builder);
+      }
+      return builder;
+    };
 
-        // Apply row filters for value rows
-        if (rowIndex < valuesStart) continue;
-        if ((sheetCfg.skipHiddenRows && (row as any).hidden) || (sheetCfg.excludedRows && sheetCfg.excludedRows.includes(rowIndex))) continue;
-
-        for (const srcIdx of sourceCols) {
-          const cell = (row as any).getCell ? (row as any).getCell(srcIdx) : undefined;
-          const v: any = cell?.value;
-          const text = v == null ? '' : (typeof v === 'string' ? v : String(v));
-          if (!text) continue;
-          const colLetter = colIndexToLetter(srcIdx);
-          const meta: Record<string, any> = {};
-          if (headerCache[srcIdx]) meta.headerName = headerCache[srcIdx];
-          if (metaRows.length) {
-            const m: Record<number, string> = {};
-            for (const mr of metaRows) {
-              const map = metaCache[mr];
-              if (map && map[srcIdx]) m[mr] = map[srcIdx];
-            }
-            if (Object.keys(m).length) meta.metadataRows = m as any;
-          }
-          const tu: TranslationUnit = {
-            id: `${sheetName}::R${rowIndex}C${colLetter}`,
-            sheetName,
-            row: rowIndex,
-            col: colLetter,
-            colIndex: srcIdx,
-            source: text,
-            segments: [],
-            meta,
-          } as any;
-          yield tu;
-        }
+    const unitsOf = async function* (row: ExcelJS.Row): AsyncGenerator<TranslationUnit> {
+      current = row;
+      if (styleRows) await readStyleNames(row.number);
+      completeRow(row, extras, byRow.get(row.number) || [], masterValues);
+      if (keptRows.has(row.number)) rows.set(row.number, row);
+      for (const plan of matches) {
+        if (row.number < plan.first || row.number > plan.last) continue;
+        for (const u of await (await builderFor(plan)).rowUnits(row.number)) yield emit(u);
       }
+    };
+
+    // The stream reader looks up shared strings when the sheet's rows are first read
+    reader.sharedStrings = sharedStrings;
+    let last = 0;
+    try {
+      for await (const row of wsa) {
+        options?.signal?.throwIfAborted();
+        if (options?.onProgress) progress(sheetName, row.number, rowsBefore + row.number);
+        // Rows missing from the part are empty rows to the in-memory reader, which may still be merged or validated
+        for (let n = last + 1; n < row.number; n++) yield* unitsOf(new row.constructor(wsa, n));
+        last = row.number;
+        yield* unitsOf(row);
+      }
+    } finally {
+      // Stops the style names reader when the sheet is done, or when the consumer stops early
+      await styleRows?.return(undefined);
+    }
+    // Sheets without value rows still resolve their columns, so bad references fail as in extract()
+    for (const plan of matches) (await builderFor(plan)).done();
+    if (options?.onProgress) {
+      // A stale <dimension> may fall short of the rows actually read
+      rowsBefore += Math.max(sheetRows.get(sheetName) ?? 0, last);
+      progress(sheetName, last, rowsBefore);
     }
   }
+
+  const props = propertyUnits(await readDocumentProperties(zip), config);
+  for (const u of props) yield segment(u);
 }
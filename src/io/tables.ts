@@ -0,0 +1,89 @@
+import ExcelJS from 'exceljs';
+import { SheetConfig } from '../types.js';
+import { colIndexToLetter } from '../utils/index.js';
+import { A1Range, parseA1Range } from './ranges.js';
+
+// SheetConfig.table: extract from a named Excel Table (ListObject). The header row and data rows come
+// from the table's ref, so rows added to the table are picked up without touching valuesStartRow.
+
+export type TableRange = {
+  name: string;
+  headerRow: number;
+  firstRow: number; // first data row
+  lastRow: number; // last data row (totals row excluded)
+  firstCol: number;
+  lastCol: number;
+};
+
+function parseRef(ref: string): A1Range {
+  const range = parseA1Range(ref);
+  if (!range) throw new Error(`Unsupported table reference '${ref}'.`);
+  return range;
+}
+
+function tableModel(ws: ExcelJS.Worksheet, name: string): any | undefined {
+  const table: any = (ws as any).tables?.[name];
+  return table ? table.table ?? table.model : undefined;
+}
+
+export function findTable(ws: ExcelJS.Worksheet, name: string): TableRange | undefined {
+  const model = tableModel(ws, name);
+  return model ? tableRange(name, model) : undefined;
+}
+
+// Rows and columns of a table from its model (ref, headerRow, totalsRow), as ExcelJS or the package gives it
+export function tableRange(name: string, model: { ref?: string; tableRef?: string; headerRow?: boolean; totalsRow?: boolean }): TableRange {
+  const { top, left, bottom, right } = parseRef(model.tableRef ?? model.ref ?? '');
+  const headerRow = model.headerRow === false ? top - 1 : top;
+  return {
+    name,
+    headerRow,
+    firstRow: headerRow + 1,
+    lastRow: model.totalsRow ? bottom - 1 : bottom,
+    firstCol: left,
+    lastCol: right,
+  };
+}
+
+// The sheet config as seen inside the table: header and data rows taken from the table
+export function tableSheetConfig(sheetCfg: SheetConfig, table: TableRange): SheetConfig {
+  return { ...sheetCfg, headerRow: table.headerRow, valuesStartRow: table.firstRow };
+}
+
+// Sheets matching the config, each with its table when the config names one.
+// Matching sheets without the table are left out; none holding it is an error.
+export function tableSheets(sheets: ExcelJS.Worksheet[], sheetCfg: SheetConfig): { ws: ExcelJS.Worksheet; table?: TableRange }[] {
+  if (!sheetCfg.table) return sheets.map(ws => ({ ws }));
+  const out = sheets.flatMap(ws => {
+    const table = findTable(ws, sheetCfg.table!);
+    return table ? [{ ws, table }] : [];
+  });
+  if (!out.length) throw new Error(`Table '${sheetCfg.table}' not found on any sheet matching '${sheetCfg.namePattern}'.`);
+  return out;
+}
+
+// Append a column titled `header` to the right edge of the table and grow its definition; returns the column index.
+// A non-empty column next to the table is shifted right first. Table column names are unique, so a taken
+// name gets a numeric suffix.
+export function addTableColumn(ws: ExcelJS.Worksheet, table: TableRange, header: string): number {
+  const model = tableModel(ws, table.name);
+  const taken = new Set((model.columns as { name: string }[]).map(c => c.name.toLowerCase()));
+  let name = header;
+  for (let n = 2; taken.has(name.toLowerCase()); n++) name = `${header} ${n}`;
+  const idx = table.lastCol + 1;
+  let occupied = false;
+  for (let r = table.headerRow; r <= table.lastRow + (model.totalsRow ? 1 : 0); r++) {
+    if (ws.getCell(r, idx).value != null) occupied = true;
+  }
+  if (occupied) ws.spliceColumns(idx, 0, []);
+  ws.getCell(table.headerRow, idx).value = name;
+
+  const { top, left, bottom } = parseRef(model.tableRef ?? model.ref);
+  const ref = `${colIndexToLetter(left)}${top}:${colIndexToLetter(idx)}${bottom}`;
+  const last = model.columns[model.columns.length - 1];
+  model.columns.push({ name, filterButton: last?.filterButton ?? true });
+  model.tableRef = ref;
+  if (model.autoFilterRef) model.autoFilterRef = ref;
+  table.lastCol = idx;
+  return idx;
+}
@@ -0,0 +1,78 @@
+import ExcelJS from 'exceljs';
+
+// Data validation strings of a source cell ↔ units.
+// Parts: promptTitle, prompt, errorTitle, error and list:N for each value of an inline dropdown ("Yes,No,Maybe").
+// Unit ids are <cell id>::dv:<part>; list values are separate units so translators never see the separators.
+
+const TEXT_FIELDS = ['promptTitle', 'prompt', 'errorTitle', 'error'] as const;
+
+// Excel limits an inline list (including separators) to 255 characters
+const MAX_LIST_LENGTH = 255;
+
+// Inline list formula: one quoted string, quotes doubled. Range references and named lists return null.
+export function parseListFormula(formula: unknown): string[] | null {
+  if (typeof formula !== 'string') return null;
+  const m = /^"((?:[^"]|"")*)"$/.exec(formula.trim());
+  if (!m) return null;
+  return m[1].replace(/""/g, '"').split(',');
+}
+
+function listFormula(values: string[]): string {
+  return `"${values.join(',').replace(/"/g, '""')}"`;
+}
+
+export function validationTexts(dv: any, opts?: { listValues?: boolean }): [string, string][] {
+  if (!dv || typeof dv !== 'object') return [];
+  const out: [string, string][] = [];
+  for (const field of TEXT_FIELDS) {
+    const text = dv[field];
+    if (typeof text === 'string' && text.trim()) out.push([field, text]);
+  }
+  if (dv.type === 'list' && opts?.listValues !== false) {
+    const values = parseListFormula(dv.formulae?.[0]) || [];
+    values.forEach((v, i) => {
+      if (v.trim()) out.push([`list:${i}`, v]);
+    });
+  }
+  return out;
+}
+
+export function validationPart(unitId: string): string {
+  const at = unitId.lastIndexOf('::dv:');
+  return at >= 0 ? unitId.slice(at + 5) : '';
+}
+
+// Why a translated value cannot go into the list: Excel separates values with commas and limits the
+// list (unescaped, including separators) to 255 characters
+export function listValueError(values: string[], idx: number, text: string): string | undefined {
+  if (text.includes(',')) return 'contains a comma, which Excel uses as the list separator';
+  const length = values.map((v, i) => (i === idx ? text : v)).join(',').length;
+  if (length > MAX_LIST_LENGTH) return `makes the dropdown list ${length} characters long; Excel allows ${MAX_LIST_LENGTH}`;
+  return undefined;
+}
+
+// Write one translated part into the validation of `cell`. A cell without a validation of its own
+// starts from a copy of the source cell's validation (validations on ranges share one object).
+// Returns why a list value could not be written; the list then keeps its value.
+export function applyValidationText(cell: ExcelJS.Cell, sourceCell: ExcelJS.Cell, part: string, text: string): string | undefined {
+  let error: string | undefined;
+  const base: any = cell.dataValidation || sourceCell.dataValidation;
+  if (!base) return;
+  const dv: any = { ...base, formulae: Array.isArray(base.formulae) ? [...base.formulae] : base.formulae };
+
+  const m = /^list:(\d+)$/.exec(part);
+  if (m) {
+    const values = parseListFormula(dv.formulae?.[0]);
+    const idx = Number(m[1]);
+    if (!values || idx >= values.length) return;
+    error = listValueError(values, idx, text);
+    if (!error) values[idx] = text;
+    dv.formulae[0] = listFormula(values);
+  } else if ((TEXT_FIELDS as readonly string[]).includes(part)) {
+    dv[part] = text;
+  } else {
+    return;
+  }
+  cell.dataValidation = dv;
+  return error;
+}
@@ -1,6 +1,19 @@
 import ExcelJS from 'exceljs';
-import { Config, TranslationUnit } from '../types.js';
-import { colLetterToIndex } from '../utils/index.js';
+import { Config, MergeReport, SheetConfig, TranslationUnit } from '../types.js';
+import { cellValueToText, colIndexToLetter, colLetterToIndex } from '../utils/index.js';
+import { inlineToRichText, RichTextFonts } from '../io/richtext.js';
+import { applyPartUnit, isPartUnit, renameSheets } from '../io/parts.js';
+import { applyValidationText, validationPart } from '../io/validation.js';
+import { formulaTextError, rebuildFormula } from '../io/formula.js';
+import { applyTooltip, HyperlinkMeta, hyperlinkValue, restoreTooltips } from '../io/hyperlink.js';
+import { readMergeState, sourceHash, stateKey, writeMergeState } from '../io/mergestate.js';
+import { charCount, parseMaxChars } from '../io/limits.js';
+import { sheetSkipReason, worksheetInfo } from '../io/sheetfilter.js';
+import { sheetSelected } from '../io/sheets.js';
+import { isDrawingUnit, restoreDrawings } from '../io/drawings.js';
+import { addTableColumn, TableRange, tableSheetConfig, tableSheets } from '../io/tables.js';
+import { definedNameRanges, resolveScopes, scopeAt } from '../io/ranges.js';
+import { isHeaderRef, joinKey, keyColumnRefs, lookupColumn, parseColumnRef, readHeaderTexts, resolveColumns } from '../io/columns.js';
 
 type InlineMap = Record<string, { open?: string; close?: string } | undefined>;
 type PlaceholderMap = Record<string, Record<string, string>>;
@@ -24,6 +37,71 @@ function ensureTargetColumn(
   return newIndex;
 }
 
+// Per-row character limits from SheetConfig.maxCharsColumn
+function readRowLimits(ws: ExcelJS.Worksheet, sheetCfg: SheetConfig, table?: TableRange): Map<number, number> {
+  const limits = new Map<number, number>();
+  if (!sheetCfg.maxCharsColumn) return limits;
+  const [col] = resolveColumns(ws, [sheetCfg.maxCharsColumn], sheetCfg.headerRow, table);
+  for (let r = sheetCfg.valuesStartRow ?? 2; r <= (table?.lastRow ?? ws.rowCount); r++) {
+    const limit = parseMaxChars(cellValueToText(ws.getCell(r, col.index).value), `in column ${col.letter} at row ${r} on sheet '${ws.name}'`);
+    if (limit) limits.set(r, limit);
+  }
+  return limits;
+}
+
+// Resolve explicit targetColumns (letters or header references) to column indexes once per sheet.
+// Exact header names without a match get a new column from `addColumn`, titled with the header text, unless
+// createTargetIfMissing is false; locales mapped to '' are left to auto-creation. `headers` reads the header row.
+export function resolveTargetColumns(
+  sheetName: string,
+  sheetCfg: SheetConfig,
+  headers: () => Map<number, string>,
+  addColumn: (title: string) => number
+): Map<string, number> {
+  const headerRow = sheetCfg.headerRow ?? 1;
+  const ctx = { sheetName, headerRow };
+  const refs = Object.entries(sheetCfg.targetColumns || {}).filter(([, col]) => (col || '').trim());
+  const texts = refs.some(([, col]) => isHeaderRef(col)) ? headers() : new Map<number, string>();
+  const out = new Map<string, number>();
+  const owner = new Map<number, string>();
+
+  for (const [loc, col] of refs) {
+    let idx = lookupColumn(col, texts, ctx);
+    if (!idx) {
+      const ref = parseColumnRef(col);
+      if (sheetCfg.createTargetIfMissing === false || ref.mode !== 'exact') {
+        throw new Error(`Target column '${col}' for locale '${loc}' not found in row ${headerRow} on sheet '${sheetName}'.`);
+      }
+      idx = addColumn(ref.value);
+      texts.set(idx, ref.value);
+    }
+    if (owner.has(idx)) {
+      throw new Error(
+        `Target column collision on sheet '${sheetName}': locales '${owner.get(idx)}' and '${loc}' both map to column '${colIndexToLetter(idx)}'.`
+      );
+    }
+    owner.set(idx, loc);
+    out.set(loc, idx);
+  }
+  return out;
+}
+
+// Map row keys to row numbers for sheets configured with keyColumn
+function indexRowsByKey(ws: ExcelJS.Worksheet, sheetCfg: SheetConfig, table?: TableRange): Map<string, number> | null {
+  const keyCols = resolveColumns(ws, keyColumnRefs(sheetCfg.keyColumn), sheetCfg.headerRow, table);
+  if (!keyCols.length) return null;
+  const index = new Map<string, number>();
+  for (let r = sheetCfg.valuesStartRow ?? 2; r <= (table?.lastRow ?? ws.rowCount); r++) {
+    const key = joinKey(keyCols.map(k => cellValueToText(ws.getCell(r, k.index).value)));
+    if (!key) continue;
+    if (index.has(key)) {
+      throw new Error(`Duplicate key '${key}' at rows ${index.get(key)} and ${r} on sheet '${ws.name}'.`);
+    }
+    index.set(key, r);
+  }
+  return index;
+}
+
 // Safe replaceAll for older runtimes (split/join)
 function rAll(haystack: string, needle: string, replacement: string): string {
   return haystack.split(needle).join(replacement);
@@ -125,196 +203,297 @@ function composeHtmlFromSkeleton(translated: string, skeleton: string, inlineMap
   return result;
 }
 
+// Rebuild the translated text of a unit from its segments: gaps between segments are restored
+// from the source, placeholders rehydrated and legacy per-segment HTML skeletons expanded.
+export function joinSegments(tu: TranslationUnit, config: Config): string {
+  const rebuiltSegments: string[] = [];
+  let pos = 0;
+  const src = tu.source || '';
+
+  if (tu.segments && tu.segments.length) {
+    const unitInlineMap = (tu.meta as any)?.htmlInlineMap as InlineMap | undefined;
+    const placeholderMap = (tu.meta as any)?.placeholders as PlaceholderMap | undefined;
+    for (let i = 0; i < tu.segments.length; i++) {
+      const seg = tu.segments[i];
+      // Locked (do-not-translate) units keep their source
+      const chosen = tu.meta?.locked
+        ? (seg.source ?? '')
+        : (seg.target && seg.target.length > 0)
+          ? seg.target
+          : (config.global?.mergeFallback ?? 'source') === 'source'
+            ? (seg.source ?? '')
+            : '';
+
+      const skeleton = seg.meta?.htmlSkeleton;
+
+      // 1) restore the gap between last pos and current segment's source
+      const idx = seg.source ? src.indexOf(seg.source, pos) : -1;
+      let gap = '';
+      if (idx >= 0) {
+        const between = src.slice(pos, idx);
+        gap = between.length > 0 ? between : (pos > 0 ? ' ' : '');
+        pos = idx + (seg.source?.length ?? 0);
+      }
+
+      let segBody = chosen;
+      if (placeholderMap && seg.id && placeholderMap[seg.id]) {
+        for (const [pid, original] of Object.entries(placeholderMap[seg.id])) {
+          segBody = rAll(segBody, `[[ph:${pid}]]`, original);
+        }
+      }
+
+      // 2) inject into legacy segment skeleton if present (backward compatibility)
+      if (skeleton) {
+        const tokenRegex = /\[\[htmltxt:\d+\]\]/g;
+        let expanded = segBody;
+        if (unitInlineMap) {
+          for (const [n, t] of Object.entries(unitInlineMap)) {
+            expanded = rAll(expanded, `[[io:${n}]]`, t?.open ?? '');
+            expanded = rAll(expanded, `[[ic:${n}]]`, t?.close ?? '');
+          }
+        }
+        segBody = skeleton.replace(tokenRegex, expanded);
+      }
+
+      rebuiltSegments.push(gap + segBody);
+    }
+
+    // trailing text after last segment, if any
+    rebuiltSegments.push(src.slice(pos));
+  } else {
+    // No segments: fall back to TU source (tu.target no longer exists)
+    rebuiltSegments.push(tu.source ?? '');
+  }
+
+  return rebuiltSegments.join('');
+}
+
+export function checkAutoCreate(sheetCfg: SheetConfig, sheetName: string): void {
+  const autoCreateCount = Object.values(sheetCfg.targetColumns || {}).filter(col => !(col || '').trim()).length;
+  if (autoCreateCount > 1 && sheetCfg.createTargetIfMissing) {
+    throw new Error(
+      `Multiple locales configured to auto-create target columns on sheet '${sheetName}'. Define explicit targetColumns to avoid collisions.`
+    );
+  }
+}
+
+// Locales a unit is merged into, with their target column reference ('' to auto-create); range offsets add
+// locales of their own, and global.targetLocale (or the unit's) narrows the list to one
+export function unitLocales(tu: TranslationUnit, localeToCol: Record<string, string>, offsets: Record<string, number>, config: Config): [string, string][] {
+  const localeEntries = [
+    ...Object.entries(localeToCol),
+    ...Object.keys(offsets).filter(lc => !(lc in localeToCol)).map(lc => [lc, ''] as [string, string]),
+  ];
+  const preferredLocale = config.global?.targetLocale || (tu.meta as any)?.targetLocale;
+  return preferredLocale ? localeEntries.filter(([lc]) => lc === preferredLocale) : localeEntries;
+}
+
+// Text to write for a translated unit: segments joined back and HTML markup restored
+export function mergedText(tu: TranslationUnit, config: Config): string {
+  let finalText = joinSegments(tu, config);
+  const htmlSkeleton = (tu.meta as any)?.htmlSkeleton as string | undefined;
+  const htmlInlineMap = (tu.meta as any)?.htmlInlineMap as InlineMap | undefined;
+  
+  if (htmlSkeleton) {
+    // New approach: skeleton has [[CONTENT]] placeholder for the translated content
+    if (htmlSkeleton.includes('[[CONTENT]]')) {
+      // For XLIFF 2.1, the parser already restored full HTML tags with attributes using equivStart/equivEnd
+      // For XLIFF 1.2, we need to use the inlineMap to restore attributes
+      if (htmlInlineMap) {
+        // XLIFF 1.2: Replace simplified HTML tags with full tags from inlineMap
+        for (const [idStr, tags] of Object.entries(htmlInlineMap)) {
+          if (!tags?.open || !tags?.close) continue;
+          
+          // Extract tag name from the full tag (e.g., "<a href='...'>" -> "a")
+          const tagMatch = tags.open.match(/<(\w+)/);
+          if (!tagMatch) continue;
+          const tagName = tagMatch[1];
+          
+          // Replace simplified tags with full tags
+          // Use a simple approach: replace first occurrence of <tagName> with full open tag
+          // and first occurrence of </tagName> with full close tag
+          const simpleOpen = `<${tagName}>`;
+          const simpleClose = `</${tagName}>`;
+          
+          // Find and replace pairs
+          let pos = 0;
+          while (pos < finalText.length) {
+            const openIdx = finalText.indexOf(simpleOpen, pos);
+            if (openIdx === -1) break;
+            
+            // Find matching close tag
+            let depth = 1;
+            let searchPos = openIdx + simpleOpen.length;
+            let closeIdx = -1;
+            
+            while (searchPos < finalText.length && depth > 0) {
+              const nextOpen = finalText.indexOf(simpleOpen, searchPos);
+              const nextClose = finalText.indexOf(simpleClose, searchPos);
+              
+              if (nextClose === -1) break;
+              
+              if (nextOpen !== -1 && nextOpen < nextClose) {
+                depth++;
+                searchPos = nextOpen + simpleOpen.length;
+              } else {
+                depth--;
+                if (depth === 0) {
+                  closeIdx = nextClose;
+                  break;
+                }
+                searchPos = nextClose + simpleClose.length;
+              }
+            }
+            
+            if (closeIdx !== -1) {
+              // Replace this pair
+              finalText = finalText.substring(0, openIdx) + tags.open + 
+                        finalText.substring(openIdx + simpleOpen.length, closeIdx) + 
+                        tags.close + finalText.substring(closeIdx + simpleClose.length);
+              pos = openIdx + tags.open.length;
+            } else {
+              pos = openIdx + simpleOpen.length;
+            }
+          }
+        }
+      }
+      // Replace [[CONTENT]] placeholder with the translated content
+      finalText = htmlSkeleton.replace(/\[\[CONTENT\]\]/g, finalText);
+    } else {
+      // Legacy approach: skeleton has [[htmltxt:N]], [[io:N]], [[ic:N]] markers
+      finalText = composeHtmlFromSkeleton(finalText, htmlSkeleton, htmlInlineMap);
+    }
+  } else if ((tu.meta as any)?.htmlInlineMap && !(tu.meta as any)?.htmlSkeleton) {
+    // Inline map without skeleton: expand placeholders globally
+    for (const [n, t] of Object.entries((tu.meta as any).htmlInlineMap as InlineMap)) {
+      finalText = rAll(finalText, `[[io:${n}]]`, t?.open ?? '');
+      finalText = rAll(finalText, `[[ic:${n}]]`, t?.close ?? '');
+    }
+  }
+  return finalText;
+}
+
+// Cell value for the merged text of a cell unit: a hyperlink, a rebuilt formula, rich text or plain text;
+// nothing for empty text
+export function targetValue(tu: TranslationUnit, text: string, locale: string, sheetCfg: SheetConfig): ExcelJS.CellValue | undefined {
+  if (text === '') return undefined;
+  const formulaCodes = (tu.meta as any)?.formulaCodes as string[] | undefined;
+  const hyperlink = (tu.meta as any)?.hyperlink as HyperlinkMeta | undefined;
+  if (hyperlink) return hyperlinkValue(text, hyperlink, locale, sheetCfg);
+  if (formulaCodes) return { formula: rebuildFormula(text, formulaCodes, tu.id) } as any;
+  const richTextFonts = (tu.meta as any)?.richTextFonts as RichTextFonts | undefined;
+  return richTextFonts ? (inlineToRichText(text, richTextFonts) as any) : text;
+}
+
+// The source cell's formula for a target whose translated formula could not be rebuilt
+export function sourceFormula(formula: string | undefined): ExcelJS.CellValue | undefined {
+  return formula ? ({ formula } as any) : undefined;
+}
+
 export async function mergeWorkbook(
   inputXlsxPath: string,
   outputXlsxPath: string,
   translatedUnits: TranslationUnit[],
   config: Config
-): Promise<void> {
+): Promise<MergeReport> {
   const wb = new ExcelJS.Workbook();
   await wb.xlsx.readFile(inputXlsxPath);
+  await restoreTooltips(wb, inputXlsxPath);
 
   const overwrite = config.global?.overwrite ?? true;
   const placement = config.global?.insertTargetPlacement ?? 'insertAfterSource';
+  const report: MergeReport = { missingKeys: [], tooLong: [], invalidFormulas: [], invalidListValues: [] };
+  let formulasRebuilt = false;
+  const drawingSheets = new Set<string>();
+  const mergeState = readMergeState(wb);
 
-  for (const sheetCfg of config.workbook.sheets) {
-    for (const ws of wb.worksheets.filter(
-      w => new RegExp(sheetCfg.namePattern).test(w.name) || sheetCfg.namePattern === w.name
-    )) {
+  for (const baseCfg of config.workbook.sheets) {
+    const sheets = wb.worksheets.filter(
+      (w, i) => sheetSelected(baseCfg, { name: w.name, index: i + 1 }) && !sheetSkipReason(baseCfg, worksheetInfo(w))
+    );
+    for (const { ws, table } of tableSheets(sheets, baseCfg)) {
+      const sheetCfg = table ? tableSheetConfig(baseCfg, table) : baseCfg;
+      if (sheetCfg.translateDrawings) drawingSheets.add(ws.name);
       const localeToCol = sheetCfg.targetColumns || {};
-      const explicitCols = new Map<string, string>();
-      let autoCreateCount = 0;
-
-      for (const [loc, col] of Object.entries(localeToCol)) {
-        const colLetter = (col || '').toUpperCase();
-        if (!colLetter) { autoCreateCount++; continue; }
-        if (explicitCols.has(colLetter)) {
-          throw new Error(
-            `Target column collision on sheet '${ws.name}': locales '${explicitCols.get(colLetter)}' and '${loc}' both map to column '${colLetter}'.`
-          );
-        }
-        explicitCols.set(colLetter, loc);
-      }
-      if (autoCreateCount > 1 && sheetCfg.createTargetIfMissing) {
-        throw new Error(
-          `Multiple locales configured to auto-create target columns on sheet '${ws.name}'. Define explicit targetColumns to avoid collisions.`
-        );
-      }
+      const scopes = resolveScopes(ws.name, sheetCfg, definedNameRanges(wb));
+      // Missing target headers become new columns at the sheet end, or of the table
+      const targetIdxByLocale = resolveTargetColumns(ws.name, sheetCfg, () => readHeaderTexts(ws, sheetCfg.headerRow ?? 1, table), title => {
+        if (table) return addTableColumn(ws, table, title);
+        const idx = ws.columnCount + 1;
+        ws.getCell(sheetCfg.headerRow ?? 1, idx).value = title;
+        return idx;
+      });
+      checkAutoCreate(sheetCfg, ws.name);
 
-      const unitsForSheet = translatedUnits.filter(u => u.sheetName === ws.name);
+      // Auto-created target columns, one per locale and source column (not one per unit)
+      const autoCreated = new Map<string, number>();
+      const rowByKey = indexRowsByKey(ws, sheetCfg, table);
+      const rowLimits = readRowLimits(ws, sheetCfg, table);
+      const unitsForSheet = translatedUnits.filter(u => u.sheetName === ws.name && !isPartUnit(u) && !isDrawingUnit(u));
       for (const tu of unitsForSheet) {
+        // Keyed units follow their key, so sorted or inserted rows still receive the right translation
+        let row = tu.row;
+        if (rowByKey && tu.key != null) {
+          const found = rowByKey.get(tu.key);
+          if (found === undefined) {
+            report.missingKeys.push({ sheetName: ws.name, key: tu.key, unitId: tu.id });
+            continue;
+          }
+          row = found;
+        }
         const srcColIdx = colLetterToIndex(tu.col);
-        const preferredLocale = config.global?.targetLocale || (tu.meta as any)?.targetLocale;
-        const entries = preferredLocale
-          ? Object.entries(localeToCol).filter(([lc]) => lc === preferredLocale)
-          : Object.entries(localeToCol);
-
-        for (const [, colLetter] of entries) {
-          const targetIdx = ensureTargetColumn(ws, colLetter, placement, srcColIdx);
-          const cell = ws.getCell(tu.row, targetIdx);
+        // With ranges, only cells inside them are written (a keyed row may have moved out); range offsets pick the target
+        const scope = scopes ? scopeAt(scopes, row, srcColIdx) : undefined;
+        if (scopes && !scope) continue;
+        const offsets = scope?.targetOffsets || {};
+        for (const [loc, colRef] of unitLocales(tu, localeToCol, offsets, config)) {
+          let targetIdx = offsets[loc] !== undefined
+            ? srcColIdx + offsets[loc]
+            : targetIdxByLocale.get(loc) ?? autoCreated.get(`${loc}|${srcColIdx}`);
+          if (targetIdx === undefined) {
+            // Inside a table the new column joins the table, titled with the locale
+            targetIdx = table && !(colRef || '').trim()
+              ? addTableColumn(ws, table, loc)
+              : ensureTargetColumn(ws, colRef, placement, srcColIdx);
+            autoCreated.set(`${loc}|${srcColIdx}`, targetIdx);
+          }
+          // Notes and validations go onto the target cell, or back onto the source cell when producing per-locale copies
+          const mergeInto = tu.kind === 'note' ? sheetCfg.notes?.mergeInto : tu.kind === 'validation' ? sheetCfg.dataValidation?.mergeInto : undefined;
+          const cell = mergeInto === 'source' ? ws.getCell(row, srcColIdx) : ws.getCell(row, targetIdx);
           if (!overwrite) continue;
 
-          const rebuiltSegments: string[] = [];
-          let pos = 0;
-          const src = tu.source || '';
-
-          if (tu.segments && tu.segments.length) {
-            const unitInlineMap = (tu.meta as any)?.htmlInlineMap as InlineMap | undefined;
-            const placeholderMap = (tu.meta as any)?.placeholders as PlaceholderMap | undefined;
-            for (let i = 0; i < tu.segments.length; i++) {
-              const seg = tu.segments[i];
-              const chosen =
-                (seg.target && seg.target.length > 0)
-                  ? seg.target
-                  : (config.global?.mergeFallback ?? 'source') === 'source'
-                    ? (seg.source ?? '')
-                    : '';
-
-              const skeleton = seg.meta?.htmlSkeleton;
-
-              // 1) restore the gap between last pos and current segment's source
-              const idx = seg.source ? src.indexOf(seg.source, pos) : -1;
-              let gap = '';
-              if (idx >= 0) {
-                const between = src.slice(pos, idx);
-                gap = between.length > 0 ? between : (pos > 0 ? ' ' : '');
-                pos = idx + (seg.source?.length ?? 0);
-              }
-
-              let segBody = chosen;
-              if (placeholderMap && seg.id && placeholderMap[seg.id]) {
-                for (const [pid, original] of Object.entries(placeholderMap[seg.id])) {
-                  segBody = rAll(segBody, `[[ph:${pid}]]`, original);
-                }
-              }
+          const finalText = mergedText(tu, config);
 
-              // 2) inject into legacy segment skeleton if present (backward compatibility)
-              if (skeleton) {
-                const tokenRegex = /\[\[htmltxt:\d+\]\]/g;
-                let expanded = segBody;
-                if (unitInlineMap) {
-                  for (const [n, t] of Object.entries(unitInlineMap)) {
-                    expanded = rAll(expanded, `[[io:${n}]]`, t?.open ?? '');
-                    expanded = rAll(expanded, `[[ic:${n}]]`, t?.close ?? '');
-                  }
-                }
-                segBody = skeleton.replace(tokenRegex, expanded);
-              }
-
-              rebuiltSegments.push(gap + segBody);
-            }
-
-            // trailing text after last segment, if any
-            rebuiltSegments.push(src.slice(pos));
-          } else {
-            // No segments: fall back to TU source (tu.target no longer exists)
-            rebuiltSegments.push(tu.source ?? '');
+          if (tu.kind === 'note') {
+            if (finalText !== '') cell.note = finalText;
+            continue;
           }
-
-          let finalText = rebuiltSegments.join('');
-          const htmlSkeleton = (tu.meta as any)?.htmlSkeleton as string | undefined;
-          const htmlInlineMap = (tu.meta as any)?.htmlInlineMap as InlineMap | undefined;
-          
-          if (htmlSkeleton) {
-            // New approach: skeleton has [[CONTENT]] placeholder for the translated content
-            if (htmlSkeleton.includes('[[CONTENT]]')) {
-              // For XLIFF 2.1, the parser already restored full HTML tags with attributes using equivStart/equivEnd
-              // For XLIFF 1.2, we need to use the inlineMap to restore attributes
-              if (htmlInlineMap) {
-                // XLIFF 1.2: Replace simplified HTML tags with full tags from inlineMap
-                for (const [idStr, tags] of Object.entries(htmlInlineMap)) {
-                  if (!tags?.open || !tags?.close) continue;
-                  
-                  // Extract tag name from the full tag (e.g., "<a href='...'>" -> "a")
-                  const tagMatch = tags.open.match(/<(\w+)/);
-                  if (!tagMatch) continue;
-                  const tagName = tagMatch[1];
-                  
-                  // Replace simplified tags with full tags
-                  // Use a simple approach: replace first occurrence of <tagName> with full open tag
-                  // and first occurrence of </tagName> with full close tag
-                  const simpleOpen = `<${tagName}>`;
-                  const simpleClose = `</${tagName}>`;
-                  
-                  // Find and replace pairs
-                  let pos = 0;
-                  while (pos < finalText.length) {
-                    const openIdx = finalText.indexOf(simpleOpen, pos);
-                    if (openIdx === -1) break;
-                    
-                    // Find matching close tag
-                    let depth = 1;
-                    let searchPos = openIdx + simpleOpen.length;
-                    let closeIdx = -1;
-                    
-                    while (searchPos < finalText.length && depth > 0) {
-                      const nextOpen = finalText.indexOf(simpleOpen, searchPos);
-                      const nextClose = finalText.indexOf(simpleClose, searchPos);
-                      
-                      if (nextClose === -1) break;
-                      
-                      if (nextOpen !== -1 && nextOpen < nextClose) {
-                        depth++;
-                        searchPos = nextOpen + simpleOpen.length;
-                      } else {
-                        depth--;
-                        if (depth === 0) {
-                          closeIdx = nextClose;
-                          break;
-                        }
-                        searchPos = nextClose + simpleClose.length;
-                      }
-                    }
-                    
-                    if (closeIdx !== -1) {
-                      // Replace this pair
-                      finalText = finalText.substring(0, openIdx) + tags.open + 
-                                finalText.substring(openIdx + simpleOpen.length, closeIdx) + 
-                                tags.close + finalText.substring(closeIdx + simpleClose.length);
-                      pos = openIdx + tags.open.length;
-                    } else {
-                      pos = openIdx + simpleOpen.length;
-                    }
-                  }
-                }
-              }
-              // Replace [[CONTENT]] placeholder with the translated content
-              finalText = htmlSkeleton.replace(/\[\[CONTENT\]\]/g, finalText);
-            } else {
-              // Legacy approach: skeleton has [[htmltxt:N]], [[io:N]], [[ic:N]] markers
-              finalText = composeHtmlFromSkeleton(finalText, htmlSkeleton, htmlInlineMap);
-            }
-          } else if ((tu.meta as any)?.htmlInlineMap && !(tu.meta as any)?.htmlSkeleton) {
-            // Inline map without skeleton: expand placeholders globally
-            for (const [n, t] of Object.entries((tu.meta as any).htmlInlineMap as InlineMap)) {
-              finalText = rAll(finalText, `[[io:${n}]]`, t?.open ?? '');
-              finalText = rAll(finalText, `[[ic:${n}]]`, t?.close ?? '');
-            }
+          if (tu.kind === 'validation') {
+            const listError = finalText !== '' ? applyValidationText(cell, ws.getCell(row, srcColIdx), validationPart(tu.id), finalText) : undefined;
+            if (listError) report.invalidListValues.push({ sheetName: ws.name, unitId: tu.id, locale: loc, reason: listError });
+            continue;
+          }
+          if (tu.kind === 'tooltip') {
+            if (finalText !== '') applyTooltip(cell, ws.getCell(row, srcColIdx), finalText, loc, sheetCfg);
+            continue;
           }
 
-          if (finalText !== '') {
-            cell.value = finalText;
+          const formulaCodes = (tu.meta as any)?.formulaCodes as string[] | undefined;
+          const formulaError = formulaCodes && finalText !== '' ? formulaTextError(finalText, formulaCodes) : undefined;
+          if (formulaError) report.invalidFormulas.push({ sheetName: ws.name, unitId: tu.id, locale: loc, reason: formulaError });
+          const value = formulaError ? sourceFormula(ws.getCell(row, srcColIdx).formula) : targetValue(tu, finalText, loc, sheetCfg);
+          // The limit applies to the text written to the cell (rebuilt formulas have no text until Excel computes them)
+          const limit = rowLimits.get(row) ?? sheetCfg.maxCharsPerTarget?.[loc];
+          const length = value !== undefined && limit !== undefined ? charCount(cellValueToText(value)) : 0;
+          if (limit !== undefined && length > limit) {
+            report.tooLong.push({ sheetName: ws.name, unitId: tu.id, locale: loc, length, limit });
+            if (config.global?.enforceMaxChars) continue;
+          }
+          if (value !== undefined) {
+            cell.value = value;
+            if (formulaCodes) formulasRebuilt = true;
           }
+          if (finalText !== '' && !formulaError) mergeState.set(stateKey(tu.id, loc), sourceHash(cellValueToText(ws.getCell(row, srcColIdx).value)));
 
           if (sheetCfg.preserveStyles) {
             if (tu.style) {
@@ -342,7 +521,7 @@ export async function mergeWorkbook(
               }
               cell.style = { ...cell.style, ...style };
             } else {
-              const srcCell = ws.getCell(tu.row, srcColIdx);
+              const srcCell = ws.getCell(row, srcColIdx);
               cell.style = { ...srcCell.style };
             }
           }
@@ -351,7 +530,22 @@ export async function mergeWorkbook(
     }
   }
 
+  // Rebuilt formulas carry no cached result; let Excel compute them on open
+  if (formulasRebuilt) wb.calcProperties.fullCalcOnLoad = true;
+
+  // Tab names, headers/footers and document properties; renames go last since units address sheets by their old name
+  const renames = new Map<string, string>();
+  if (overwrite) {
+    for (const tu of translatedUnits.filter(isPartUnit)) applyPartUnit(wb, tu, joinSegments(tu, config), renames);
+    renameSheets(wb, renames);
+  }
+
+  if (config.global?.mergeState === true) writeMergeState(wb, mergeState);
   await wb.xlsx.writeFile(outputXlsxPath);
+  // ExcelJS drops shapes and charts; copy them over from the input with their text translated
+  const drawingTexts = new Map(overwrite ? translatedUnits.filter(isDrawingUnit).map(tu => [tu.id, joinSegments(tu, config)]) : []);
+  await restoreDrawings(inputXlsxPath, outputXlsxPath, [...drawingSheets], drawingTexts, renames);
+  return report;
 }
 
 export { composeHtmlFromSkeleton as _composeHtmlFromSkeleton };
@@ -0,0 +1,566 @@
+import fs from 'node:fs';
+import { Readable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import JSZip from 'jszip';
+import { Config, MergeReport, SheetConfig, TranslationUnit } from '../types.js';
+import { cellValueToText, colIndexToLetter, colLetterToIndex } from '../utils/index.js';
+import { asArray, encodeXml, openPackage, readTabColor, readXmlPart, relsPathOf, sheetPartPaths } from '../io/ooxml.js';
+import { isPartUnit } from '../io/parts.js';
+import { isDrawingUnit, translateDrawingParts } from '../io/drawings.js';
+import { HyperlinkMeta, hyperlinkValue, isHyperlinkValue } from '../io/hyperlink.js';
+import { MergeState, sourceHash, STATE_SHEET, stateKey } from '../io/mergestate.js';
+import { charCount, parseMaxChars } from '../io/limits.js';
+import { formulaTextError } from '../io/formula.js';
+import { needsTabColors, sheetSkipReason } from '../io/sheetfilter.js';
+import { sheetSelected } from '../io/sheets.js';
+import { joinKey, keyColumnRefs, resolveColumn } from '../io/columns.js';
+import { readSharedStrings, readSheetExtras, readStateSheet, SheetExtras } from '../io/sheetscan.js';
+import { cellStyle, cellValue, cellXml, partChunks, readSheetPart, rewriteRow, rowCells, rowXml, sheetPartReader } from '../io/sheetxml.js';
+import { checkAutoCreate, joinSegments, mergedText, resolveTargetColumns, sourceFormula, targetValue, unitLocales } from './index.js';
+
+// Streaming counterpart of merge(): the input package is rewritten instead of being loaded into ExcelJS.
+// Each selected worksheet is read twice, row by row: once for its header row, keys, character limits and the
+// rows that have units, then while the output is written, with target cells replaced or added as their rows
+// stream past. Translated units are taken one at a time from an iterable (such as parseTranslatedStream) and
+// only where each goes and the text it writes are kept, until their sheet is planned; the planned cells of a
+// sheet are dropped as its rows are written. Of the input only the source cells of rows with units and the
+// rows being rewritten are held in memory (the package itself stays compressed). Everything ExcelJS does not
+// round-trip (drawings, styles, conditional formatting, ...) is kept as it is.
+// Target cells are written as inline strings; with preserveStyles they take the source cell's style.
+// Not supported: tables, ranges, notes and data validation units, sheet renames and inserting target columns
+// next to their source (insertTargetPlacement 'insertAfterSource'). Duplicate keys are only reported among the
+// keys of translated units.
+
+type WorkbookSheet = { name: string; part?: string; state?: string; index: number };
+
+// What the first pass reads for one sheet config
+type SheetLayout = {
+  headers: Map<number, string>;
+  // Last column holding a value, where new target columns go after
+  maxCol: number;
+  // Keys of translated units → their row
+  rowByKey: Map<string, number>;
+  limits: Map<number, number>;
+  // Cell addresses with a link element
+  linked: Set<string>;
+  // Rows with units: source column → text, style and formula of the cell
+  rows: Map<number, Map<number, { text: string; style?: string; formula?: string }>>;
+};
+
+// What is kept of a translated unit: where it goes, the metadata its cell value is built from, and its text
+type PlannedUnit = { unit: TranslationUnit; text: string };
+
+// Metadata targetValue() and unitLocales() read
+const VALUE_META = ['hyperlink', 'formulaCodes', 'richTextFonts', 'targetLocale'];
+
+// A cell to write; style undefined keeps the target cell's own, null drops it
+type CellWrite = { value: any; style?: string | null };
+
+type SheetEdits = {
+  cells: Map<number, Map<number, CellWrite>>;
+  // Cell address → link; cells written without one lose theirs
+  links: Map<string, HyperlinkMeta>;
+  headerFooter: Map<string, string>;
+};
+
+const REL_HYPERLINK = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/hyperlink';
+const REL_WORKSHEET = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships/worksheet';
+const R_NS = 'http://schemas.openxmlformats.org/officeDocument/2006/relationships';
+const WORKSHEET_TYPE = 'application/vnd.openxmlformats-officedocument.spreadsheetml.worksheet+xml';
+// Worksheet children that follow <hyperlinks>, in schema order
+const AFTER_HYPERLINKS = [
+  'printOptions', 'pageMargins', 'pageSetup', 'headerFooter', 'rowBreaks', 'colBreaks', 'customProperties', 'cellWatches',
+  'ignoredErrors', 'smartTags', 'drawing', 'legacyDrawing', 'legacyDrawingHF', 'drawingHF', 'picture', 'oleObjects',
+  'controls', 'webPublishItems', 'tableParts', 'extLst',
+];
+// Document property → part and element
+const PROPERTY_ELEMENTS: Record<string, [string, string]> = {
+  title: ['docProps/core.xml', 'title'], subject: ['docProps/core.xml', 'subject'], keywords: ['docProps/core.xml', 'keywords'],
+  description: ['docProps/core.xml', 'description'], category: ['docProps/core.xml', 'category'],
+  company: ['docProps/app.xml', 'Company'], manager: ['docProps/app.xml', 'Manager'],
+};
+
+async function partText(zip: JSZip, part: string): Promise<string | undefined> {
+  return zip.file(part)?.async('string');
+}
+
+async function workbookSheets(zip: JSZip): Promise<WorkbookSheet[]> {
+  const doc = await readXmlPart(zip, 'xl/workbook.xml');
+  const parts = await sheetPartPaths(zip);
+  return asArray<any>(doc?.workbook?.sheets?.sheet).map((s, i) => ({ name: String(s.name), part: parts.get(String(s.name)), state: s.state, index: i + 1 }));
+}
+
+function emptyEdits(): SheetEdits {
+  return { cells: new Map(), links: new Map(), headerFooter: new Map() };
+}
+
+function isKeyed(sheetCfg: SheetConfig, tu: TranslationUnit): boolean {
+  return keyColumnRefs(sheetCfg.keyColumn).length > 0 && tu.key != null;
+}
+
+// The unit without its source, segments, notes and context, once its text has been joined
+function plannedUnit(tu: TranslationUnit, text: string): PlannedUnit {
+  const meta = Object.fromEntries(VALUE_META.filter(k => tu.meta?.[k] !== undefined).map(k => [k, tu.meta![k]]));
+  const { id, kind, sheetName, row, col, colIndex, key } = tu;
+  return { unit: { id, kind, sheetName, row, col, colIndex, key, source: '', meta }, text };
+}
+
+// First pass over a worksheet for one sheet config
+export async function scanSheet(
+  file: JSZip.JSZipObject | null,
+  sheetName: string,
+  sheetCfg: SheetConfig,
+  units: TranslationUnit[],
+  sharedStrings: any[]
+): Promise<SheetLayout> {
+  const headerRow = sheetCfg.headerRow ?? 1;
+  const valuesStartRow = sheetCfg.valuesStartRow ?? 2;
+  const keyRefs = keyColumnRefs(sheetCfg.keyColumn);
+  // Source columns of the units, by key or by row
+  const keys = new Map<string, Set<number>>();
+  const positional = new Map<number, Set<number>>();
+  for (const u of units) {
+    const cols = isKeyed(sheetCfg, u) ? keys.get(u.key!) ?? keys.set(u.key!, new Set()).get(u.key!)! : positional.get(u.row) ?? positional.set(u.row, new Set()).get(u.row)!;
+    cols.add(colLetterToIndex(u.col));
+  }
+  const layout: SheetLayout = { headers: new Map(), maxCol: 0, rowByKey: new Map(), limits: new Map(), linked: new Set(), rows: new Map() };
+  const column = (ref: string) => resolveColumn(ref, layout.headers, { sheetName, headerRow }).index;
+  // Resolved at the first value row, once the header row has been read
+  let keyCols: number[] | undefined;
+  let limitCol: number | undefined;
+  const resolve = () => {
+    keyCols ??= keyRefs.map(column);
+    limitCol ??= sheetCfg.maxCharsColumn ? column(sheetCfg.maxCharsColumn) : 0;
+  };
+
+  if (file) {
+    await readSheetPart(file, {
+      head: () => undefined,
+      text: () => undefined,
+      tail: xml => {
+        for (const m of xml.matchAll(/<(?:\w+:)?hyperlink\b[^>]*?\sref="([^"]*)"/g)) layout.linked.add(m[1]);
+      },
+      row: (xml, r) => {
+        const cells = rowCells(xml);
+        const values = new Map(cells.map(c => [c.col, cellValue(c, sharedStrings)]));
+        const texts = new Map([...values].map(([col, value]) => [col, cellValueToText(value)]));
+        if (cells.some(c => /<(?:\w+:)?(?:v|is|f)\b/.test(c.xml))) layout.maxCol = Math.max(layout.maxCol, cells[cells.length - 1].col);
+        if (r === headerRow) {
+          for (const [col, text] of texts) if (text) layout.headers.set(col, text);
+        }
+        if (r < valuesStartRow) return;
+        resolve();
+        const wanted = new Set(positional.get(r));
+        if (keyCols!.length) {
+          const key = joinKey(keyCols!.map(c => texts.get(c) ?? ''));
+          const cols = key ? keys.get(key) : undefined;
+          if (cols) {
+            if (layout.rowByKey.has(key)) throw new Error(`Duplicate key '${key}' at rows ${layout.rowByKey.get(key)} and ${r} on sheet '${sheetName}'.`);
+            layout.rowByKey.set(key, r);
+            for (const col of cols) wanted.add(col);
+          }
+        }
+        if (limitCol) {
+          const limit = parseMaxChars(texts.get(limitCol) ?? '', `in column ${colIndexToLetter(limitCol)} at row ${r} on sheet '${sheetName}'`);
+          if (limit && wanted.size) layout.limits.set(r, limit);
+        }
+        // Only the cells units are read from
+        const kept = cells.filter(c => wanted.has(c.col));
+        if (kept.length) {
+          layout.rows.set(r, new Map(kept.map(c => [c.col, { text: texts.get(c.col)!, style: cellStyle(c), formula: values.get(c.col)?.formula || undefined }])));
+        }
+      },
+    });
+  }
+  // Sheets without value rows still resolve their columns, so bad references fail as in merge()
+  resolve();
+  return layout;
+}
+
+// Second pass: the worksheet with `edits` applied, chunk by chunk. Planned cells are dropped as their rows
+// are written; `linked` are the addresses with a link element, whose links rewritten cells replace.
+async function* rewriteSheet(file: JSZip.JSZipObject, edits: SheetEdits, linkIds: Map<string, string>, linked: Set<string>): AsyncGenerator<Buffer> {
+  let out = '';
+  let p = '';
+  const rows = [...edits.cells.keys()].sort((a, b) => a - b);
+  let next = 0;
+  const relinked = new Set<string>();
+  const cellsOf = (r: number, existing: string | undefined): Map<number, string> => {
+    const styles = new Map(existing ? rowCells(existing).map(c => [c.col, cellStyle(c)]) : []);
+    const out = new Map<number, string>();
+    for (const [col, write] of edits.cells.get(r)!) {
+      const style = write.style === undefined ? styles.get(col) : write.style ?? undefined;
+      out.set(col, cellXml(r, col, write.value, style, p));
+      const address = `${colIndexToLetter(col)}${r}`;
+      if (linked.has(address)) relinked.add(address);
+    }
+    edits.cells.delete(r);
+    return out;
+  };
+  // Rows with writes that are missing from the part, up to row `r`
+  const addRows = (r: number) => {
+    while (next < rows.length && rows[next] < r) out += rowXml(rows[next], cellsOf(rows[next++], undefined), p);
+  };
+  const reader = sheetPartReader({
+    head: xml => {
+      p = /<((?:\w+:)?)sheetData\b[^>]*>$/.exec(xml)?.[1] ?? '';
+      // New links refer to their relationship by r:id
+      out += linkIds.size && !/\bxmlns:r=/.test(/<(?:\w+:)?worksheet\b[^>]*>/.exec(xml)?.[0] ?? '')
+        ? xml.replace(/<((?:\w+:)?)worksheet\b/, `<$1worksheet xmlns:r="${R_NS}"`)
+        : xml;
+    },
+    row: (xml, r) => {
+      addRows(r);
+      if (rows[next] === r) {
+        out += rewriteRow(xml, cellsOf(rows[next++], xml));
+      } else {
+        out += xml;
+      }
+    },
+    text: xml => { out += xml; },
+    tail: xml => {
+      addRows(Infinity);
+      out += rewriteTail(xml, edits, relinked, linkIds, p);
+      edits.links.clear();
+    },
+  });
+  for await (const chunk of partChunks(file)) {
+    reader.write(chunk);
+    if (out.length >= 1 << 16) {
+      yield Buffer.from(out, 'utf8');
+      out = '';
+    }
+  }
+  reader.end();
+  yield Buffer.from(out, 'utf8');
+}
+
+function linkXml(address: string, link: HyperlinkMeta, linkIds: Map<string, string>, p: string): string {
+  const target = link.url.startsWith('#') ? ` location="${encodeXml(link.url.slice(1), true)}"` : ` r:id="${linkIds.get(address)}"`;
+  const tooltip = link.tooltip ? ` tooltip="${encodeXml(link.tooltip, true)}"` : '';
+  return `<${p}hyperlink ref="${address}"${target}${tooltip}/>`;
+}
+
+// Everything after <sheetData>: links of rewritten cells and translated headers/footers; `relinked` are the
+// rewritten cells that had a link element
+function rewriteTail(tail: string, edits: SheetEdits, relinked: Set<string>, linkIds: Map<string, string>, p: string): string {
+  let out = tail;
+  for (const [field, text] of edits.headerFooter) {
+    out = out.replace(new RegExp(`(<(?:\\w+:)?${field}\\b[^>]*>)[\\s\\S]*?(<\\/(?:\\w+:)?${field}>)`), (_m, open: string, close: string) => open + encodeXml(text) + close);
+  }
+  const rewritten = new Set([...edits.links.keys(), ...relinked]);
+  if (!rewritten.size) return out;
+
+  out = out.replace(/<(?:\w+:)?hyperlink\b[^>]*?\/>/g, el => (rewritten.has(/\sref="([^"]*)"/.exec(el)?.[1] ?? '') ? '' : el));
+  const added = [...edits.links].map(([address, link]) => linkXml(address, link, linkIds, p)).join('');
+  const close = /<\/(?:\w+:)?hyperlinks>/.exec(out);
+  if (close) {
+    out = out.slice(0, close.index) + added + out.slice(close.index);
+  } else if (added) {
+    const next = AFTER_HYPERLINKS.map(tag => out.search(new RegExp(`<(?:\\w+:)?${tag}\\b`))).filter(i => i >= 0);
+    const at = next.length ? Math.min(...next) : out.search(/<\/(?:\w+:)?worksheet>/);
+    out = out.slice(0, at) + `<${p}hyperlinks>${added}</${p}hyperlinks>` + out.slice(at);
+  }
+  // A links element needs at least one link
+  return out.replace(/<((?:\w+:)?)hyperlinks>\s*<\/\1hyperlinks>/, '');
+}
+
+// Relationships for the external links of a worksheet; returns cell address → relationship id
+async function addLinkRelationships(zip: JSZip, sheetPart: string, links: Map<string, HyperlinkMeta>): Promise<Map<string, string>> {
+  const ids = new Map<string, string>();
+  const external = [...links].filter(([, link]) => !link.url.startsWith('#'));
+  if (!external.length) return ids;
+  const relsPath = relsPathOf(sheetPart);
+  const rels = (await partText(zip, relsPath)) ?? `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"></Relationships>`;
+  const taken = new Set([...rels.matchAll(/\bId="([^"]+)"/g)].map(m => m[1]));
+  let n = taken.size + 1;
+  let added = '';
+  for (const [address, link] of external) {
+    while (taken.has(`rId${n}`)) n++;
+    taken.add(`rId${n}`);
+    ids.set(address, `rId${n}`);
+    added += `<Relationship Id="rId${n}" Type="${REL_HYPERLINK}" Target="${encodeXml(link.url, true)}" TargetMode="External"/>`;
+  }
+  zip.file(relsPath, rels.replace('</Relationships>', `${added}</Relationships>`));
+  return ids;
+}
+
+function stateSheetXml(state: MergeState): string {
+  const rows = [['unitId', 'locale', 'sourceHash'], ...[...state].map(([key, hash]) => {
+    const at = key.lastIndexOf('|');
+    return [key.slice(0, at), key.slice(at + 1), hash];
+  })];
+  const sheetData = rows.map((values, i) => rowXml(i + 1, new Map(values.map((v, c) => [c + 1, cellXml(i + 1, c + 1, v, undefined)])))).join('');
+  return `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<worksheet xmlns="http://schemas.openxmlformats.org/spreadsheetml/2006/main"><sheetData>${sheetData}</sheetData></worksheet>`;
+}
+
+// Replace the state sheet's part, or add a very hidden sheet for it
+async function writeStateSheet(zip: JSZip, sheets: WorkbookSheet[], state: MergeState): Promise<void> {
+  if (!state.size) return;
+  const existing = sheets.find(s => s.name === STATE_SHEET)?.part;
+  if (existing) {
+    zip.file(existing, stateSheetXml(state));
+    return;
+  }
+  let part = '';
+  for (let n = sheets.length + 1; !part || zip.file(part); n++) part = `xl/worksheets/sheet${n}.xml`;
+  zip.file(part, stateSheetXml(state));
+  const rels = (await partText(zip, 'xl/_rels/workbook.xml.rels'))!;
+  const ids = new Set([...rels.matchAll(/\bId="([^"]+)"/g)].map(m => m[1]));
+  let n = ids.size + 1;
+  while (ids.has(`rId${n}`)) n++;
+  zip.file('xl/_rels/workbook.xml.rels', rels.replace('</Relationships>', `<Relationship Id="rId${n}" Type="${REL_WORKSHEET}" Target="${part.slice('xl/'.length)}"/></Relationships>`));
+  const workbook = (await partText(zip, 'xl/workbook.xml'))!;
+  const sheetIds = [...workbook.matchAll(/<(?:\w+:)?sheet\b[^>]*?\ssheetId="(\d+)"/g)].map(m => parseInt(m[1], 10));
+  const p = /<((?:\w+:)?)sheets>/.exec(workbook)?.[1] ?? '';
+  const sheet = `<${p}sheet name="${STATE_SHEET}" sheetId="${Math.max(0, ...sheetIds) + 1}" state="veryHidden" r:id="rId${n}"/>`;
+  zip.file('xl/workbook.xml', workbook.replace(/<\/((?:\w+:)?)sheets>/, `${sheet}</$1sheets>`));
+  const types = (await partText(zip, '[Content_Types].xml'))!;
+  zip.file('[Content_Types].xml', types.replace('</Types>', `<Override PartName="/${part}" ContentType="${WORKSHEET_TYPE}"/></Types>`));
+}
+
+// Rebuilt formulas carry no cached result; let Excel compute them on open
+async function setFullCalcOnLoad(zip: JSZip): Promise<void> {
+  const workbook = (await partText(zip, 'xl/workbook.xml'))!;
+  const calcPr = /<((?:\w+:)?)calcPr\b[^>]*?\/?>/.exec(workbook);
+  let next: string;
+  if (calcPr) {
+    const el = calcPr[0].replace(/\sfullCalcOnLoad="[^"]*"/, '').replace(/\s*(\/?)>$/, ' fullCalcOnLoad="1"$1>');
+    next = workbook.slice(0, calcPr.index) + el + workbook.slice(calcPr.index + calcPr[0].length);
+  } else {
+    next = workbook.replace(/<\/((?:\w+:)?)(definedNames|sheets)>(?![\s\S]*<\/(?:\w+:)?definedNames>)/, m => `${m}<${/^<\/((?:\w+:)?)/.exec(m)![1]}calcPr fullCalcOnLoad="1"/>`);
+  }
+  zip.file('xl/workbook.xml', next);
+}
+
+// The calculation chain lists formula cells; rewritten cells would make it stale, and Excel rebuilds it
+async function dropCalcChain(zip: JSZip): Promise<void> {
+  if (!zip.file('xl/calcChain.xml')) return;
+  zip.remove('xl/calcChain.xml');
+  const rels = await partText(zip, 'xl/_rels/workbook.xml.rels');
+  if (rels) zip.file('xl/_rels/workbook.xml.rels', rels.replace(/<Relationship\b[^>]*Target="[^"]*calcChain\.xml"[^>]*\/>/, ''));
+  const types = await partText(zip, '[Content_Types].xml');
+  if (types) zip.file('[Content_Types].xml', types.replace(/<Override\b[^>]*PartName="\/xl\/calcChain\.xml"[^>]*\/>/, ''));
+}
+
+async function writeProperties(zip: JSZip, props: Map<string, string>): Promise<void> {
+  for (const part of new Set([...props.keys()].map(name => PROPERTY_ELEMENTS[name]?.[0]).filter(Boolean))) {
+    let xml = await partText(zip, part);
+    if (!xml) continue;
+    for (const [name, text] of props) {
+      const [inPart, local] = PROPERTY_ELEMENTS[name] ?? [];
+      if (inPart !== part) continue;
+      xml = xml.replace(new RegExp(`(<(?:\\w+:)?${local}\\b[^>]*>)[\\s\\S]*?(<\\/(?:\\w+:)?${local}>)`), (_m, open: string, close: string) => open + encodeXml(text) + close);
+    }
+    zip.file(part, xml);
+  }
+}
+
+export async function mergeStreamWorkbook(
+  inputXlsxPath: string,
+  outputXlsxPath: string,
+  translatedUnits: Iterable<TranslationUnit> | AsyncIterable<TranslationUnit>,
+  config: Config
+): Promise<MergeReport> {
+  const zip = await openPackage(inputXlsxPath);
+  const sheets = await workbookSheets(zip);
+  const sharedStrings = await readSharedStrings(zip);
+
+  const overwrite = config.global?.overwrite ?? true;
+  const placement = config.global?.insertTargetPlacement ?? 'insertAfterSource';
+  const report: MergeReport = { missingKeys: [], tooLong: [], invalidFormulas: [], invalidListValues: [] };
+  let formulasRebuilt = false;
+  const drawingSheets = new Set<WorkbookSheet>();
+  const mergeState = await readStateSheet(zip, sheets.find(s => s.name === STATE_SHEET)?.part, sharedStrings);
+  const edits = new Map<WorkbookSheet, SheetEdits>();
+  const editsOf = (sheet: WorkbookSheet) => edits.get(sheet) ?? edits.set(sheet, emptyEdits()).get(sheet)!;
+
+  // Translated units as they are read: cell units indexed by sheet, sheet part units, drawing texts by unit id
+  const unitsBySheet = new Map<string, PlannedUnit[]>();
+  const partUnits: PlannedUnit[] = [];
+  const drawingTexts = new Map<string, string>();
+  for await (const tu of translatedUnits) {
+    if (isDrawingUnit(tu)) {
+      if (overwrite) drawingTexts.set(tu.id, joinSegments(tu, config));
+    } else if (isPartUnit(tu)) {
+      partUnits.push(plannedUnit(tu, joinSegments(tu, config)));
+    } else {
+      const list = unitsBySheet.get(tu.sheetName) ?? unitsBySheet.set(tu.sheetName, []).get(tu.sheetName)!;
+      list.push(plannedUnit(tu, mergedText(tu, config)));
+    }
+  }
+  const extrasOf = new Map<WorkbookSheet, SheetExtras>();
+  const linkedOf = new Map<WorkbookSheet, Set<string>>();
+  // Columns added so far, per sheet: the next new column goes after them
+  const maxCols = new Map<WorkbookSheet, number>();
+
+  const selections: [SheetConfig, WorkbookSheet[]][] = [];
+  for (const baseCfg of config.workbook.sheets) {
+    const selected: WorkbookSheet[] = [];
+    for (const sheet of sheets) {
+      if (!sheetSelected(baseCfg, { name: sheet.name, index: sheet.index })) continue;
+      const tabColor = needsTabColors(baseCfg) && sheet.part ? await readTabColor(zip, sheet.part) : undefined;
+      if (!sheetSkipReason(baseCfg, { name: sheet.name, state: sheet.state, tabColor })) selected.push(sheet);
+    }
+    selections.push([baseCfg, selected]);
+  }
+  // Sheet configs still to plan each sheet; a sheet's units are dropped after the last one
+  const pending = new Map<WorkbookSheet, number>();
+  for (const [, selected] of selections) for (const sheet of selected) pending.set(sheet, (pending.get(sheet) ?? 0) + 1);
+
+  for (const [baseCfg, selected] of selections) {
+    for (const sheet of selected) {
+      const sheetCfg = baseCfg;
+      if (sheetCfg.table) throw new Error(`Sheet config '${sheetCfg.namePattern}' uses table '${sheetCfg.table}', which streaming merge does not support.`);
+      if (sheetCfg.ranges) throw new Error(`Sheet config '${sheetCfg.namePattern}' uses ranges, which streaming merge does not support.`);
+      const units = unitsBySheet.get(sheet.name) || [];
+      const unsupported = units.find(({ unit }) => unit.kind === 'note' || unit.kind === 'validation')?.unit;
+      if (unsupported) throw new Error(`Unit '${unsupported.id}' is a ${unsupported.kind === 'note' ? 'note' : 'data validation'}, which streaming merge does not support.`);
+      if (sheetCfg.translateDrawings) drawingSheets.add(sheet);
+
+      const file = sheet.part ? zip.file(sheet.part) : null;
+      const layout = await scanSheet(file, sheet.name, sheetCfg, units.map(({ unit }) => unit), sharedStrings);
+      linkedOf.set(sheet, layout.linked);
+      const extras = extrasOf.get(sheet) ?? (sheet.part ? await readSheetExtras(zip, sheet.part) : undefined);
+      if (extras) extrasOf.set(sheet, extras);
+      const sheetEdits = editsOf(sheet);
+      const headerRow = sheetCfg.headerRow ?? 1;
+      let maxCol = Math.max(layout.maxCol, maxCols.get(sheet) ?? 0);
+      const write = (row: number, col: number, value: any, style?: string | null) => {
+        const cells = sheetEdits.cells.get(row) ?? sheetEdits.cells.set(row, new Map()).get(row)!;
+        cells.set(col, { value, style });
+        maxCol = Math.max(maxCol, col);
+        const address = `${colIndexToLetter(col)}${row}`;
+        if (isHyperlinkValue(value)) {
+          sheetEdits.links.set(address, { url: value.hyperlink, ...(value.tooltip ? { tooltip: value.tooltip } : {}) });
+        } else {
+          sheetEdits.links.delete(address);
+        }
+      };
+      const plannedValue = (row: number, col: number) => sheetEdits.cells.get(row)?.get(col)?.value;
+      const currentText = (row: number, col: number): string => {
+        const planned = sheetEdits.cells.get(row)?.get(col);
+        return planned ? cellValueToText(planned.value) : layout.rows.get(row)?.get(col)?.text ?? '';
+      };
+
+      const localeToCol = sheetCfg.targetColumns || {};
+      const targetIdxByLocale = resolveTargetColumns(sheet.name, sheetCfg, () => layout.headers, title => {
+        const idx = maxCol + 1;
+        write(headerRow, idx, title);
+        return idx;
+      });
+      checkAutoCreate(sheetCfg, sheet.name);
+      const autoCreated = new Map<string, number>();
+
+      for (const { unit: tu, text: finalText } of units) {
+        let row = tu.row;
+        if (isKeyed(sheetCfg, tu)) {
+          const found = layout.rowByKey.get(tu.key!);
+          if (found === undefined) {
+            report.missingKeys.push({ sheetName: sheet.name, key: tu.key!, unitId: tu.id });
+            continue;
+          }
+          row = found;
+        }
+        const srcColIdx = colLetterToIndex(tu.col);
+        for (const [loc, colRef] of unitLocales(tu, localeToCol, {}, config)) {
+          let targetIdx = targetIdxByLocale.get(loc) ?? autoCreated.get(`${loc}|${srcColIdx}`);
+          if (targetIdx === undefined) {
+            if (placement === 'insertAfterSource') {
+              throw new Error(`Locale '${loc}' on sheet '${sheet.name}' has no target column; streaming merge cannot insert one after the source column. Set insertTargetPlacement to 'appendToSheetEnd' or map the locale to a column.`);
+            }
+            targetIdx = colRef && colRef.trim() ? colLetterToIndex(colRef) : ++maxCol;
+            autoCreated.set(`${loc}|${srcColIdx}`, targetIdx);
+          }
+          if (!overwrite) continue;
+
+          const address = `${colIndexToLetter(targetIdx)}${row}`;
+          if (tu.kind === 'tooltip') {
+            if (finalText === '') continue;
+            // Onto the link written or kept on the target cell, or onto a copy of the source cell's link
+            const planned = plannedValue(row, targetIdx);
+            const kept = planned === undefined ? extras?.hyperlinks.get(address) : undefined;
+            const source = extras?.hyperlinks.get(`${tu.col.toUpperCase()}${row}`);
+            if (isHyperlinkValue(planned)) {
+              write(row, targetIdx, { ...planned, tooltip: finalText }, sheetEdits.cells.get(row)!.get(targetIdx)!.style);
+            } else if (kept) {
+              sheetEdits.links.set(address, { ...kept, tooltip: finalText });
+            } else if (source) {
+              write(row, targetIdx, { ...hyperlinkValue(currentText(row, srcColIdx), { url: source.url }, loc, sheetCfg), tooltip: finalText });
+            }
+            continue;
+          }
+
+          const formulaCodes = (tu.meta as any)?.formulaCodes as string[] | undefined;
+          const formulaError = formulaCodes && finalText !== '' ? formulaTextError(finalText, formulaCodes) : undefined;
+          if (formulaError) report.invalidFormulas.push({ sheetName: sheet.name, unitId: tu.id, locale: loc, reason: formulaError });
+          const value = formulaError ? sourceFormula(layout.rows.get(row)?.get(srcColIdx)?.formula) : targetValue(tu, finalText, loc, sheetCfg);
+          // The limit applies to the text written to the cell (rebuilt formulas have no text until Excel computes them)
+          const limit = layout.limits.get(row) ?? sheetCfg.maxCharsPerTarget?.[loc];
+          const length = value !== undefined && limit !== undefined ? charCount(cellValueToText(value)) : 0;
+          if (limit !== undefined && length > limit) {
+            report.tooLong.push({ sheetName: sheet.name, unitId: tu.id, locale: loc, length, limit });
+            if (config.global?.enforceMaxChars) continue;
+          }
+          if (value !== undefined) {
+            const style = sheetCfg.preserveStyles ? layout.rows.get(row)?.get(srcColIdx)?.style ?? null : undefined;
+            write(row, targetIdx, value, style);
+            if (formulaCodes) formulasRebuilt = true;
+          }
+          if (finalText !== '' && !formulaError) mergeState.set(stateKey(tu.id, loc), sourceHash(currentText(row, srcColIdx)));
+        }
+      }
+      maxCols.set(sheet, maxCol);
+      pending.set(sheet, pending.get(sheet)! - 1);
+      if (!pending.get(sheet)) unitsBySheet.delete(sheet.name);
+    }
+  }
+
+  // Tab names, headers/footers and document properties
+  const properties = new Map<string, string>();
+  if (overwrite) {
+    for (const { unit: tu, text } of partUnits) {
+      if (text === '') continue;
+      const part = tu.id.slice(tu.id.lastIndexOf('::') + 2);
+      if (tu.kind === 'property') {
+        properties.set(part.replace(/^prop:/, ''), text);
+        continue;
+      }
+      const sheet = sheets.find(s => s.name === tu.sheetName);
+      if (!sheet) continue;
+      if (tu.kind === 'sheetName') {
+        if (text !== sheet.name) throw new Error(`Sheet '${sheet.name}' would be renamed to '${text}', which streaming merge does not support.`);
+        continue;
+      }
+      editsOf(sheet).headerFooter.set(part.replace(/^hf:/, ''), text);
+    }
+  }
+  await writeProperties(zip, properties);
+
+  // Drawings are translated in place
+  for (const sheet of drawingSheets) {
+    if (sheet.part && drawingTexts.size) await translateDrawingParts(zip, sheet.part, sheet.name, drawingTexts);
+  }
+
+  let rewritten = false;
+  for (const [sheet, sheetEdits] of edits) {
+    const file = sheet.part ? zip.file(sheet.part) : null;
+    if (!file || (!sheetEdits.cells.size && !sheetEdits.links.size && !sheetEdits.headerFooter.size)) continue;
+    const linkIds = await addLinkRelationships(zip, sheet.part!, sheetEdits.links);
+    zip.file(sheet.part!, Readable.from(rewriteSheet(file, sheetEdits, linkIds, linkedOf.get(sheet) ?? new Set())));
+    rewritten = true;
+  }
+  edits.clear();
+  linkedOf.clear();
+  if (rewritten) await dropCalcChain(zip);
+  if (formulasRebuilt) await setFullCalcOnLoad(zip);
+  if (config.global?.mergeState === true) await writeStateSheet(zip, sheets, mergeState);
+
+  try {
+    await pipeline(zip.generateNodeStream({ type: 'nodebuffer', streamFiles: true, compression: 'DEFLATE' }) as any, fs.createWriteStream(outputXlsxPath));
+  } catch (e) {
+    await fs.promises.rm(outputXlsxPath, { force: true });
+    throw e;
+  }
+  return report;
+}
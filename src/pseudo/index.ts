@@ -10,7 +10,7 @@ const defaultMap: Record<string, string> = {
   a: 'ã', b: 'ƀ', c: 'ç', d: 'đ', e: 'ë', f: 'ƒ', g: 'ğ', h: 'ħ', i: 'ï', j: 'ĵ', k: 'ķ', l: 'ĺ', m: 'ɱ', n: 'ñ', o: 'ø', p: 'þ', q: 'ʠ', r: 'ř', s: 'š', t: 'ŧ', u: 'ü', v: 'ṽ', w: 'ŵ', x: 'ẋ', y: 'ÿ', z: 'ž',
 };
 
-const PLACEHOLDER_RE = /(\[\[ph:[^\]]+\]\]|\{\d+\}|%s)/g;
+const PLACEHOLDER_RE = /(\[\[ph:[^\]]+\]\]|\[\[\/?rt:\d+\]\]|\[\[fx:\d+\]\]|\{\d+\}|%s)/g;
 
 export function pseudoTransform(text: string, opts?: PseudoOptions): string {
   const wrap = opts?.wrap ?? { left: '⟦', right: '⟧' };
@@ -2,6 +2,7 @@ import fs from 'node:fs';
 import path from 'node:path';
 import { XMLParser } from 'fast-xml-parser';
 import { Config, Segment, TranslationUnit } from '../types.js';
+import { sheetConfigFor } from '../io/sheets.js';
 
 type SrxRule = { break: boolean; before: RegExp; after: RegExp };
 type SrxBundle = { rules: SrxRule[] };
@@ -11,8 +12,10 @@ function builtinRulesFor(lang: string): SrxBundle {
   const abbrev = /(Mr|Mrs|Ms|Dr|Prof|Sr|Jr|vs|etc)\.$/i;
   const before = /[.!?;]+\)?\”?\»?\s*$/; // punctuation possibly followed by closing token
   const after = /^\s*\(?\“?\«?[A-Z0-9]/; // next sentence likely starts with uppercase/number
+  const entity = /&(?:lt|gt|amp|quot|apos|#\d+|#x[0-9a-fA-F]+);$/; // escaped text of inline markup
   return {
     rules: [
+      { break: false, before: entity, after: /^/ },
       { break: true, before: new RegExp(before), after: new RegExp(after) },
       // no-break when abbreviation before
       { break: false, before: new RegExp(abbrev), after: new RegExp(after) },
@@ -97,34 +100,62 @@ function segmentTextByRules(text: string, bundle: SrxBundle): Segment[] {
 }
 
 function getLocaleForUnit(u: TranslationUnit, config: Config): string {
-  const sheetCfg = config.workbook.sheets.find(s => {
-    try { return new RegExp(s.namePattern).test(u.sheetName) || s.namePattern === u.sheetName; } catch { return s.namePattern === u.sheetName; }
-  });
+  const sheetCfg = sheetConfigFor(config, u);
   return sheetCfg?.sourceLocale || config.global?.srcLang || 'en';
 }
 
+function loadConfiguredSrx(config: Config): { map: { pattern: string; name: string }[]; rules: Record<string, SrxRule[]> } | null {
+  if (config.segmentation?.rules && typeof config.segmentation.rules === 'object' && config.segmentation.rules.srxPath) {
+    const p = path.resolve(config.segmentation.rules.srxPath);
+    try { return loadSrxFromFile(p); } catch { return null; }
+  }
+  return null;
+}
+
+function bundleForLocale(locale: string, srxRules: ReturnType<typeof loadConfiguredSrx>): SrxBundle {
+  if (srxRules) {
+    const set = pickRuleSetForLocale(locale, srxRules);
+    if (set && set.length) return { rules: set };
+  }
+  return builtinRulesFor(locale);
+}
+
 export function segmentUnits(units: TranslationUnit[], config: Config): TranslationUnit[] {
+  return units.map(unitSegmenter(config));
+}
+
+// Segments one unit at a time, for readers that produce units as they go; SRX rules are loaded once
+export function unitSegmenter(config: Config): (u: TranslationUnit) => TranslationUnit {
   const enabled = config.segmentation?.enabled !== false;
   if (!enabled) {
-    return units.map(u => ({ ...u, segments: [{ id: `${u.id}_s0`, source: u.source }] }));
+    return u => ({ ...u, segments: [{ id: `${u.id}_s0`, source: u.source }] });
   }
 
-  let srxRules: { map: { pattern: string; name: string }[]; rules: Record<string, SrxRule[]> } | null = null;
-  if (config.segmentation?.rules && typeof config.segmentation.rules === 'object' && config.segmentation.rules.srxPath) {
-    const p = path.resolve(config.segmentation.rules.srxPath);
-    try { srxRules = loadSrxFromFile(p); } catch { srxRules = null; }
-  }
+  const srxRules = loadConfiguredSrx(config);
+  return u => {
+    const bundle = bundleForLocale(getLocaleForUnit(u, config), srxRules);
+    const segs = segmentTextByRules(u.source, bundle).map((s, i) => ({ id: `${u.id}_s${i}`, source: s.source, start: s.start, end: s.end }));
+    return { ...u, segments: segs };
+  };
+}
 
+// Fill segment targets with the locale's existing translation (meta.existingTargets, see ExtractOptions.prefillTargets).
+// The target is segmented with the locale's rules and paired with the source segments; when the counts differ
+// the unit falls back to one segment holding the whole source and target.
+export function prefillTargets(units: TranslationUnit[], locale: string, config: Config): TranslationUnit[] {
+  const enabled = config.segmentation?.enabled !== false;
+  const bundle = enabled ? bundleForLocale(locale, loadConfiguredSrx(config)) : null;
   return units.map(u => {
-    const locale = getLocaleForUnit(u, config);
-    let bundle: SrxBundle | null = null;
-    if (srxRules) {
-      const set = pickRuleSetForLocale(locale, srxRules);
-      if (set && set.length) bundle = { rules: set };
+    const existing = u.meta?.existingTargets?.[locale] as string | undefined;
+    if (!existing) return u;
+    const sourceSegs = u.segments && u.segments.length ? u.segments : [{ id: `${u.id}_s0`, source: u.source }];
+    const targetSegs = bundle ? segmentTextByRules(existing, bundle) : [{ id: 's0', source: existing }];
+    if (targetSegs.length === sourceSegs.length) {
+      return { ...u, segments: sourceSegs.map((s, i) => ({ ...s, target: targetSegs[i].source, state: 'translated' as const })) };
     }
-    if (!bundle) bundle = builtinRulesFor(locale);
-
-    const segs = segmentTextByRules(u.source, bundle).map((s, i) => ({ id: `${u.id}_s${i}`, source: s.source, start: s.start, end: s.end }));
-    return { ...u, segments: segs };
+    return {
+      ...u,
+      segments: [{ id: `${u.id}_s0`, source: u.source, start: 0, end: u.source.length, target: existing, state: 'translated' as const }],
+    };
   });
 }
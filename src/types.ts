@@ -8,6 +8,7 @@ export type Segment = {
   id: string;
   source: string;
   target?: string;
+  state?: 'initial' | 'translated' | 'reviewed' | 'final'; // XLIFF 2 segment state; 'translated' when prefilled from the workbook
   start?: number;
   end?: number;
   meta?: { [k: string]: any };
@@ -15,10 +16,13 @@ export type Segment = {
 
 export type TranslationUnit = {
   id: string;
+  kind?: 'cell' | 'note' | 'validation' | 'tooltip' | 'sheetName' | 'headerFooter' | 'property' | 'shape' | 'chart'; // what the unit was extracted from; absent means a cell value
   sheetName: string;
+  sheetIndex?: number; // 1-based tab position of the sheet
   row: number;
   col: string; // letter
   colIndex: number; // 1-based
+  key?: string; // row key from SheetConfig.keyColumn; merge locates the row by it
   source: string;
   segments?: Segment[];
   richText?: boolean;
@@ -29,23 +33,96 @@ export type TranslationUnit = {
   meta?: { [k: string]: any };
 };
 
+// An extraction area: A1 range or defined name, with optional per-locale target column offsets
+export type RangeScope = {
+  ref: string;
+  targetOffsets?: { [locale: string]: number }; // target column = source column + offset, instead of targetColumns
+};
+
+// Colour in a do-not-translate rule: "#rrggbb", or a theme colour with optional tint
+export type DntColor = string | { theme: number; tint?: number };
+
+// Do-not-translate rule: a cell matches when every condition given holds
+export type DntRule = {
+  style?: string; // named cell style, e.g. "DNT" (case-insensitive)
+  strike?: boolean;
+  bold?: boolean;
+  italic?: boolean;
+  underline?: boolean;
+  fontColor?: DntColor;
+  fillColor?: DntColor;
+  action?: 'exclude' | 'lock'; // default 'exclude'; 'lock' exports the unit with translate="no"
+};
+
+// Content detection for SheetConfig.nonTranslatable; every detector is on unless set to false
+export type NonTranslatableConfig = {
+  numbers?: boolean; // numeric values and number-like text ("1,234.50", "15%")
+  dates?: boolean; // date values and date/time-like text
+  booleans?: boolean;
+  urls?: boolean;
+  emails?: boolean;
+  placeholders?: boolean; // text made only of placeholders/inline codes ("{0}", "%s", "{{name}}")
+  patterns?: string[]; // further regexes for codes such as SKUs, e.g. "^[A-Z]{3}-\\d{4}$"
+  action?: 'skip' | 'lock'; // default 'skip'; 'lock' exports the unit with translate="no"
+};
+
+// Extract a row only when the text of `column` (letter or header ref) satisfies the one condition given
+export type RowFilter = {
+  column: string;
+  equals?: string | string[];
+  notEquals?: string | string[];
+  regex?: string;
+  nonEmpty?: boolean;
+  ignoreCase?: boolean;
+};
+
 export type SheetConfig = {
-  namePattern: string; // exact or regex
-  sourceColumns: string[]; // letters or header names (MVP: letters)
-  targetColumns?: { [locale: string]: string | "" };
+  namePattern: string; // sheet name, "exact:", "glob:", "regex:" or "index:" pattern (see io/sheets.ts)
+  excludeSheets?: string[]; // patterns of sheets left out even though namePattern selects them
+  table?: string; // name of an Excel Table on the sheet; its header row and data rows replace headerRow/valuesStartRow
+  ranges?: (string | RangeScope)[]; // limit extraction and merge to these areas; empty sourceColumns means all their columns
+  sourceColumns: string[]; // letters or header refs: "Name", "header:Name", "header-ci:name", "header-regex:^Na"
+  targetColumns?: { [locale: string]: string | "" }; // same refs as sourceColumns; "" auto-creates
+  keyColumn?: string | string[]; // column ref(s) holding a unique row key; several refs form a composite key
   createTargetIfMissing?: boolean;
   headerRow?: number;
   valuesStartRow?: number;
+  skipHiddenSheets?: boolean; // default true: leave hidden and veryHidden sheets out
+  includeTabColors?: string[]; // only sheets whose tab has one of these colours ("#rrggbb")
+  excludeTabColors?: string[]; // leave out sheets whose tab has one of these colours
   skipHiddenRows?: boolean;
   skipHiddenColumns?: boolean;
   excludeColors?: string[];
+  doNotTranslate?: DntRule[]; // first matching rule decides; see io/dnt.ts
+  nonTranslatable?: boolean | NonTranslatableConfig; // true: every detector, skipping matches
   extractFormulaResults?: boolean;
+  translateFormulaStrings?: boolean; // extract string literals of formulas; merge writes a rebuilt formula
+  preserveRichText?: boolean; // default true: export differently formatted runs as inline codes
   preserveStyles?: boolean;
+  translateSheetName?: boolean; // extract the tab name (id: <sheet>::sheetName); merge renames the sheet and its references
+  translateHeaderFooter?: boolean; // extract page header/footer text (id: <sheet>::hf:oddHeader, ...)
+  translateDrawings?: boolean; // extract shape/text box text and chart titles (id: <sheet>::shape:3, <sheet>::chart:4:title)
   translateComments?: boolean;
+  notes?: {
+    translate?: boolean; // extract cell notes of source cells as separate units (id: <cell id>::note)
+    mergeInto?: 'target' | 'source'; // default 'target'; 'source' rewrites the note on the source cell (per-locale copies)
+  };
+  dataValidation?: {
+    translate?: boolean; // extract prompt/error titles and messages of source cells (id: <cell id>::dv:prompt, ...)
+    listValues?: boolean; // default true: also extract inline dropdown values (id: <cell id>::dv:list:0, ...)
+    mergeInto?: 'target' | 'source'; // default 'target'; 'source' rewrites the validation of the source cell
+  };
+  hyperlinks?: {
+    tooltips?: boolean; // default true: extract screen tips of hyperlink cells (id: <cell id>::tooltip)
+    urlRewrites?: { [locale: string]: { pattern: string; replacement: string }[] }; // regex rules applied to the address on merge
+  };
   treatMergedRegions?: "top-left" | "expand" | "skip";
-  maxCharsPerTarget?: { [locale: string]: number };
+  maxCharsPerTarget?: { [locale: string]: number }; // fallback character limit of cell targets per locale
+  maxCharsColumn?: string; // column ref holding a per-row character limit for all locales
   metadataRows?: number[];
+  contextColumns?: { [columnRef: string]: string }; // column ref → XLIFF note category for same-row context, e.g. { C: "description" }
   excludedRows?: number[];
+  rowFilters?: RowFilter[]; // all rules must pass
   excludedColumns?: string[];
   inlineCodeRegexes?: string[];
   sourceLocale?: string;
@@ -57,6 +134,7 @@ export type SheetConfig = {
 
 export type WorkbookConfig = {
   sheets: SheetConfig[];
+  translateProperties?: boolean | string[]; // document properties as units (id: workbook::prop:title); true = title, subject, keywords, description, category
 };
 
 export type SegConfig = {
@@ -72,6 +150,27 @@ export type GlobalConfig = {
   exportComments?: boolean; // include comments/header/metadata in XLIFF notes
   mergeFallback?: 'source' | 'empty'; // when a segment target is missing: use source or leave empty
   xliffVersion?: '1.2' | '2.1'; // XLIFF version for export, default 2.1
+  enforceMaxChars?: boolean; // merge leaves targets over their character limit unwritten (always listed in MergeReport.tooLong)
+  mergeState?: boolean; // default false: when true, merge records source hashes in a very hidden sheet (_l10n_state) to detect stale targets
+};
+
+export type ExtractOptions = {
+  log?: (message: string) => void; // verbose diagnostics, e.g. rows skipped by rowFilters
+  warn?: (message: string) => void; // results that are probably not what was meant, e.g. onlyUntranslated without merge state
+  onlyUntranslated?: boolean; // emit only cells whose target is empty or stale (stale needs global.mergeState at merge); units list them in meta.untranslatedLocales
+  prefillTargets?: boolean; // keep existing target cell texts in meta.existingTargets for prefillTargets(units, locale, config)
+  signal?: AbortSignal; // streaming extraction: stop with the signal's reason once it is aborted
+  onProgress?: (progress: ExtractProgress) => void; // streaming extraction: called for every row read and at the end of each sheet
+};
+
+// Where streaming extraction is: the sheet and row just read, and the share of the selected sheets' rows read so far
+export type ExtractProgress = { sheet: string; row: number; percent: number };
+
+export type MergeReport = {
+  missingKeys: { sheetName: string; key: string; unitId: string }[];
+  tooLong: { sheetName: string; unitId: string; locale: string; length: number; limit: number }[]; // over the character limit
+  invalidFormulas: { sheetName: string; unitId: string; locale: string; reason: string }[]; // formula strings that could not be rebuilt; the target gets the source formula
+  invalidListValues: { sheetName: string; unitId: string; locale: string; reason: string }[]; // dropdown list values that could not be written; the list keeps the source value
 };
 
 export type Config = { workbook: WorkbookConfig; segmentation?: SegConfig; global?: GlobalConfig };
@@ -19,10 +19,32 @@ export function colLetterToIndex(s: string): number {
   return n;
 }
 
+// Plain text of an ExcelJS cell value (rich text runs joined, formula result used, hyperlink display text)
+export function cellValueToText(v: any): string {
+  if (v == null) return '';
+  if (typeof v === 'object' && 'richText' in v) return (v.richText as any[]).map(rt => rt.text).join('');
+  if (typeof v === 'object' && 'formula' in v) return typeof v.result === 'string' ? v.result : String(v.result ?? '');
+  if (typeof v === 'object' && 'hyperlink' in v) return cellValueToText(v.text);
+  return typeof v === 'string' ? v : String(v);
+}
+
 export function makeTuId(sheetName: string, row: number, colLetter: string): string {
   return `${encodeURIComponent(sheetName)}::R${row}C${colLetter.toUpperCase()}`;
 }
 
+// Row-independent id: survives sorting and row inserts. The source column ref keeps ids unique per row.
+export function makeKeyTuId(sheetName: string, key: string, sourceRef: string): string {
+  return `${encodeURIComponent(sheetName)}::K:${encodeURIComponent(key)}:${encodeURIComponent(sourceRef)}`;
+}
+
+// Units of an --only-untranslated extract that need work in `locale`
+export function filterUnitsForLocale(units: TranslationUnit[], locale: string): TranslationUnit[] {
+  return units.filter(u => {
+    const pending = (u.meta as any)?.untranslatedLocales as string[] | undefined;
+    return !pending || pending.includes(locale);
+  });
+}
+
 export function compactUnits(units: TranslationUnit[]): TranslationUnit[] {
   return units.map(u => ({ ...u, meta: undefined }));
 }
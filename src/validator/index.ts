@@ -1,11 +1,11 @@
 import fs from 'node:fs';
 import path from 'node:path';
-import { parseTranslated } from '../index.js';
+import { parseTranslated, parseTranslatedStream } from '../index.js';
 import type { TranslationUnit } from '../types.js';
 
 export type ValidateOptions = {
   lengthFactor?: number; // default 2
-  formatOverride?: 'xlf' | 'json';
+  formatOverride?: 'xlf' | 'json' | 'jsonl';
 };
 
 export type Finding = { level: 'error' | 'warn' | 'info'; message: string; unitId?: string; locale?: string };
@@ -28,9 +28,26 @@ function listIcuCategories(s: string): string[] {
   return Array.from(cats).sort();
 }
 
+// Target length in code points with placeholders restored; segments are joined by one space
+function targetLength(u: TranslationUnit, segs: { id: string; target?: string }[]): number {
+  const placeholders: Record<string, Record<string, string>> = u.meta?.placeholders || {};
+  const text = segs
+    .map(s => String(s.target ?? '').replace(/\[\[ph:([^\]]+)\]\]/g, (m, id) => placeholders[s.id]?.[id] ?? m))
+    .join(' ');
+  return Array.from(text).length;
+}
+
 function validateUnit(u: TranslationUnit, opts: ValidateOptions, locale?: string): Finding[] {
   const out: Finding[] = [];
+  // locked (do-not-translate) units are merged from their source; nothing to check
+  if (u.meta?.locked) return out;
   const segs = (u.segments && u.segments.length) ? u.segments : [{ id: `${u.id}_s0`, source: u.source, target: (u as any).target }];
+  // character limit from slr:sizeRestriction / maxwidth (or meta.maxChars in JSON)
+  const limit = u.meta?.maxChars as number | undefined;
+  if (limit) {
+    const length = targetLength(u, segs);
+    if (length > limit) out.push({ level: 'error', message: `Target of ${u.id} has ${length} characters, limit is ${limit}`, unitId: u.id, locale });
+  }
   for (const s of segs) {
     const src = s.source ?? '';
     const tgt = s.target ?? '';
@@ -64,10 +81,15 @@ export async function validateFiles(files: string[], opts: ValidateOptions): Pro
   const items: Finding[] = [];
   for (const fp of files) {
     try {
+      const fmt = opts.formatOverride || (/\.jsonl$/i.test(fp) ? 'jsonl' : /\.json$/i.test(fp) ? 'json' : 'xlf');
+      if (fmt !== 'xlf') {
+        // JSON handoffs are checked unit by unit as they are read
+        for await (const u of parseTranslatedStream(fp, fmt)) items.push(...validateUnit(u, opts));
+        continue;
+      }
       const raw = fs.readFileSync(fp, 'utf-8');
-      const fmt = opts.formatOverride || (/(\.json)$/i.test(fp) ? 'json' : 'xlf');
       const units = parseTranslated(raw, fmt);
-      const locale = detectTargetLocale(raw, fmt);
+      const locale = detectTargetLocale(raw);
       for (const u of units) {
         items.push(...validateUnit(u, opts, locale));
       }
@@ -78,9 +100,8 @@ export async function validateFiles(files: string[], opts: ValidateOptions): Pro
   return { items };
 }
 
-function detectTargetLocale(raw: string, fmt: 'xlf' | 'json'): string | undefined {
+function detectTargetLocale(raw: string): string | undefined {
   try {
-    if (fmt === 'json') return undefined;
     const m = raw.match(/\btrgLang="([^"]+)"/);
     return m?.[1];
   } catch { return undefined; }
@@ -0,0 +1,93 @@
+import path from 'node:path';
+import fs from 'node:fs';
+import ExcelJS from 'exceljs';
+import { extract, exportUnitsToXliff, merge, parseTranslated } from '../src/index';
+import { validateFiles } from '../src/validator/index';
+import type { Config, TranslationUnit } from '../src/types';
+
+const tmpDir = path.join(process.cwd(), '.out');
+
+function cfg(global: Config['global'] = {}): Config {
+  return {
+    global: { srcLang: 'en', ...global },
+    workbook: {
+      sheets: [{ namePattern: 'UI', sourceColumns: ['Source'], targetColumns: { fr: 'C' }, maxCharsColumn: 'Max length', maxCharsPerTarget: { fr: 12 } }],
+    },
+  };
+}
+
+async function makeBook(limit: string | number = 10): Promise<string> {
+  const wb = new ExcelJS.Workbook();
+  const ws = wb.addWorksheet('UI');
+  ws.addRow(['Source', 'Max length', 'French']);
+  ws.addRow(['Save', limit]);
+  ws.addRow(['Cancel the order']);
+  const out = path.join(tmpDir, 'char-limits.xlsx');
+  await wb.xlsx.writeFile(out);
+  return out;
+}
+
+const fr: Record<string, string> = { Save: 'Enregistrer', 'Cancel the order': 'Annuler' };
+
+async function translated(input: string, config: Config): Promise<{ xlf: string; units: TranslationUnit[] }> {
+  const xlf = await exportUnitsToXliff(await extract(input, config), config, { trgLang: 'fr' });
+  const units = parseTranslated(xlf, 'xlf');
+  for (const tu of units) tu.segments = tu.segments!.map(s => ({ ...s, target: fr[s.source] }));
+  return { xlf, units };
+}
+
+describe('character limits', () => {
+  beforeAll(() => { if (!fs.existsSync(tmpDir)) fs.mkdirSync(tmpDir, { recursive: true }); });
+
+  it('exports per-row limits with the locale limit as fallback', async () => {
+    const input = await makeBook();
+    const config = cfg();
+    expect((await extract(input, config)).map(u => u.meta?.maxChars)).toEqual([10, undefined]);
+
+    const { xlf, units } = await translated(input, config);
+    expect(xlf).toContain('xmlns:slr="urn:oasis:names:tc:xliff:sizerestriction:2.0"');
+    expect(xlf).toContain('<slr:profiles generalProfile="xliff:codepoints"/>');
+    expect(xlf).toContain('<unit id="UI::R2CA" slr:sizeRestriction="10">');
+    expect(xlf).toContain('<unit id="UI::R3CA" slr:sizeRestriction="12">');
+    expect(units.map(u => u.meta?.maxChars)).toEqual([10, 12]);
+
+    const xlf12 = await exportUnitsToXliff(await extract(input, cfg({ xliffVersion: '1.2' })), cfg({ xliffVersion: '1.2' }), { trgLang: 'fr' });
+    expect(xlf12).toContain('<unit id="UI::R2CA" maxwidth="10" size-unit="char">');
+    expect(xlf12).not.toContain('slr:');
+  });
+
+  it('reports targets over the limit in the validator', async () => {
+    const input = await makeBook();
+    const { units } = await translated(input, cfg());
+    const file = path.join(tmpDir, 'char-limits.fr.json');
+    fs.writeFileSync(file, JSON.stringify({ units }));
+    const report = await validateFiles([file], {});
+    expect(report.items.filter(i => i.message.includes('limit'))).toEqual([
+      { level: 'error', message: 'Target of UI::R2CA has 11 characters, limit is 10', unitId: 'UI::R2CA', locale: undefined },
+    ]);
+  });
+
+  it('lists long targets on merge and optionally leaves them unwritten', async () => {
+    const input = await makeBook();
+    const out = path.join(tmpDir, 'char-limits.fr.xlsx');
+    const read = async () => {
+      const wb = new ExcelJS.Workbook();
+      await wb.xlsx.readFile(out);
+      return wb.getWorksheet('UI')!;
+    };
+
+    const lenient = await merge(input, out, (await translated(input, cfg())).units, cfg());
+    expect(lenient.tooLong).toEqual([{ sheetName: 'UI', unitId: 'UI::R2CA', locale: 'fr', length: 11, limit: 10 }]);
+    expect((await read()).getCell('C2').value).toBe('Enregistrer');
+
+    const strict = await merge(input, out, (await translated(input, cfg())).units, cfg({ enforceMaxChars: true }));
+    expect(strict.tooLong).toHaveLength(1);
+    expect((await read()).getCell('C2').value).toBeNull();
+    expect((await read()).getCell('C3').value).toBe('Annuler');
+  });
+
+  it('rejects limits that are not positive whole numbers', async () => {
+    const input = await makeBook('ten');
+    await expect(extract(input, cfg())).rejects.toThrow("Invalid character limit 'ten' in column B at row 2 on sheet 'UI'.");
+  });
+});
@@ -0,0 +1,114 @@
+import path from 'node:path';
+import fs from 'node:fs';
+import ExcelJS from 'exceljs';
+import { extract, merge } from '../src/index';
+import { extractStreamWorkbook } from '../src/io/stream';
+import { parseColumnRef } from '../src/io/columns';
+import type { Config, TranslationUnit } from '../src/types';
+
+const tmpDir = path.join(process.cwd(), '.out');
+
+async function makeBook(file: string, headers: string[]): Promise<string> {
+  const wb = new ExcelJS.Workbook();
+  const ws = wb.addWorksheet('Strings');
+  headers.forEach((h, i) => { ws.getCell(1, i + 1).value = h; });
+  const src = headers.indexOf('English') + 1;
+  ws.getCell(2, src).value = 'Hello';
+  ws.getCell(3, src).value = 'Goodbye';
+  const out = path.join(tmpDir, file);
+  await wb.xlsx.writeFile(out);
+  return out;
+}
+
+function cfg(sourceColumns: string[], targetColumns?: Record<string, string>): Config {
+  return {
+    global: { srcLang: 'en', insertTargetPlacement: 'appendToSheetEnd' },
+    workbook: { sheets: [{ namePattern: 'Strings', sourceColumns, targetColumns, headerRow: 1, valuesStartRow: 2 }] },
+  };
+}
+
+describe('header-name column references', () => {
+  beforeAll(() => { if (!fs.existsSync(tmpDir)) fs.mkdirSync(tmpDir, { recursive: true }); });
+
+  it('parses letters, bare header names and prefixed modes', () => {
+    expect(parseColumnRef('b')).toEqual({ raw: 'b', mode: 'letter', value: 'B' });
+    expect(parseColumnRef('Source Text').mode).toBe('exact');
+    expect(parseColumnRef('header:Key')).toEqual({ raw: 'header:Key', mode: 'exact', value: 'Key' });
+    expect(parseColumnRef('header-ci:english').mode).toBe('ci');
+    expect(parseColumnRef('header-regex:^Eng').mode).toBe('regex');
+  });
+
+  it('finds the source column by header after columns are inserted', async () => {
+    const a = await makeBook('hdr-a.xlsx', ['Key', 'English', 'French']);
+    const b = await makeBook('hdr-b.xlsx', ['Key', 'Notes', 'Screen', 'English', 'French']);
+    for (const ref of ['English', 'header-ci: ENGLISH ', 'header-regex:^Eng']) {
+      const ua = await extract(a, cfg([ref]));
+      const ub = await extract(b, cfg([ref]));
+      expect(ua.map(u => u.id)).toEqual(['Strings::R2CB', 'Strings::R3CB']);
+      expect(ub.map(u => u.id)).toEqual(['Strings::R2CD', 'Strings::R3CD']);
+      expect(ub[0].meta?.headerName).toBe('English');
+    }
+  });
+
+  it('merges into a target column resolved by header', async () => {
+    const input = await makeBook('hdr-merge.xlsx', ['Key', 'English', 'Notes', 'French']);
+    const config = cfg(['English'], { fr: 'header:French', de: 'German' });
+    const units: TranslationUnit[] = (await extract(input, config)).map(u => ({
+      ...u,
+      segments: (u.segments || []).map(s => ({ ...s, target: `[${s.source}]` })),
+    }));
+    const out = path.join(tmpDir, 'hdr-merge.out.xlsx');
+    await merge(input, out, units, config);
+
+    const wb = new ExcelJS.Workbook();
+    await wb.xlsx.readFile(out);
+    const ws = wb.getWorksheet('Strings')!;
+    expect(ws.getCell('D2').value).toBe('[Hello]');
+    // missing exact header is created at the sheet end
+    expect(ws.getCell('E1').value).toBe('German');
+    expect(ws.getCell('E3').value).toBe('[Goodbye]');
+  });
+
+  it('keeps letter references as column letters and finds short header names by prefix', async () => {
+    const wb = new ExcelJS.Workbook();
+    const ws = wb.addWorksheet('Strings');
+    ws.addRow(['Id', 'EN', 'FR', 'B']);
+    ws.addRow(['save', 'Save']);
+    ws.addRow(['close', 'Close']);
+    const input = path.join(tmpDir, 'hdr-short.xlsx');
+    await wb.xlsx.writeFile(input);
+
+    // a header with the text "B" does not move column B
+    expect((await extract(input, cfg(['B']))).map(u => u.source)).toEqual(['Save', 'Close']);
+
+    const config = cfg(['header:EN'], { fr: 'header:FR' });
+    config.workbook.sheets[0].keyColumn = 'header:Id';
+    const units = await extract(input, config);
+    expect(units.map(u => u.source)).toEqual(['Save', 'Close']);
+    const streamed: TranslationUnit[] = [];
+    for await (const u of extractStreamWorkbook(input, config)) streamed.push(u);
+    expect(streamed).toEqual(units);
+
+    const out = path.join(tmpDir, 'hdr-short.out.xlsx');
+    await merge(input, out, units.map(u => ({ ...u, segments: u.segments!.map(s => ({ ...s, target: `[${s.source}]` })) })), config);
+    const merged = new ExcelJS.Workbook();
+    await merged.xlsx.readFile(out);
+    expect(['C2', 'C3'].map(a => merged.getWorksheet('Strings')!.getCell(a).value)).toEqual(['[Save]', '[Close]']);
+  });
+
+  it('reports missing and duplicate headers', async () => {
+    const input = await makeBook('hdr-dup.xlsx', ['English', 'English (UK)', 'French']);
+    await expect(extract(input, cfg(['Spanish']))).rejects.toThrow(/'Spanish' not found in row 1 on sheet 'Strings'/);
+    await expect(extract(input, cfg(['header-regex:^English']))).rejects.toThrow(/matches multiple columns \(A, B\)/);
+
+    const config = cfg(['English'], { fr: 'header-ci:spanish' });
+    await expect(merge(input, path.join(tmpDir, 'hdr-dup.out.xlsx'), [], config)).rejects.toThrow(/Target column 'header-ci:spanish' for locale 'fr' not found/);
+  });
+
+  it('resolves header names in the streaming reader', async () => {
+    const input = await makeBook('hdr-stream.xlsx', ['Key', 'Notes', 'English']);
+    const ids: string[] = [];
+    for await (const u of extractStreamWorkbook(input, cfg(['English']))) ids.push(u.id);
+    expect(ids).toEqual(['Strings::R2CC', 'Strings::R3CC']);
+  });
+});
@@ -1,4 +1,6 @@
 import path from 'node:path';
+import fs from 'node:fs';
+import os from 'node:os';
 import { parseConfig } from '../src/config/index';
 
 test('parses YAML config and applies defaults', () => {
@@ -9,3 +11,14 @@ test('parses YAML config and applies defaults', () => {
   expect(s0.createTargetIfMissing).toBe(true);
   expect(s0.treatMergedRegions).toBe('top-left');
 });
+
+test('allows empty sourceColumns only together with ranges', () => {
+  const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'cfg-'));
+  const write = (sheet: object) => {
+    const p = path.join(dir, 'config.json');
+    fs.writeFileSync(p, JSON.stringify({ workbook: { sheets: [{ namePattern: 'UI', ...sheet }] } }));
+    return p;
+  };
+  expect(parseConfig(write({ sourceColumns: [], ranges: ['B2:B9', { ref: 'Dialogs', targetOffsets: { fr: 2 } }] })).workbook.sheets[0].ranges).toHaveLength(2);
+  expect(() => parseConfig(write({ sourceColumns: [] }))).toThrow();
+});
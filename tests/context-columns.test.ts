@@ -0,0 +1,60 @@
+import path from 'node:path';
+import fs from 'node:fs';
+import ExcelJS from 'exceljs';
+import { extract, exportUnitsToJson, exportUnitsToXliff } from '../src/index';
+import { extractStreamWorkbook } from '../src/io/stream';
+import { exportToXliffStreamFromIterator } from '../src/exporter/xliff_stream';
+import type { Config } from '../src/types';
+
+const tmpDir = path.join(process.cwd(), '.out');
+
+const config: Config = {
+  global: { srcLang: 'en' },
+  workbook: {
+    sheets: [{ namePattern: 'UI', sourceColumns: ['Source'], contextColumns: { Description: 'description', C: 'screen' } }],
+  },
+};
+
+async function makeBook(): Promise<string> {
+  const wb = new ExcelJS.Workbook();
+  const ws = wb.addWorksheet('UI');
+  ws.addRow(['Source', 'Description', 'Screen']);
+  ws.addRow(['Save', 'Button that stores the draft', 'Editor']);
+  ws.addRow(['Close', '', 'Dialog & menu']);
+  const out = path.join(tmpDir, 'context-columns.xlsx');
+  await wb.xlsx.writeFile(out);
+  return out;
+}
+
+describe('context columns', () => {
+  beforeAll(() => { if (!fs.existsSync(tmpDir)) fs.mkdirSync(tmpDir, { recursive: true }); });
+
+  it('exports same-row values as notes in XLIFF and JSON', async () => {
+    const input = await makeBook();
+    const units = await extract(input, config);
+    expect(units.map(u => u.meta?.context)).toEqual([
+      { description: 'Button that stores the draft', screen: 'Editor' },
+      { screen: 'Dialog & menu' },
+    ]);
+    const xlf = await exportUnitsToXliff(units, config);
+    expect(xlf).toContain('<note category="description">Button that stores the draft</note><note category="screen">Editor</note>');
+    expect(xlf).toContain('<note category="screen">Dialog &amp; menu</note>');
+    const json = JSON.parse(await exportUnitsToJson(units, config));
+    expect(json.units[0].meta.context).toEqual({ description: 'Button that stores the draft', screen: 'Editor' });
+  });
+
+  it('exports the same notes from the streaming extractor', async () => {
+    const input = await makeBook();
+    const out = path.join(tmpDir, 'context-columns.stream.xlf');
+    await exportToXliffStreamFromIterator(extractStreamWorkbook(input, config), config, {}, out);
+    const xlf = fs.readFileSync(out, 'utf-8');
+    expect(xlf).toContain('<note category="description">Button that stores the draft</note><note category="screen">Editor</note>');
+    expect(xlf).toContain('<note category="screen">Dialog &amp; menu</note>');
+  });
+
+  it('rejects categories the exporter reserves', async () => {
+    const input = await makeBook();
+    const bad: Config = { ...config, workbook: { sheets: [{ ...config.workbook.sheets[0], contextColumns: { C: 'ph' } }] } };
+    await expect(extract(input, bad)).rejects.toThrow("Context column 'C' on sheet 'UI' needs a note category other than 'ph'.");
+  });
+});
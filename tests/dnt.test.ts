@@ -0,0 +1,87 @@
+import path from 'node:path';
+import fs from 'node:fs';
+import ExcelJS from 'exceljs';
+import JSZip from 'jszip';
+import { extract, extractStream, exportUnitsToXliff, merge, parseTranslated } from '../src/index';
+import type { TranslationUnit } from '../src/types';
+import type { Config, DntRule } from '../src/types';
+
+const tmpDir = path.join(process.cwd(), '.out');
+
+function cfg(doNotTranslate: DntRule[]): Config {
+  return { global: { srcLang: 'en' }, workbook: { sheets: [{ namePattern: 'UI', sourceColumns: ['A'], targetColumns: { fr: 'B' }, doNotTranslate }] } };
+}
+
+// ExcelJS cannot write named cell styles, so the "DNT" style of A2 is added to the package afterwards
+async function makeBook(): Promise<string> {
+  const wb = new ExcelJS.Workbook();
+  const ws = wb.addWorksheet('UI');
+  ws.addRow(['Source']);
+  ws.addRow(['ACME Cloud']);
+  ws.addRow(['Old label']);
+  ws.addRow(['Settings']);
+  ws.addRow(['Save']);
+  ws.getCell('A2').font = { name: 'Calibri', size: 11, italic: true };
+  ws.getCell('A3').font = { strike: true };
+  ws.getCell('A4').font = { color: { theme: 1, tint: -0.25 } as any };
+  const zip = await JSZip.loadAsync(await wb.xlsx.writeBuffer());
+  const sheet = await zip.file('xl/worksheets/sheet1.xml')!.async('string');
+  const xf = Number(/<c r="A2" s="(\d+)"/.exec(sheet)![1]);
+  let styles = await zip.file('xl/styles.xml')!.async('string');
+  styles = styles
+    .replace(/<cellStyleXfs count="1">(.*?)<\/cellStyleXfs>/, '<cellStyleXfs count="2">$1<xf numFmtId="0" fontId="0" fillId="0" borderId="0"/></cellStyleXfs>')
+    .replace(/<cellStyles count="1">(.*?)<\/cellStyles>/, '<cellStyles count="2">$1<cellStyle name="DNT" xfId="1"/></cellStyles>');
+  let n = -1;
+  styles = styles.replace(/<cellXfs count="\d+">[\s\S]*?<\/cellXfs>/, xfs => xfs.replace(/<xf ([^>]*?)xfId="0"/g, (m, attrs) => (++n === xf ? `<xf ${attrs}xfId="1"` : m)));
+  zip.file('xl/styles.xml', styles);
+  const out = path.join(tmpDir, 'dnt.xlsx');
+  fs.writeFileSync(out, await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' }));
+  return out;
+}
+
+describe('do-not-translate rules', () => {
+  beforeAll(() => { if (!fs.existsSync(tmpDir)) fs.mkdirSync(tmpDir, { recursive: true }); });
+
+  it('excludes cells by named style, strikethrough and theme colour', async () => {
+    const input = await makeBook();
+    const sources = async (rules: DntRule[]) => (await extract(input, cfg(rules))).map(u => u.source);
+    expect(await sources([{ style: 'dnt' }])).toEqual(['Old label', 'Settings', 'Save']);
+    expect(await sources([{ strike: true }])).toEqual(['ACME Cloud', 'Settings', 'Save']);
+    expect(await sources([{ fontColor: { theme: 1 } }])).toEqual(['ACME Cloud', 'Old label', 'Save']);
+    expect(await sources([{ fontColor: { theme: 1, tint: 0.4 } }])).toHaveLength(4);
+  });
+
+  it('exports locked units and merges their source', async () => {
+    const input = await makeBook();
+    const config = cfg([{ style: 'DNT', action: 'lock' }, { strike: true }]);
+    const units = await extract(input, config);
+    expect(units.map(u => [u.source, u.meta?.locked])).toEqual([['ACME Cloud', true], ['Settings', undefined], ['Save', undefined]]);
+
+    const xlf = await exportUnitsToXliff(units, config, { trgLang: 'fr' });
+    expect(xlf).toContain('<unit id="UI::R2CA" translate="no">');
+    const parsed = parseTranslated(xlf, 'xlf');
+    expect(parsed[0].meta?.locked).toBe(true);
+    for (const tu of parsed) tu.segments = tu.segments!.map(s => ({ ...s, target: `FR ${s.source}` }));
+
+    const out = path.join(tmpDir, 'dnt.fr.xlsx');
+    await merge(input, out, parsed, config);
+    const wb = new ExcelJS.Workbook();
+    await wb.xlsx.readFile(out);
+    const ws = wb.getWorksheet('UI')!;
+    expect([2, 3, 4].map(r => ws.getCell(r, 2).value)).toEqual(['ACME Cloud', null, 'FR Settings']);
+  });
+
+  it('reads named styles row by row when streaming', async () => {
+    const input = await makeBook();
+    for (const rules of [[{ style: 'dnt' }], [{ style: 'DNT', action: 'lock' as const }, { strike: true }]]) {
+      const streamed: TranslationUnit[] = [];
+      for await (const u of extractStream(input, cfg(rules))) streamed.push(u);
+      expect(streamed).toEqual(await extract(input, cfg(rules)));
+    }
+    // Stopping early leaves nothing pending
+    for await (const u of extractStream(input, cfg([{ style: 'DNT', action: 'lock' }]))) {
+      expect(u.meta?.locked).toBe(true);
+      break;
+    }
+  });
+});
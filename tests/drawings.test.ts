@@ -0,0 +1,115 @@
+import path from 'node:path';
+import fs from 'node:fs';
+import ExcelJS from 'exceljs';
+import JSZip from 'jszip';
+import { extract, merge } from '../src/index';
+import type { Config } from '../src/types';
+
+const tmpDir = path.join(process.cwd(), '.out');
+
+const config: Config = {
+  global: { srcLang: 'en' },
+  workbook: { sheets: [{ namePattern: 'Dashboard', sourceColumns: ['A'], targetColumns: { fr: 'B' }, translateDrawings: true, translateSheetName: true }] },
+};
+
+const A = 'xmlns:a="http://schemas.openxmlformats.org/drawingml/2006/main"';
+const R = 'xmlns:r="http://schemas.openxmlformats.org/officeDocument/2006/relationships"';
+const rich = (text: string) => `<c:tx><c:rich><a:bodyPr/><a:p><a:r><a:rPr b="1"/><a:t>${text}</a:t></a:r></a:p></c:rich></c:tx>`;
+
+const drawingXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<xdr:wsDr xmlns:xdr="http://schemas.openxmlformats.org/drawingml/2006/spreadsheetDrawing" ${A}>
+<xdr:twoCellAnchor><xdr:from><xdr:col>3</xdr:col><xdr:colOff>0</xdr:colOff><xdr:row>1</xdr:row><xdr:rowOff>0</xdr:rowOff></xdr:from><xdr:to><xdr:col>6</xdr:col><xdr:colOff>0</xdr:colOff><xdr:row>4</xdr:row><xdr:rowOff>0</xdr:rowOff></xdr:to>
+<xdr:sp macro="" textlink=""><xdr:nvSpPr><xdr:cNvPr id="2" name="TextBox 1"/><xdr:cNvSpPr txBox="1"/></xdr:nvSpPr><xdr:spPr/>
+<xdr:txBody><a:bodyPr/><a:lstStyle/><a:p><a:r><a:rPr lang="en-US" b="1"/><a:t>Sales &amp; returns</a:t></a:r></a:p><a:p><a:r><a:rPr lang="en-US"/><a:t>Updated </a:t></a:r><a:r><a:rPr lang="en-US" i="1"/><a:t>weekly</a:t></a:r></a:p></xdr:txBody></xdr:sp>
+<xdr:clientData/></xdr:twoCellAnchor>
+<xdr:twoCellAnchor><xdr:from><xdr:col>3</xdr:col><xdr:colOff>0</xdr:colOff><xdr:row>5</xdr:row><xdr:rowOff>0</xdr:rowOff></xdr:from><xdr:to><xdr:col>6</xdr:col><xdr:colOff>0</xdr:colOff><xdr:row>6</xdr:row><xdr:rowOff>0</xdr:rowOff></xdr:to>
+<xdr:sp macro="" textlink="$A$1"><xdr:nvSpPr><xdr:cNvPr id="3" name="Linked"/><xdr:cNvSpPr/></xdr:nvSpPr><xdr:spPr/>
+<xdr:txBody><a:bodyPr/><a:p><a:r><a:t>Month</a:t></a:r></a:p></xdr:txBody></xdr:sp><xdr:clientData/></xdr:twoCellAnchor>
+<xdr:twoCellAnchor><xdr:from><xdr:col>3</xdr:col><xdr:colOff>0</xdr:colOff><xdr:row>7</xdr:row><xdr:rowOff>0</xdr:rowOff></xdr:from><xdr:to><xdr:col>9</xdr:col><xdr:colOff>0</xdr:colOff><xdr:row>20</xdr:row><xdr:rowOff>0</xdr:rowOff></xdr:to>
+<xdr:graphicFrame macro=""><xdr:nvGraphicFramePr><xdr:cNvPr id="4" name="Chart 3"/><xdr:cNvGraphicFramePr/></xdr:nvGraphicFramePr><xdr:xfrm><a:off x="0" y="0"/><a:ext cx="0" cy="0"/></xdr:xfrm>
+<a:graphic><a:graphicData uri="http://schemas.openxmlformats.org/drawingml/2006/chart"><c:chart xmlns:c="http://schemas.openxmlformats.org/drawingml/2006/chart" ${R} r:id="rId1"/></a:graphicData></a:graphic></xdr:graphicFrame>
+<xdr:clientData/></xdr:twoCellAnchor>
+</xdr:wsDr>`;
+
+const chartXml = `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>
+<c:chartSpace xmlns:c="http://schemas.openxmlformats.org/drawingml/2006/chart" ${A} ${R}><c:chart>
+<c:title>${rich('Revenue by month')}<c:overlay val="0"/></c:title><c:autoTitleDeleted val="0"/>
+<c:plotArea><c:layout/><c:barChart><c:barDir val="col"/><c:grouping val="clustered"/>
+<c:ser><c:idx val="0"/><c:order val="0"/><c:tx><c:strRef><c:f>Dashboard!$A$1</c:f></c:strRef></c:tx><c:val><c:numRef><c:f>Dashboard!$C$2:$C$3</c:f></c:numRef></c:val></c:ser>
+<c:axId val="101"/><c:axId val="102"/></c:barChart>
+<c:catAx><c:axId val="101"/><c:scaling><c:orientation val="minMax"/></c:scaling><c:delete val="0"/><c:axPos val="b"/><c:title>${rich('Month')}</c:title><c:crossAx val="102"/></c:catAx>
+<c:valAx><c:axId val="102"/><c:scaling><c:orientation val="minMax"/></c:scaling><c:delete val="0"/><c:axPos val="l"/><c:title>${rich('EUR')}</c:title><c:crossAx val="101"/></c:valAx>
+</c:plotArea></c:chart></c:chartSpace>`;
+
+// ExcelJS cannot write shapes or charts, so a text box, a cell-linked shape and a chart are added to the package
+async function makeBook(): Promise<string> {
+  const wb = new ExcelJS.Workbook();
+  const ws = wb.addWorksheet('Dashboard');
+  ws.addRow(['Month', '', 'Revenue']);
+  ws.addRow(['January', '', 10]);
+  ws.addRow(['February', '', 12]);
+  const zip = await JSZip.loadAsync(await wb.xlsx.writeBuffer());
+  const sheet = await zip.file('xl/worksheets/sheet1.xml')!.async('string');
+  zip.file('xl/worksheets/sheet1.xml', sheet.replace('</worksheet>', '<drawing r:id="rId1"/></worksheet>'));
+  const rel = (type: string, target: string) =>
+    `<?xml version="1.0" encoding="UTF-8" standalone="yes"?>\n<Relationships xmlns="http://schemas.openxmlformats.org/package/2006/relationships"><Relationship Id="rId1" Type="http://schemas.openxmlformats.org/officeDocument/2006/relationships/${type}" Target="${target}"/></Relationships>`;
+  zip.file('xl/worksheets/_rels/sheet1.xml.rels', rel('drawing', '../drawings/drawing1.xml'));
+  zip.file('xl/drawings/drawing1.xml', drawingXml);
+  zip.file('xl/drawings/_rels/drawing1.xml.rels', rel('chart', '../charts/chart1.xml'));
+  zip.file('xl/charts/chart1.xml', chartXml);
+  const types = await zip.file('[Content_Types].xml')!.async('string');
+  zip.file('[Content_Types].xml', types.replace('</Types>',
+    '<Override PartName="/xl/drawings/drawing1.xml" ContentType="application/vnd.openxmlformats-officedocument.drawing+xml"/>' +
+    '<Override PartName="/xl/charts/chart1.xml" ContentType="application/vnd.openxmlformats-officedocument.drawingml.chart+xml"/></Types>'));
+  const out = path.join(tmpDir, 'drawings.xlsx');
+  fs.writeFileSync(out, await zip.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' }));
+  return out;
+}
+
+const fr: Record<string, string> = {
+  'Sales & returns\nUpdated weekly': 'Ventes & retours\nMis à jour chaque semaine',
+  'Revenue by month': "Chiffre d'affaires par mois",
+  Month: 'Mois',
+  EUR: 'EUR',
+  Dashboard: 'Tableau de bord',
+};
+
+describe('shapes and charts', () => {
+  beforeAll(() => { if (!fs.existsSync(tmpDir)) fs.mkdirSync(tmpDir, { recursive: true }); });
+
+  it('extracts text boxes and chart and axis titles', async () => {
+    const input = await makeBook();
+    const units = (await extract(input, config)).filter(u => u.kind === 'shape' || u.kind === 'chart');
+    expect(units.map(u => [u.id, u.kind, u.source])).toEqual([
+      ['Dashboard::shape:2', 'shape', 'Sales & returns\nUpdated weekly'],
+      ['Dashboard::chart:4:title', 'chart', 'Revenue by month'],
+      ['Dashboard::chart:4:axis:101', 'chart', 'Month'],
+      ['Dashboard::chart:4:axis:102', 'chart', 'EUR'],
+    ]);
+  });
+
+  it('writes the drawing back with translated text', async () => {
+    const input = await makeBook();
+    const units = await extract(input, config);
+    for (const u of units) u.segments = [{ id: `${u.id}_s0`, source: u.source, target: fr[u.source] ?? `FR ${u.source}` }];
+    const out = path.join(tmpDir, 'drawings.fr.xlsx');
+    await merge(input, out, units, config);
+
+    const zip = await JSZip.loadAsync(fs.readFileSync(out));
+    const sheet = await zip.file('xl/worksheets/sheet1.xml')!.async('string');
+    expect(sheet).toMatch(/<drawing r:id="rId\d+"\/><\/worksheet>/);
+    const drawing = await zip.file('xl/drawings/drawing1.xml')!.async('string');
+    expect(drawing).toContain('<a:p><a:r><a:rPr lang="en-US" b="1"/><a:t>Ventes &amp; retours</a:t></a:r></a:p><a:p><a:r><a:rPr lang="en-US"/><a:t>Mis à jour chaque semaine</a:t></a:r></a:p>');
+    expect(drawing).toContain('<a:t>Month</a:t>');
+    const chart = await zip.file('xl/charts/chart1.xml')!.async('string');
+    expect(chart).toContain("<a:t>Chiffre d'affaires par mois</a:t>");
+    expect(chart).toContain('<a:t>Mois</a:t>');
+    expect(chart).toContain("<c:f>'Tableau de bord'!$C$2:$C$3</c:f>");
+    const types = await zip.file('[Content_Types].xml')!.async('string');
+    expect(types).toContain('<Override PartName="/xl/charts/chart1.xml" ContentType="application/vnd.openxmlformats-officedocument.drawingml.chart+xml"/>');
+
+    const wb = new ExcelJS.Workbook();
+    await wb.xlsx.readFile(out);
+    expect(wb.getWorksheet('Tableau de bord')!.getCell('B2').value).toBe('FR January');
+  });
+});
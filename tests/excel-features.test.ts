@@ -45,8 +45,8 @@ describe('Excel Features Roundtrip', () => {
     const units = await extract(xlsxPath, config);
     expect(units.length).toBeGreaterThan(0);
     expect(units[0].richText).toBe(true);
-    expect(units[0].source).toBe('This is bold and italic text.');
-    // Rich text cells may not have a single style, but individual text runs have styles
+    // Runs differing from the dominant font become inline codes
+    expect(units[0].source).toBe('This is <pc id="rt1" dataRef="rt_1">bold</pc> and <pc id="rt2" dataRef="rt_2">italic</pc> text.');
 
     const xlf = await exportUnitsToXliff(units, config);
     const parsed = parseTranslated(xlf, 'xlf');
@@ -63,9 +63,12 @@ describe('Excel Features Roundtrip', () => {
     const wb2 = new ExcelJS.Workbook();
     await wb2.xlsx.readFile(outPath);
     const ws2 = wb2.getWorksheet('Sheet1')!;
-    const b2 = ws2.getCell('B2').value;
+    const b2: any = ws2.getCell('B2').value;
 
-    expect(b2).toBe('[This is bold and italic text.]');
+    expect(b2.richText.map((r: any) => r.text).join('')).toBe('[This is bold and italic text.]');
+    expect(b2.richText[1]).toEqual({ text: 'bold', font: { bold: true } });
+    expect(b2.richText[3]).toEqual({ text: 'italic', font: { italic: true } });
+    expect(b2.richText[0].font).toMatchObject({ name: 'Arial', size: 12 });
   });
 
   it('should handle formulas with extractFormulaResults', async () => {
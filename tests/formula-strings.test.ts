@@ -0,0 +1,107 @@
+import path from 'node:path';
+import fs from 'node:fs';
+import ExcelJS from 'exceljs';
+import { extract, exportUnitsToXliff, exportUnitsToJson, parseTranslated, merge, mergeStream } from '../src/index';
+import { formulaTextError, rebuildFormula, splitFormulaStrings } from '../src/io/formula';
+import type { Config } from '../src/types';
+
+const tmpDir = path.join(process.cwd(), '.out');
+
+async function makeBook(): Promise<string> {
+  const wb = new ExcelJS.Workbook();
+  const ws = wb.addWorksheet('Sheet1');
+  ws.getCell('A1').value = 'Source';
+  ws.getCell('A2').value = { formula: '"Total: "&TEXT(C2,"0")&" items"', result: 'Total: 3 items' } as any;
+  ws.getCell('A3').value = { formula: 'C2*2', result: 6 } as any;
+  ws.getCell('C2').value = 3;
+  const out = path.join(tmpDir, 'formula-strings.xlsx');
+  await wb.xlsx.writeFile(out);
+  return out;
+}
+
+function cfg(): Config {
+  return {
+    global: { srcLang: 'en' },
+    workbook: { sheets: [{ namePattern: 'Sheet1', sourceColumns: ['A'], targetColumns: { fr: 'B' }, translateFormulaStrings: true }] },
+  };
+}
+
+async function readFormula(file: string, addr: string): Promise<string> {
+  const wb = new ExcelJS.Workbook();
+  await wb.xlsx.readFile(file);
+  return (wb.getWorksheet('Sheet1')!.getCell(addr).value as any).formula;
+}
+
+describe('string literals in formulas', () => {
+  beforeAll(() => { if (!fs.existsSync(tmpDir)) fs.mkdirSync(tmpDir, { recursive: true }); });
+
+  it('keeps format strings, comparisons and lookup keys as code', () => {
+    expect(splitFormulaStrings('IF(A1="Yes","Approved","Rejected: "&B1)')).toEqual({
+      template: 'Approved[[fx:1]]Rejected: ',
+      codes: ['IF(A1="Yes","', '","', '"&B1)'],
+    });
+    expect(splitFormulaStrings('TEXT(A1,"dd mmm")&VLOOKUP("Apple",D:E,2,0)')).toBeNull();
+    expect(rebuildFormula('Approuvé[[fx:1]]Rejeté "x" : ', ['IF(A1="Yes","', '","', '"&B1)'], 'u')).toBe(
+      'IF(A1="Yes","Approuvé","Rejeté ""x"" : "&B1)'
+    );
+    expect(() => rebuildFormula('Approuvé', ['IF(A1="Yes","', '","', '"&B1)'], 'u')).toThrow('must keep each formula code [[fx:1]]');
+    expect(formulaTextError('x'.repeat(256), ['"', '"'])).toBe('has a string of 256 characters; Excel allows 255 per formula string');
+  });
+
+  it('round-trips literals through XLIFF and rebuilds the target formula', async () => {
+    const input = await makeBook();
+    const config = cfg();
+    const units = await extract(input, config);
+    expect(units.map(u => u.source)).toEqual(['Total: [[fx:1]] items', '6']);
+
+    const xlf = await exportUnitsToXliff(units, config, { trgLang: 'fr' });
+    expect(xlf).toContain('category="formulaCodes"');
+    const parsed = parseTranslated(xlf, 'xlf');
+    expect(parsed[0].segments![0].source).toBe('Total: [[ph:ph1]] items');
+    parsed[0].segments = [{ ...parsed[0].segments![0], target: '[[ph:ph1]] articles au total' }];
+
+    const out = path.join(tmpDir, 'formula-strings.fr.xlsx');
+    await merge(input, out, parsed, config);
+    expect(await readFormula(out, 'B2')).toBe('""&TEXT(C2,"0")&" articles au total"');
+    expect(await readFormula(out, 'A2')).toBe('"Total: "&TEXT(C2,"0")&" items"');
+  });
+
+  it('round-trips through JSON', async () => {
+    const input = await makeBook();
+    const config = cfg();
+    const obj = JSON.parse(await exportUnitsToJson(await extract(input, config), config));
+    const tu = obj.units[0];
+    tu.segments = [{ ...tu.segments[0], target: 'Total : [[fx:1]] articles' }];
+    const out = path.join(tmpDir, 'formula-strings.json.xlsx');
+    await merge(input, out, [tu], config);
+    expect(await readFormula(out, 'B2')).toBe('"Total : "&TEXT(C2,"0")&" articles"');
+  });
+
+  it('reports a formula it cannot rebuild and merges the other units', async () => {
+    const wb = new ExcelJS.Workbook();
+    const ws = wb.addWorksheet('Sheet1');
+    ws.getCell('A1').value = 'Source';
+    ws.getCell('A2').value = { formula: '"Total: "&TEXT(C2,"0")&" items"', result: 'Total: 3 items' } as any;
+    ws.getCell('A3').value = { formula: 'IF(C2>1,"Many","One")', result: 'Many' } as any;
+    ws.getCell('A4').value = 'Close';
+    ws.getCell('C2').value = 3;
+    const input = path.join(tmpDir, 'formula-strings.invalid.xlsx');
+    await wb.xlsx.writeFile(input);
+
+    const config = cfg();
+    const targets: Record<string, string> = { 'Total: [[fx:1]] items': 'Total sans code', 'Many[[fx:1]]One': 'Plusieurs[[fx:1]]Un', Close: 'Fermer' };
+    const units = (await extract(input, config)).map(u => ({ ...u, segments: [{ ...u.segments![0], target: targets[u.source] }] }));
+    for (const [name, run] of [['merge', merge], ['mergeStream', mergeStream]] as const) {
+      const out = path.join(tmpDir, `formula-strings.invalid.${name}.xlsx`);
+      const report = await run(input, out, units, config);
+      expect(report.invalidFormulas).toEqual([
+        { sheetName: 'Sheet1', unitId: 'Sheet1::R2CA', locale: 'fr', reason: 'must keep each formula code [[fx:1]] exactly once' },
+      ]);
+      expect(await readFormula(out, 'B2')).toBe('"Total: "&TEXT(C2,"0")&" items"');
+      expect(await readFormula(out, 'B3')).toBe('IF(C2>1,"Plusieurs","Un")');
+      const merged = new ExcelJS.Workbook();
+      await merged.xlsx.readFile(out);
+      expect(merged.getWorksheet('Sheet1')!.getCell('B4').value).toBe('Fermer');
+    }
+  });
+});
@@ -0,0 +1,83 @@
+import path from 'node:path';
+import fs from 'node:fs';
+import ExcelJS from 'exceljs';
+import { extract, exportUnitsToXliff, parseTranslated, merge } from '../src/index';
+import { restoreTooltips } from '../src/io/hyperlink';
+import type { Config, TranslationUnit } from '../src/types';
+
+const tmpDir = path.join(process.cwd(), '.out');
+
+async function makeBook(): Promise<string> {
+  const wb = new ExcelJS.Workbook();
+  const ws = wb.addWorksheet('Links');
+  ws.getCell('A1').value = 'English';
+  ws.getCell('A2').value = { text: 'Read the guide', hyperlink: 'https://example.com/en/guide', tooltip: 'Opens the user guide' } as any;
+  ws.getCell('A3').value = { text: 'Contact', hyperlink: 'https://example.com/en/contact' } as any;
+  const out = path.join(tmpDir, 'hyperlinks.xlsx');
+  await wb.xlsx.writeFile(out);
+  return out;
+}
+
+function cfg(hyperlinks: Record<string, any> = {}): Config {
+  return {
+    global: { srcLang: 'en' },
+    workbook: {
+      sheets: [{
+        namePattern: 'Links',
+        sourceColumns: ['A'],
+        targetColumns: { fr: 'B' },
+        hyperlinks: { urlRewrites: { fr: [{ pattern: '/en/', replacement: '/fr/' }] }, ...hyperlinks },
+      }],
+    },
+  };
+}
+
+const fr: Record<string, string> = {
+  'Read the guide': 'Lire le guide',
+  'Opens the user guide': 'Ouvre le guide utilisateur',
+  Contact: 'Nous contacter',
+};
+
+async function translate(input: string, config: Config): Promise<TranslationUnit[]> {
+  const xlf = await exportUnitsToXliff(await extract(input, config), config, { trgLang: 'fr' });
+  const parsed = parseTranslated(xlf, 'xlf');
+  for (const tu of parsed) tu.segments = tu.segments!.map(s => ({ ...s, target: fr[s.source] ?? s.source }));
+  return parsed;
+}
+
+describe('hyperlink cells', () => {
+  beforeAll(() => { if (!fs.existsSync(tmpDir)) fs.mkdirSync(tmpDir, { recursive: true }); });
+
+  it('extracts display text and screen tips', async () => {
+    const input = await makeBook();
+    const units = await extract(input, cfg());
+    expect(units.map(u => [u.id, u.kind, u.source])).toEqual([
+      ['Links::R2CA', undefined, 'Read the guide'],
+      ['Links::R2CA::tooltip', 'tooltip', 'Opens the user guide'],
+      ['Links::R3CA', undefined, 'Contact'],
+    ]);
+    expect(units[0].meta?.hyperlink).toEqual({ url: 'https://example.com/en/guide', tooltip: 'Opens the user guide' });
+    const noTips = await extract(input, cfg({ tooltips: false }));
+    expect(noTips.map(u => u.id)).toEqual(['Links::R2CA', 'Links::R3CA']);
+  });
+
+  it('merges a hyperlink value with the rewritten address and translated tooltip', async () => {
+    const input = await makeBook();
+    const config = cfg();
+    const out = path.join(tmpDir, 'hyperlinks.fr.xlsx');
+    await merge(input, out, await translate(input, config), config);
+
+    const wb = new ExcelJS.Workbook();
+    await wb.xlsx.readFile(out);
+    // ExcelJS does not read tooltips back
+    await restoreTooltips(wb, out);
+    const ws = wb.getWorksheet('Links')!;
+    expect(ws.getCell('B2').value).toEqual({
+      text: 'Lire le guide',
+      hyperlink: 'https://example.com/fr/guide',
+      tooltip: 'Ouvre le guide utilisateur',
+    });
+    expect(ws.getCell('B3').value).toEqual({ text: 'Nous contacter', hyperlink: 'https://example.com/fr/contact' });
+    expect(ws.getCell('A2').value).toEqual({ text: 'Read the guide', hyperlink: 'https://example.com/en/guide', tooltip: 'Opens the user guide' });
+  });
+});
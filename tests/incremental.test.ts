@@ -0,0 +1,83 @@
+import path from 'node:path';
+import fs from 'node:fs';
+import ExcelJS from 'exceljs';
+import { extract, exportUnitsToXliff, filterUnitsForLocale, merge, parseTranslated } from '../src/index';
+import { STATE_SHEET } from '../src/io/mergestate';
+import type { Config } from '../src/types';
+
+const tmpDir = path.join(process.cwd(), '.out');
+
+const config: Config = {
+  global: { srcLang: 'en' },
+  workbook: { sheets: [{ namePattern: 'Strings', sourceColumns: ['A'], targetColumns: { fr: 'B', de: 'C' } }] },
+};
+
+async function makeBook(): Promise<string> {
+  const wb = new ExcelJS.Workbook();
+  const ws = wb.addWorksheet('Strings');
+  ws.addRow(['English', 'French', 'German']);
+  ws.addRow(['Save', 'Enregistrer', 'Speichern']);
+  ws.addRow(['Cancel', 'Annuler', '']);
+  ws.addRow(['Help']);
+  const out = path.join(tmpDir, 'incremental.xlsx');
+  await wb.xlsx.writeFile(out);
+  return out;
+}
+
+describe('--only-untranslated', () => {
+  beforeAll(() => { if (!fs.existsSync(tmpDir)) fs.mkdirSync(tmpDir, { recursive: true }); });
+
+  it('emits only cells with an empty target and lists the pending locales', async () => {
+    const input = await makeBook();
+    const units = await extract(input, config, { onlyUntranslated: true });
+    expect(units.map(u => [u.source, u.meta?.untranslatedLocales])).toEqual([
+      ['Cancel', ['de']],
+      ['Help', ['fr', 'de']],
+    ]);
+    expect(filterUnitsForLocale(units, 'fr').map(u => u.source)).toEqual(['Help']);
+    expect((await extract(input, config)).length).toBe(3);
+  });
+
+  it('treats a target as stale once its source changes after a merge', async () => {
+    const input = await makeBook();
+    const xlf = await exportUnitsToXliff(await extract(input, config, { onlyUntranslated: true }), config, { trgLang: 'de' });
+    const parsed = parseTranslated(xlf, 'xlf');
+    for (const tu of parsed) tu.segments = tu.segments!.map(s => ({ ...s, target: { Cancel: 'Abbrechen', Help: 'Hilfe' }[s.source]! }));
+    const merged = path.join(tmpDir, 'incremental.de.xlsx');
+    await merge(input, merged, parsed, { ...config, global: { ...config.global, targetLocale: 'de', mergeState: true } });
+
+    const wb = new ExcelJS.Workbook();
+    await wb.xlsx.readFile(merged);
+    expect(wb.getWorksheet(STATE_SHEET)!.state).toBe('veryHidden');
+    const warnings: string[] = [];
+    expect((await extract(merged, config, { onlyUntranslated: true, warn: m => warnings.push(m) })).map(u => [u.source, u.meta?.untranslatedLocales])).toEqual([
+      ['Help', ['fr']],
+    ]);
+    expect(warnings).toEqual([]);
+
+    // Source edited after the merge: German is stale, French (never merged) is simply filled
+    wb.getWorksheet('Strings')!.getCell('A3').value = 'Cancel all';
+    wb.getWorksheet('Strings')!.getCell('B4').value = 'Aide';
+    await wb.xlsx.writeFile(merged);
+    expect((await extract(merged, config, { onlyUntranslated: true })).map(u => [u.source, u.meta?.untranslatedLocales])).toEqual([
+      ['Cancel all', ['de']],
+    ]);
+  });
+
+  it('adds no state sheet unless mergeState is set', async () => {
+    const input = await makeBook();
+    const parsed = (await extract(input, config)).map(u => ({ ...u, segments: u.segments!.map(s => ({ ...s, target: `DE ${s.source}` })) }));
+    const merged = path.join(tmpDir, 'incremental.plain.xlsx');
+    await merge(input, merged, parsed, { ...config, global: { ...config.global, targetLocale: 'de' } });
+
+    const wb = new ExcelJS.Workbook();
+    await wb.xlsx.readFile(merged);
+    expect(wb.worksheets.map(ws => ws.name)).toEqual(['Strings']);
+    // Without recorded hashes an edited source is not detected, only empty targets are
+    wb.getWorksheet('Strings')!.getCell('A3').value = 'Cancel all';
+    await wb.xlsx.writeFile(merged);
+    const warnings: string[] = [];
+    expect((await extract(merged, config, { onlyUntranslated: true, warn: m => warnings.push(m) })).map(u => u.source)).toEqual(['Help']);
+    expect(warnings).toEqual([`'${merged}' has no merge state (${STATE_SHEET}): only empty targets are found, not stale ones. Merge with global.mergeState: true to record it.`]);
+  });
+});
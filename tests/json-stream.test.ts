@@ -0,0 +1,94 @@
+import path from 'node:path';
+import fs from 'node:fs';
+import { exportUnitsToJson, exportUnitsToJsonLines, exportUnitsToJsonStream, parseTranslated, parseTranslatedStream } from '../src/index';
+import { validateFiles } from '../src/validator/index';
+import type { Config, TranslationUnit } from '../src/types';
+
+const tmpDir = path.join(process.cwd(), '.out');
+
+const config: Config = {
+  global: { srcLang: 'en' },
+  workbook: { sheets: [{ namePattern: 'UI', sourceColumns: ['B'], targetColumns: { fr: 'C' }, inlineCodeRegexes: ['\\{\\d+\\}'] }] },
+};
+
+// Enough units to span several read chunks, with text that looks like JSON structure
+function makeUnits(count: number): TranslationUnit[] {
+  return Array.from({ length: count }, (_, i) => {
+    const source = i % 3 ? `Open {0} "files" [${i}] {\\n}` : `Line ${i}\nwith a break, a tab\t and ünïcödé 👋`;
+    return {
+      id: `UI::R${i + 2}CB`, sheetName: 'UI', row: i + 2, col: 'B', source,
+      segments: [{ id: `UI::R${i + 2}CB_s0`, source, target: i % 5 ? `FR ${source}` : '' }],
+      meta: { context: { units: '[{"id":"not a unit"}]' } },
+    };
+  });
+}
+
+async function* iterate(list: TranslationUnit[]): AsyncGenerator<TranslationUnit> {
+  for (const u of list) yield u;
+}
+
+async function collect(iter: AsyncIterable<TranslationUnit>): Promise<TranslationUnit[]> {
+  const out: TranslationUnit[] = [];
+  for await (const u of iter) out.push(u);
+  return out;
+}
+
+describe('streaming JSON and JSON Lines', () => {
+  beforeAll(() => { if (!fs.existsSync(tmpDir)) fs.mkdirSync(tmpDir, { recursive: true }); });
+
+  it('writes what exportUnitsToJson and exportUnitsToJsonLines give', async () => {
+    const units = makeUnits(50);
+    const meta = { fileName: 'book.xlsx', notes: { units: ['kept as meta'] } };
+    const json = path.join(tmpDir, 'json-stream.json');
+    await exportUnitsToJsonStream(iterate(units), config, json, { meta });
+    expect(fs.readFileSync(json, 'utf-8')).toBe(await exportUnitsToJson(units, config, meta));
+
+    const jsonl = path.join(tmpDir, 'json-stream.jsonl');
+    await exportUnitsToJsonStream(iterate(units), config, jsonl, { format: 'jsonl' });
+    const lines = fs.readFileSync(jsonl, 'utf-8');
+    expect(lines).toBe(exportUnitsToJsonLines(units, config));
+    expect(lines.split('\n').length).toBe(51);
+    expect(parseTranslated(lines, 'jsonl')).toEqual(parseTranslated(fs.readFileSync(json, 'utf-8'), 'json'));
+
+    const empty = path.join(tmpDir, 'json-stream.empty.json');
+    await exportUnitsToJsonStream(iterate([]), config, empty, { meta });
+    expect(fs.readFileSync(empty, 'utf-8')).toBe(await exportUnitsToJson([], config, meta));
+  });
+
+  it.each(['json', 'jsonl'] as const)('reads %s units one by one, as parseTranslated does', async format => {
+    const units = makeUnits(2000);
+    const file = path.join(tmpDir, `json-stream.large.${format}`);
+    fs.writeFileSync(file, format === 'json' ? await exportUnitsToJson(units, config, { units: 'none' }) : exportUnitsToJsonLines(units, config));
+    expect(fs.statSync(file).size).toBeGreaterThan(4 * 65536);
+
+    const streamed = await collect(parseTranslatedStream(file, format));
+    expect(streamed).toEqual(parseTranslated(fs.readFileSync(file, 'utf-8'), format));
+    expect(streamed.length).toBe(2000);
+  });
+
+  it('rejects incomplete documents', async () => {
+    const truncated = path.join(tmpDir, 'json-stream.truncated.json');
+    const text = await exportUnitsToJson(makeUnits(3), config);
+    fs.writeFileSync(truncated, text.slice(0, text.length - 40));
+    await expect(collect(parseTranslatedStream(truncated, 'json'))).rejects.toThrow(/Unexpected end of JSON/);
+
+    const noUnits = path.join(tmpDir, 'json-stream.nounits.json');
+    fs.writeFileSync(noUnits, JSON.stringify({ meta: { units: 1 } }));
+    await expect(collect(parseTranslatedStream(noUnits, 'json'))).rejects.toThrow(/No "units" array/);
+
+    const badLine = path.join(tmpDir, 'json-stream.bad.jsonl');
+    fs.writeFileSync(badLine, `${JSON.stringify(makeUnits(1)[0])}\n\n{"id":\n`);
+    await expect(collect(parseTranslatedStream(badLine, 'jsonl'))).rejects.toThrow(/Invalid JSON on line 3/);
+  });
+
+  it('validates JSON Lines as it validates JSON', async () => {
+    const units = makeUnits(20);
+    const json = path.join(tmpDir, 'json-stream.validate.json');
+    const jsonl = path.join(tmpDir, 'json-stream.validate.jsonl');
+    fs.writeFileSync(json, await exportUnitsToJson(units, config));
+    fs.writeFileSync(jsonl, exportUnitsToJsonLines(units, config));
+    const [fromJson, fromLines] = [await validateFiles([json], {}), await validateFiles([jsonl], {})];
+    expect(fromLines).toEqual(fromJson);
+    expect(fromJson.items.filter(i => /Missing target/.test(i.message)).length).toBe(4);
+  });
+});
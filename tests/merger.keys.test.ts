@@ -0,0 +1,79 @@
+import path from 'node:path';
+import fs from 'node:fs';
+import ExcelJS from 'exceljs';
+import { extract, exportUnitsToXliff, parseTranslated, merge } from '../src/index';
+import type { Config } from '../src/types';
+
+const tmpDir = path.join(process.cwd(), '.out');
+
+async function writeBook(file: string, rows: Array<[string, string]>): Promise<string> {
+  const wb = new ExcelJS.Workbook();
+  const ws = wb.addWorksheet('UI');
+  ws.getCell('A1').value = 'Key';
+  ws.getCell('B1').value = 'English';
+  ws.getCell('C1').value = 'French';
+  rows.forEach(([k, v], i) => {
+    ws.getCell(i + 2, 1).value = k;
+    ws.getCell(i + 2, 2).value = v;
+  });
+  const out = path.join(tmpDir, file);
+  await wb.xlsx.writeFile(out);
+  return out;
+}
+
+const cfg: Config = {
+  global: { srcLang: 'en' },
+  workbook: { sheets: [{ namePattern: 'UI', sourceColumns: ['English'], targetColumns: { fr: 'C' }, keyColumn: 'header:Key', headerRow: 1, valuesStartRow: 2 }] },
+};
+
+describe('keyColumn', () => {
+  beforeAll(() => { if (!fs.existsSync(tmpDir)) fs.mkdirSync(tmpDir, { recursive: true }); });
+
+  it('builds ids from the key and merges into re-sorted rows by key', async () => {
+    const original = await writeBook('keys.xlsx', [['btn.ok', 'OK'], ['btn.cancel', 'Cancel']]);
+    const units = await extract(original, cfg);
+    expect(units.map(u => u.id)).toEqual(['UI::K:btn.ok:English', 'UI::K:btn.cancel:English']);
+    expect(units[0].key).toBe('btn.ok');
+
+    const xlf = await exportUnitsToXliff(units, cfg, { trgLang: 'fr' });
+    expect(xlf).toContain('<note category="key">btn.ok</note>');
+    const translated = parseTranslated(xlf, 'xlf');
+    for (const tu of translated) tu.segments = tu.segments!.map(s => ({ ...s, target: `fr:${s.source}` }));
+    translated.push({ ...translated[0], id: 'UI::K:btn.gone:English', key: 'btn.gone' });
+
+    // rows sorted and a new row inserted after extraction
+    const sorted = await writeBook('keys-sorted.xlsx', [['btn.new', 'New'], ['btn.cancel', 'Cancel'], ['btn.ok', 'OK']]);
+    const out = path.join(tmpDir, 'keys-sorted.out.xlsx');
+    const report = await merge(sorted, out, translated, cfg);
+
+    const wb = new ExcelJS.Workbook();
+    await wb.xlsx.readFile(out);
+    const ws = wb.getWorksheet('UI')!;
+    expect(ws.getCell('C2').value).toBe(null);
+    expect(ws.getCell('C3').value).toBe('fr:Cancel');
+    expect(ws.getCell('C4').value).toBe('fr:OK');
+    expect(report.missingKeys).toEqual([{ sheetName: 'UI', key: 'btn.gone', unitId: 'UI::K:btn.gone:English' }]);
+  });
+
+  it('supports composite keys and rejects empty or duplicate keys', async () => {
+    const wb = new ExcelJS.Workbook();
+    const ws = wb.addWorksheet('UI');
+    ws.addRow(['Screen', 'Id', 'English']);
+    ws.addRow(['login', '007', 'Sign in']);
+    ws.addRow(['home', '007', 'Welcome']);
+    const file = path.join(tmpDir, 'keys-composite.xlsx');
+    await wb.xlsx.writeFile(file);
+
+    const composite: Config = { workbook: { sheets: [{ namePattern: 'UI', sourceColumns: ['C'], keyColumn: ['A', 'B'] }] } };
+    const units = await extract(file, composite);
+    expect(units.map(u => u.key)).toEqual(['login|007', 'home|007']);
+    expect(units[0].id).toBe('UI::K:login%7C007:C');
+    expect(parseTranslated(await exportUnitsToXliff(units, composite), 'xlf')[0].key).toBe('login|007');
+
+    const single: Config = { workbook: { sheets: [{ namePattern: 'UI', sourceColumns: ['C'], keyColumn: 'B' }] } };
+    await expect(extract(file, single)).rejects.toThrow(/Duplicate key '007' at rows 2 and 3/);
+
+    const dup = await writeBook('keys-empty.xlsx', [['', 'No key']]);
+    await expect(extract(dup, cfg)).rejects.toThrow(/Empty key in column\(s\) A at row 2/);
+  });
+});
@@ -0,0 +1,61 @@
+import path from 'node:path';
+import fs from 'node:fs';
+import ExcelJS from 'exceljs';
+import { extract, exportUnitsToXliff } from '../src/index';
+import { extractStreamWorkbook } from '../src/io/stream';
+import type { Config, SheetConfig, TranslationUnit } from '../src/types';
+
+const tmpDir = path.join(process.cwd(), '.out');
+
+function cfg(nonTranslatable: SheetConfig['nonTranslatable']): Config {
+  return { global: { srcLang: 'en' }, workbook: { sheets: [{ namePattern: 'Catalog', sourceColumns: ['A'], nonTranslatable }] } };
+}
+
+async function makeBook(): Promise<string> {
+  const wb = new ExcelJS.Workbook();
+  const ws = wb.addWorksheet('Catalog');
+  ws.addRow(['Source']);
+  for (const v of [
+    'Add to cart', 42, '1,234.50', new Date(Date.UTC(2024, 4, 1)), '2024-05-01', true, 'https://example.com/help',
+    'support@example.com', 'SKU-1234', '{0}', '%s: {name}', 'Save {0} files', { formula: 'A2&"!"', result: 'Add to cart!' }, { formula: '1+1', result: 2 },
+  ]) ws.addRow([v]);
+  const out = path.join(tmpDir, 'nontranslatable.xlsx');
+  await wb.xlsx.writeFile(out);
+  return out;
+}
+
+async function collect(gen: AsyncGenerator<TranslationUnit>): Promise<TranslationUnit[]> {
+  const units: TranslationUnit[] = [];
+  for await (const u of gen) units.push(u);
+  return units;
+}
+
+describe('non-translatable content', () => {
+  beforeAll(() => { if (!fs.existsSync(tmpDir)) fs.mkdirSync(tmpDir, { recursive: true }); });
+
+  it('skips numbers, dates, booleans, URLs, e-mails, codes and bare placeholders', async () => {
+    const input = await makeBook();
+    const config = cfg({ patterns: ['^SKU-\\d+$'] });
+    const log: string[] = [];
+    const units = await extract(input, config, { log: m => log.push(m) });
+    expect(units.map(u => u.source)).toEqual(['Add to cart', 'Save {0} files', 'Add to cart!']);
+    expect(log).toEqual([
+      "Skipped non-translatable cells on sheet 'Catalog': 3 numbers, 2 dates, 1 boolean, 1 url, 1 email, 1 pattern, 2 placeholders",
+    ]);
+    expect((await collect(extractStreamWorkbook(input, config))).map(u => u.source)).toEqual(units.map(u => u.source));
+  });
+
+  it('turns detectors off and exports matches locked', async () => {
+    const input = await makeBook();
+    const config = cfg({ numbers: false, dates: false, booleans: false, urls: false, emails: false, placeholders: false, action: 'lock' });
+    const units = await extract(input, config);
+    expect(units).toHaveLength(14);
+    expect(units.filter(u => u.meta?.locked)).toHaveLength(0);
+
+    const locking = cfg({ action: 'lock' });
+    const locked = await extract(input, locking);
+    expect(locked.filter(u => !u.meta?.locked).map(u => u.source)).toEqual(['Add to cart', 'SKU-1234', 'Save {0} files', 'Add to cart!']);
+    const xlf = await exportUnitsToXliff(locked, locking, { trgLang: 'fr' });
+    expect(xlf).toContain('<unit id="Catalog::R3CA" translate="no">');
+  });
+});
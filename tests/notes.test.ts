@@ -0,0 +1,84 @@
+import path from 'node:path';
+import fs from 'node:fs';
+import ExcelJS from 'exceljs';
+import { extract, exportUnitsToXliff, parseTranslated, merge } from '../src/index';
+import type { Config, TranslationUnit } from '../src/types';
+
+const tmpDir = path.join(process.cwd(), '.out');
+
+async function makeBook(): Promise<string> {
+  const wb = new ExcelJS.Workbook();
+  const ws = wb.addWorksheet('Form');
+  ws.getCell('A1').value = 'English';
+  ws.getCell('A2').value = 'Save';
+  ws.getCell('A2').note = 'Saves your work';
+  ws.getCell('A3').value = 'Cancel';
+  ws.getCell('A3').note = { texts: [{ text: 'Only a ' }, { text: 'tooltip', font: { bold: true } }] } as any;
+  const out = path.join(tmpDir, 'notes.xlsx');
+  await wb.xlsx.writeFile(out);
+  return out;
+}
+
+function cfg(mergeInto?: 'target' | 'source'): Config {
+  return {
+    global: { srcLang: 'en' },
+    workbook: { sheets: [{ namePattern: 'Form', sourceColumns: ['A'], targetColumns: { fr: 'B' }, notes: { translate: true, mergeInto } }] },
+  };
+}
+
+function noteText(note: any): string {
+  return typeof note === 'string' ? note : (note?.texts || []).map((t: any) => t.text).join('');
+}
+
+async function translate(input: string, config: Config): Promise<TranslationUnit[]> {
+  const xlf = await exportUnitsToXliff(await extract(input, config), config, { trgLang: 'fr' });
+  const parsed = parseTranslated(xlf, 'xlf');
+  for (const tu of parsed) tu.segments = tu.segments!.map(s => ({ ...s, target: `fr:${s.source}` }));
+  return parsed;
+}
+
+describe('cell notes as units', () => {
+  beforeAll(() => { if (!fs.existsSync(tmpDir)) fs.mkdirSync(tmpDir, { recursive: true }); });
+
+  it('extracts notes as separate units linked to the host cell', async () => {
+    const input = await makeBook();
+    const units = await extract(input, cfg());
+    expect(units.map(u => [u.id, u.kind, u.source])).toEqual([
+      ['Form::R2CA', undefined, 'Save'],
+      ['Form::R2CA::note', 'note', 'Saves your work'],
+      ['Form::R3CA', undefined, 'Cancel'],
+      ['Form::R3CA::note', 'note', 'Only a tooltip'],
+    ]);
+    const plain = await extract(input, { ...cfg(), workbook: { sheets: [{ namePattern: 'Form', sourceColumns: ['A'] }] } });
+    expect(plain.map(u => u.id)).toEqual(['Form::R2CA', 'Form::R3CA']);
+  });
+
+  it('writes translated notes onto the target cell', async () => {
+    const input = await makeBook();
+    const units = await translate(input, cfg());
+    expect(units.filter(u => u.kind === 'note')).toHaveLength(2);
+    const out = path.join(tmpDir, 'notes.target.xlsx');
+    await merge(input, out, units, cfg());
+
+    const wb = new ExcelJS.Workbook();
+    await wb.xlsx.readFile(out);
+    const ws = wb.getWorksheet('Form')!;
+    expect(ws.getCell('B2').value).toBe('fr:Save');
+    expect(noteText(ws.getCell('B2').note)).toBe('fr:Saves your work');
+    expect(noteText(ws.getCell('B3').note)).toBe('fr:Only a tooltip');
+    expect(noteText(ws.getCell('A2').note)).toBe('Saves your work');
+  });
+
+  it('rewrites the source cell note when merging into a per-locale copy', async () => {
+    const input = await makeBook();
+    const config = cfg('source');
+    const out = path.join(tmpDir, 'notes.source.xlsx');
+    await merge(input, out, await translate(input, config), config);
+
+    const wb = new ExcelJS.Workbook();
+    await wb.xlsx.readFile(out);
+    const ws = wb.getWorksheet('Form')!;
+    expect(noteText(ws.getCell('A2').note)).toBe('fr:Saves your work');
+    expect(ws.getCell('B2').note).toBeUndefined();
+  });
+});
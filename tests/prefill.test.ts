@@ -0,0 +1,94 @@
+import path from 'node:path';
+import fs from 'node:fs';
+import { spawnSync } from 'node:child_process';
+import ExcelJS from 'exceljs';
+import { extract, exportUnitsToXliff, merge, parseTranslated, prefillTargets } from '../src/index';
+import type { Config } from '../src/types';
+
+const tmpDir = path.join(process.cwd(), '.out');
+
+const config: Config = {
+  global: { srcLang: 'en' },
+  segmentation: { enabled: true, rules: 'builtin' },
+  workbook: {
+    sheets: [{ namePattern: 'Strings', sourceColumns: ['A'], targetColumns: { fr: 'B', de: 'C' }, inlineCodeRegexes: ['\\{\\d+\\}'] }],
+  },
+};
+
+async function makeBook(): Promise<string> {
+  const wb = new ExcelJS.Workbook();
+  const ws = wb.addWorksheet('Strings');
+  ws.addRow(['English', 'French', 'German']);
+  ws.addRow(['Saved {0} files. Close the window.', 'Enregistré {0} fichiers. Fermez la fenêtre.', '']);
+  ws.addRow(['Cancel', 'Annuler', 'Abbrechen']);
+  ws.addRow(['Open the file. Then save it.', 'Ouvrez puis enregistrez le fichier.', '']);
+  const out = path.join(tmpDir, 'prefill.xlsx');
+  await wb.xlsx.writeFile(out);
+  return out;
+}
+
+// The CLI run from its sources
+function cli(args: string[]): { status: number | null; stderr: string } {
+  const run = spawnSync(process.execPath, ['--no-warnings', '--loader', 'ts-node/esm', 'src/cli/index.ts', ...args], {
+    encoding: 'utf-8', env: { ...process.env, TS_NODE_TRANSPILE_ONLY: '1' }, timeout: 60000,
+  });
+  return { status: run.status, stderr: run.stderr };
+}
+
+describe('prefilled targets', () => {
+  beforeAll(() => { if (!fs.existsSync(tmpDir)) fs.mkdirSync(tmpDir, { recursive: true }); });
+
+  it('segments existing translations alongside the source', async () => {
+    const input = await makeBook();
+    const units = prefillTargets(await extract(input, config, { prefillTargets: true }), 'fr', config);
+    expect(units[0].segments!.map(s => [s.source, s.target, s.state])).toEqual([
+      ['Saved {0} files.', 'Enregistré {0} fichiers.', 'translated'],
+      ['Close the window.', 'Fermez la fenêtre.', 'translated'],
+    ]);
+    // Two source sentences, one target sentence: a single unit-wide segment
+    expect(units[2].segments!.map(s => [s.source, s.target])).toEqual([
+      ['Open the file. Then save it.', 'Ouvrez puis enregistrez le fichier.'],
+    ]);
+    const de = prefillTargets(await extract(input, config, { prefillTargets: true }), 'de', config);
+    expect(de.map(u => u.segments!.map(s => s.target ?? ''))).toEqual([['', ''], ['Abbrechen'], ['', '']]);
+  });
+
+  it('round-trips edited prefills through XLIFF and merge', async () => {
+    const input = await makeBook();
+    const units = prefillTargets(await extract(input, config, { prefillTargets: true }), 'fr', config);
+    const xlf = await exportUnitsToXliff(units, config, { trgLang: 'fr' });
+    expect(xlf).toContain('<segment id="Strings::R2CA_s0" state="translated">');
+    expect(xlf).toContain('<target xml:space="preserve">Enregistré <ph id="ph1"/> fichiers.</target>');
+
+    const parsed = parseTranslated(xlf, 'xlf');
+    expect(parsed[1].segments![0]).toMatchObject({ target: 'Annuler', state: 'translated' });
+    parsed[1].segments![0].target = 'Annuler l’opération';
+    const out = path.join(tmpDir, 'prefill.fr.xlsx');
+    await merge(input, out, parsed, { ...config, global: { ...config.global, targetLocale: 'fr' } });
+
+    const wb = new ExcelJS.Workbook();
+    await wb.xlsx.readFile(out);
+    const ws = wb.getWorksheet('Strings')!;
+    expect(ws.getCell('B2').value).toBe('Enregistré {0} fichiers. Fermez la fenêtre.');
+    expect(ws.getCell('B3').value).toBe('Annuler l’opération');
+    expect(ws.getCell('B4').value).toBe('Ouvrez puis enregistrez le fichier.');
+  });
+
+  it('fails on the command line when no locale says which targets to prefill', async () => {
+    const input = await makeBook();
+    const configFile = path.join(tmpDir, 'prefill.config.json');
+    fs.writeFileSync(configFile, JSON.stringify(config));
+    for (const [format, extra] of [['xlf', []], ['json', ['--per-locale']], ['jsonl', []]] as const) {
+      const output = path.join(tmpDir, `prefill.cli.${format}`);
+      fs.rmSync(output, { force: true });
+      const run = cli(['extract', '-i', input, '-c', configFile, '-o', output, '--format', format, '--prefill-targets', ...extra]);
+      expect(run.status).toBe(1);
+      expect(run.stderr).toContain('--prefill-targets needs a target locale');
+      expect(fs.existsSync(output)).toBe(false);
+    }
+
+    const output = path.join(tmpDir, 'prefill.cli.jsonl');
+    expect(cli(['extract', '-i', input, '-c', configFile, '-o', output, '--format', 'jsonl', '--prefill-targets', '--target-lang', 'de']).status).toBe(0);
+    expect(parseTranslated(fs.readFileSync(output, 'utf-8'), 'jsonl')[1].segments![0].target).toBe('Abbrechen');
+  }, 60000);
+});
@@ -330,8 +330,8 @@ describe('Production Scenarios', () => {
     expect(formulaUnit?.formula).toBeDefined();
     
     // Rich text
-    const richUnit = units.find(u => u.source === 'Rich text');
-    expect(richUnit?.richText).toBe(true);
+    const richUnit = units.find(u => u.richText);
+    expect(richUnit?.source).toBe('Rich <pc id="rt1" dataRef="rt_1">text</pc>');
     
     // Number (converted to string)
     const numberUnit = units.find(u => u.source === '12345');
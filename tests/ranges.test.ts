@@ -0,0 +1,70 @@
+import path from 'node:path';
+import fs from 'node:fs';
+import ExcelJS from 'exceljs';
+import { extract, merge } from '../src/index';
+import type { Config } from '../src/types';
+
+const tmpDir = path.join(process.cwd(), '.out');
+
+function cfg(ranges: Config['workbook']['sheets'][number]['ranges']): Config {
+  return {
+    global: { srcLang: 'en', targetLocale: 'fr' },
+    workbook: { sheets: [{ namePattern: 'UI', sourceColumns: [], targetColumns: { fr: 'C' }, ranges }] },
+  };
+}
+
+async function makeBook(): Promise<string> {
+  const wb = new ExcelJS.Workbook();
+  const ws = wb.addWorksheet('UI');
+  ws.getCell('A1').value = 'Buttons';
+  ws.getCell('B2').value = 'Save';
+  ws.getCell('B3').value = 'Cancel';
+  ws.getCell('B5').value = 'Internal: do not translate';
+  ws.getCell('E7').value = 'Dialogs';
+  ws.getCell('E8').value = 'Help';
+  ws.getCell('E9').value = 'About';
+  wb.definedNames.add("'UI'!$E$8:$E$9", 'DialogStrings');
+  const out = path.join(tmpDir, 'ranges.xlsx');
+  await wb.xlsx.writeFile(out);
+  return out;
+}
+
+describe('range scopes', () => {
+  beforeAll(() => { if (!fs.existsSync(tmpDir)) fs.mkdirSync(tmpDir, { recursive: true }); });
+
+  const config = cfg(['B2:B3', { ref: 'DialogStrings', targetOffsets: { fr: 2 } }]);
+
+  it('extracts only cells inside A1 ranges and defined names', async () => {
+    const input = await makeBook();
+    expect((await extract(input, config)).map(u => [u.id, u.source])).toEqual([
+      ['UI::R2CB', 'Save'],
+      ['UI::R3CB', 'Cancel'],
+      ['UI::R8CE', 'Help'],
+      ['UI::R9CE', 'About'],
+    ]);
+  });
+
+  it('merges into targetColumns or the range target offset', async () => {
+    const input = await makeBook();
+    const units = (await extract(input, config)).map(u => ({
+      ...u,
+      segments: u.segments!.map(s => ({ ...s, target: `fr:${s.source}` })),
+    }));
+    const out = path.join(tmpDir, 'ranges.fr.xlsx');
+    await merge(input, out, units, config);
+
+    const wb = new ExcelJS.Workbook();
+    await wb.xlsx.readFile(out);
+    const ws = wb.getWorksheet('UI')!;
+    expect(['C2', 'C3', 'G8', 'G9'].map(a => ws.getCell(a).value)).toEqual(['fr:Save', 'fr:Cancel', 'fr:Help', 'fr:About']);
+    expect(ws.getCell('C8').value).toBeNull();
+    expect(ws.getCell('C5').value).toBeNull();
+  });
+
+  it('rejects references that are neither ranges nor defined names', async () => {
+    const input = await makeBook();
+    await expect(extract(input, cfg(['Nowhere']))).rejects.toThrow(
+      "Range 'Nowhere' in sheet config 'UI' is neither an A1 range nor a defined name."
+    );
+  });
+});
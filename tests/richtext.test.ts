@@ -0,0 +1,136 @@
+import path from 'node:path';
+import fs from 'node:fs';
+import ExcelJS from 'exceljs';
+import { extract, exportUnitsToXliff, exportUnitsToJson, parseTranslated, merge } from '../src/index';
+import { inlineToRichText, richTextToInline } from '../src/io/richtext';
+import type { Config } from '../src/types';
+
+const tmpDir = path.join(process.cwd(), '.out');
+
+async function makeBook(file: string): Promise<string> {
+  const wb = new ExcelJS.Workbook();
+  const ws = wb.addWorksheet('Sheet1');
+  ws.getCell('A1').value = 'Source';
+  ws.getCell('A2').value = {
+    richText: [
+      { text: 'Click ', font: { size: 11 } },
+      { text: 'Save', font: { size: 11, bold: true, color: { argb: 'FFFF0000' } } },
+      { text: ' to keep changes', font: { size: 11 } },
+    ],
+  };
+  ws.getCell('A3').value = { richText: [{ text: 'All ', font: { italic: true } }, { text: 'italic', font: { italic: true } }] };
+  const out = path.join(tmpDir, file);
+  await wb.xlsx.writeFile(out);
+  return out;
+}
+
+function cfg(xliffVersion: '1.2' | '2.1', extra: Record<string, any> = {}): Config {
+  return {
+    global: { srcLang: 'en', xliffVersion },
+    workbook: { sheets: [{ namePattern: 'Sheet1', sourceColumns: ['A'], targetColumns: { fr: 'B' }, ...extra }] },
+  };
+}
+
+describe('rich text runs', () => {
+  beforeAll(() => { if (!fs.existsSync(tmpDir)) fs.mkdirSync(tmpDir, { recursive: true }); });
+
+  it('encodes non-dominant runs and rebuilds them from markers or raw markup', () => {
+    const runs = [{ text: 'A ', font: { size: 9 } }, { text: 'b', font: { size: 9, bold: true } }, { text: ' c', font: { size: 9 } }];
+    const enc12 = richTextToInline(runs, '1.2')!;
+    expect(enc12.text).toBe('A <g id="rt1" ctype="bold">b</g> c');
+    expect(enc12.fonts).toEqual({ base: { size: 9 }, runs: { '1': { size: 9, bold: true } } });
+    expect(richTextToInline([{ text: 'x', font: { bold: true } }, { text: 'y', font: { bold: true } }], '2.1')).toBeNull();
+
+    expect(inlineToRichText('[[rt:1]]B[[/rt:1]] a', enc12.fonts).richText).toEqual([
+      { text: 'B', font: { size: 9, bold: true } },
+      { text: ' a', font: { size: 9 } },
+    ]);
+    expect(inlineToRichText('x <pc id="rt1" dataRef="rt_1">y</pc>', enc12.fonts).richText[1]).toEqual({ text: 'y', font: { size: 9, bold: true } });
+  });
+
+  it.each(['1.2', '2.1'] as const)('round-trips run fonts through XLIFF %s', async (version) => {
+    const input = await makeBook(`rich-${version}.xlsx`);
+    const config = cfg(version);
+    const units = await extract(input, config);
+    // uniform formatting stays plain text
+    expect(units[1].source).toBe('All italic');
+    expect(units[1].meta?.richTextFonts).toBeUndefined();
+
+    const xlf = await exportUnitsToXliff(units, config, { trgLang: 'fr' });
+    expect(xlf).toContain('category="richTextFonts"');
+    const parsed = parseTranslated(xlf, 'xlf');
+    expect(parsed[0].segments![0].source).toBe('Click [[rt:1]]Save[[/rt:1]] to keep changes');
+    parsed[0].segments = [{ ...parsed[0].segments![0], target: 'Cliquez sur [[rt:1]]Enregistrer[[/rt:1]] pour garder' }];
+
+    const out = path.join(tmpDir, `rich-${version}.out.xlsx`);
+    await merge(input, out, parsed, config);
+    const wb = new ExcelJS.Workbook();
+    await wb.xlsx.readFile(out);
+    const b2: any = wb.getWorksheet('Sheet1')!.getCell('B2').value;
+    expect(b2.richText).toEqual([
+      { text: 'Cliquez sur ', font: { size: 11 } },
+      { text: 'Enregistrer', font: { size: 11, bold: true, color: { argb: 'FFFF0000' } } },
+      { text: ' pour garder', font: { size: 11 } },
+    ]);
+  });
+
+  it.each(['1.2', '2.1'] as const)('escapes run text with < and & (XLIFF %s and JSON)', async (version) => {
+    const wb = new ExcelJS.Workbook();
+    wb.addWorksheet('Sheet1').getCell('A2').value = {
+      richText: [{ text: 'Press ' }, { text: '<Save> & </pc>', font: { bold: true } }, { text: ' now & then' }],
+    };
+    const input = path.join(tmpDir, `rich-escape-${version}.xlsx`);
+    await wb.xlsx.writeFile(input);
+    const config = cfg(version);
+    const units = await extract(input, config);
+    expect(units[0].source).toContain('&lt;Save&gt; &amp; &lt;/pc&gt;');
+
+    const xlf = await exportUnitsToXliff(units, config, { trgLang: 'fr' });
+    expect(xlf).toContain('&lt;Save&gt; &amp; &lt;/pc&gt;</');
+    expect(xlf).not.toContain('&amp;lt;');
+    const parsed = parseTranslated(xlf, 'xlf');
+    expect(parsed[0].segments![0].source).toBe('Press [[rt:1]]<Save> & </pc>[[/rt:1]] now & then');
+    parsed[0].segments = [{ ...parsed[0].segments![0], target: 'Appuyez sur [[rt:1]]<Enregistrer> & </pc>[[/rt:1]] & voilà' }];
+    const out = path.join(tmpDir, `rich-escape-${version}.out.xlsx`);
+    await merge(input, out, parsed, config);
+    const check = new ExcelJS.Workbook();
+    await check.xlsx.readFile(out);
+    expect((check.getWorksheet('Sheet1')!.getCell('B2').value as any).richText).toEqual([
+      { text: 'Appuyez sur ' },
+      { text: '<Enregistrer> & </pc>', font: { bold: true } },
+      { text: ' & voilà' },
+    ]);
+
+    const tu = JSON.parse(await exportUnitsToJson(units, config)).units[0];
+    const open = version === '1.2' ? '<g id="rt1" ctype="bold">' : '<pc id="rt1" dataRef="rt_1">';
+    const close = version === '1.2' ? '</g>' : '</pc>';
+    tu.segments = [{ ...tu.segments[0], target: `${open}&lt;Speichern&gt; &amp;${close} &amp; los` }];
+    const jsonOut = path.join(tmpDir, `rich-escape-${version}.json.xlsx`);
+    await merge(input, jsonOut, [tu], config);
+    const jsonBook = new ExcelJS.Workbook();
+    await jsonBook.xlsx.readFile(jsonOut);
+    expect((jsonBook.getWorksheet('Sheet1')!.getCell('B2').value as any).richText).toEqual([
+      { text: '<Speichern> &', font: { bold: true } },
+      { text: ' & los' },
+    ]);
+  });
+
+  it('round-trips through JSON and can be switched off', async () => {
+    const input = await makeBook('rich-json.xlsx');
+    const config = cfg('2.1');
+    const obj = JSON.parse(await exportUnitsToJson(await extract(input, config), config));
+    const tu = obj.units[0];
+    tu.segments = [{ ...tu.segments[0], target: '<pc id="rt1" dataRef="rt_1">Speichern</pc> klicken' }];
+    const out = path.join(tmpDir, 'rich-json.out.xlsx');
+    await merge(input, out, [tu], config);
+    const wb = new ExcelJS.Workbook();
+    await wb.xlsx.readFile(out);
+    const b2: any = wb.getWorksheet('Sheet1')!.getCell('B2').value;
+    expect(b2.richText.map((r: any) => r.text)).toEqual(['Speichern', ' klicken']);
+    expect(b2.richText[0].font.bold).toBe(true);
+
+    const plain = await extract(input, cfg('2.1', { preserveRichText: false }));
+    expect(plain[0].source).toBe('Click Save to keep changes');
+    expect(plain[0].richText).toBe(true);
+  });
+});
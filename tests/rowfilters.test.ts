@@ -0,0 +1,65 @@
+import path from 'node:path';
+import fs from 'node:fs';
+import ExcelJS from 'exceljs';
+import { extract } from '../src/index';
+import { extractStreamWorkbook } from '../src/io/stream';
+import type { Config, RowFilter, TranslationUnit } from '../src/types';
+
+const tmpDir = path.join(process.cwd(), '.out');
+
+async function makeBook(): Promise<string> {
+  const wb = new ExcelJS.Workbook();
+  const ws = wb.addWorksheet('Strings');
+  ws.addRow(['Source', 'Status', 'Owner']);
+  ws.addRow(['Save', 'Ready for translation', 'ui']);
+  ws.addRow(['Cancel', 'Draft', 'ui']);
+  ws.addRow(['Help', 'ready for translation', '']);
+  ws.addRow(['Legal', 'Ready for translation', 'legal']);
+  const out = path.join(tmpDir, 'rowfilters.xlsx');
+  await wb.xlsx.writeFile(out);
+  return out;
+}
+
+function cfg(rowFilters: RowFilter[]): Config {
+  return { global: { srcLang: 'en' }, workbook: { sheets: [{ namePattern: 'Strings', sourceColumns: ['Source'], rowFilters }] } };
+}
+
+async function streamSources(input: string, config: Config): Promise<string[]> {
+  const out: TranslationUnit[] = [];
+  for await (const u of extractStreamWorkbook(input, config)) out.push(u);
+  return out.map(u => u.source);
+}
+
+describe('row filters', () => {
+  beforeAll(() => { if (!fs.existsSync(tmpDir)) fs.mkdirSync(tmpDir, { recursive: true }); });
+
+  it('extracts only rows passing every rule and logs the skipped ones', async () => {
+    const input = await makeBook();
+    const config = cfg([
+      { column: 'Status', equals: 'Ready for translation', ignoreCase: true },
+      { column: 'C', notEquals: ['legal', 'internal'] },
+    ]);
+    const log: string[] = [];
+    const units = await extract(input, config, { log: m => log.push(m) });
+    expect(units.map(u => u.source)).toEqual(['Save', 'Help']);
+    expect(log).toEqual([
+      "Skipped row 3 on sheet 'Strings': Status is 'Draft' (expected 'Ready for translation')",
+      "Skipped row 5 on sheet 'Strings': C is 'legal' (excluded)",
+    ]);
+    expect(await streamSources(input, config)).toEqual(['Save', 'Help']);
+  });
+
+  it('supports regex and non-empty rules in both extractors', async () => {
+    const input = await makeBook();
+    const config = cfg([{ column: 'Owner', nonEmpty: true }, { column: 'Status', regex: '^Ready' }]);
+    expect((await extract(input, config)).map(u => u.source)).toEqual(['Save', 'Legal']);
+    expect(await streamSources(input, config)).toEqual(['Save', 'Legal']);
+  });
+
+  it('rejects rules without exactly one condition', async () => {
+    const input = await makeBook();
+    await expect(extract(input, cfg([{ column: 'Status', equals: 'x', regex: 'y' }]))).rejects.toThrow(
+      "Row filter on column 'Status' needs exactly one of equals, notEquals, regex or nonEmpty."
+    );
+  });
+});
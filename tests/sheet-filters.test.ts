@@ -0,0 +1,84 @@
+import path from 'node:path';
+import fs from 'node:fs';
+import ExcelJS from 'exceljs';
+import JSZip from 'jszip';
+import { extract, merge } from '../src/index';
+import { extractStreamWorkbook } from '../src/io/stream';
+import type { Config, SheetConfig, TranslationUnit } from '../src/types';
+
+const tmpDir = path.join(process.cwd(), '.out');
+
+function cfg(sheet: Partial<SheetConfig> = {}): Config {
+  return { global: { srcLang: 'en' }, workbook: { sheets: [{ namePattern: '^.*$', sourceColumns: ['A'], ...sheet }] } };
+}
+
+async function makeBook(): Promise<string> {
+  const wb = new ExcelJS.Workbook();
+  const add = (name: string, props: Partial<ExcelJS.WorksheetProperties>, state?: ExcelJS.WorksheetState) => {
+    const ws = wb.addWorksheet(name, { properties: props, ...(state ? { state } : {}) });
+    ws.addRow(['Source']);
+    ws.addRow([`Text on ${name}`]);
+  };
+  add('Ready', { tabColor: { argb: 'FF00B050' } });
+  add('Draft', { tabColor: { argb: 'FFFF0000' } });
+  add('Plain', {});
+  add('Hidden', {}, 'hidden');
+  add('Internal', { tabColor: { argb: 'FF00B050' } }, 'veryHidden');
+  const out = path.join(tmpDir, 'sheet-filters.xlsx');
+  // ExcelJS writes xl/workbook.xml after the sheets, which its stream reader does not always cope with
+  // for several sheets; Excel puts it first.
+  const zip = await JSZip.loadAsync(await wb.xlsx.writeBuffer());
+  const ordered = new JSZip();
+  const parts = Object.keys(zip.files).filter(n => !zip.files[n].dir);
+  for (const name of ['xl/workbook.xml', ...parts.filter(n => n !== 'xl/workbook.xml')]) {
+    ordered.file(name, await zip.file(name)!.async('nodebuffer'));
+  }
+  fs.writeFileSync(out, await ordered.generateAsync({ type: 'nodebuffer', compression: 'DEFLATE' }));
+  return out;
+}
+
+async function collect(gen: AsyncGenerator<TranslationUnit>): Promise<TranslationUnit[]> {
+  const units: TranslationUnit[] = [];
+  for await (const u of gen) units.push(u);
+  return units;
+}
+
+const sheetsOf = (units: TranslationUnit[]) => [...new Set(units.map(u => u.sheetName))];
+
+describe('sheet filters', () => {
+  beforeAll(() => { if (!fs.existsSync(tmpDir)) fs.mkdirSync(tmpDir, { recursive: true }); });
+
+  it('skips hidden and very hidden sheets unless told otherwise', async () => {
+    const input = await makeBook();
+    const log: string[] = [];
+    expect(sheetsOf(await extract(input, cfg(), { log: m => log.push(m) }))).toEqual(['Ready', 'Draft', 'Plain']);
+    expect(log).toEqual(["Skipped sheet 'Hidden': sheet is hidden", "Skipped sheet 'Internal': sheet is veryHidden"]);
+    expect(sheetsOf(await extract(input, cfg({ skipHiddenSheets: false })))).toEqual(['Ready', 'Draft', 'Plain', 'Hidden', 'Internal']);
+    expect(sheetsOf(await collect(extractStreamWorkbook(input, cfg())))).toEqual(['Ready', 'Draft', 'Plain']);
+  });
+
+  it('includes or excludes sheets by tab colour', async () => {
+    const input = await makeBook();
+    const included = cfg({ includeTabColors: ['#00b050'], skipHiddenSheets: false });
+    expect(sheetsOf(await extract(input, included))).toEqual(['Ready', 'Internal']);
+    expect(sheetsOf(await collect(extractStreamWorkbook(input, included)))).toEqual(['Ready', 'Internal']);
+
+    const excluded = cfg({ excludeTabColors: ['FF0000'] });
+    expect(sheetsOf(await extract(input, excluded))).toEqual(['Ready', 'Plain']);
+    expect(sheetsOf(await collect(extractStreamWorkbook(input, excluded)))).toEqual(['Ready', 'Plain']);
+  });
+
+  it('leaves skipped sheets untouched on merge', async () => {
+    const input = await makeBook();
+    const config = cfg({ excludeTabColors: ['#FF0000'], targetColumns: { fr: 'B' } });
+    const units = await extract(input, cfg({ skipHiddenSheets: false }));
+    for (const u of units) u.segments = [{ id: `${u.id}_s0`, source: u.source, target: `FR ${u.source}` }];
+    const out = path.join(tmpDir, 'sheet-filters.fr.xlsx');
+    await merge(input, out, units, config);
+    const wb = new ExcelJS.Workbook();
+    await wb.xlsx.readFile(out);
+    expect(wb.getWorksheet('Ready')!.getCell('B2').value).toBe('FR Text on Ready');
+    expect(wb.getWorksheet('Draft')!.getCell('B2').value).toBeNull();
+    expect(wb.getWorksheet('Hidden')!.getCell('B2').value).toBeNull();
+  });
+});
@@ -0,0 +1,58 @@
+import path from 'node:path';
+import fs from 'node:fs';
+import ExcelJS from 'exceljs';
+import { extract, merge } from '../src/index';
+import { matchesSheetPattern } from '../src/io/sheets';
+import type { Config, SheetConfig } from '../src/types';
+
+const tmpDir = path.join(process.cwd(), '.out');
+
+function cfg(sheet: Partial<SheetConfig>): Config {
+  return { global: { srcLang: 'en' }, workbook: { sheets: [{ namePattern: 'glob:*', sourceColumns: ['A'], targetColumns: { fr: 'B' }, ...sheet }] } };
+}
+
+async function makeBook(): Promise<string> {
+  const wb = new ExcelJS.Workbook();
+  for (const name of ['Q1 (draft', 'Q2 final', '_notes', 'Q10 final']) {
+    const ws = wb.addWorksheet(name);
+    ws.addRow(['Source']);
+    ws.addRow([`Text on ${name}`]);
+  }
+  const out = path.join(tmpDir, 'sheets.xlsx');
+  await wb.xlsx.writeFile(out);
+  return out;
+}
+
+describe('sheet selection', () => {
+  beforeAll(() => { if (!fs.existsSync(tmpDir)) fs.mkdirSync(tmpDir, { recursive: true }); });
+
+  it('reads exact, glob, regex, index and unprefixed patterns', () => {
+    expect(matchesSheetPattern('exact:Q1 (draft', { name: 'Q1 (draft' })).toBe(true);
+    expect(matchesSheetPattern('Q1 (draft', { name: 'Q1 (draft' })).toBe(true);
+    expect(matchesSheetPattern('glob:Q? *', { name: 'Q2 final' })).toBe(true);
+    expect(matchesSheetPattern('glob:Q? *', { name: 'Q10 final' })).toBe(false);
+    expect(matchesSheetPattern('regex:final$', { name: 'Q2 final' })).toBe(true);
+    expect(matchesSheetPattern('^Q\\d+ ', { name: 'Q10 final' })).toBe(true);
+    expect(matchesSheetPattern('Q2', { name: 'Q2 final' })).toBe(false);
+    expect(matchesSheetPattern('index:1,3-4', { name: 'x', index: 3 })).toBe(true);
+    expect(matchesSheetPattern('index:1,3-4', { name: 'x', index: 2 })).toBe(false);
+    expect(matchesSheetPattern('index:1', { name: 'x' })).toBe(false);
+    expect(() => matchesSheetPattern('regex:Q1 (draft', { name: 'x' })).toThrow("Invalid sheet pattern 'regex:Q1 (draft'");
+    expect(() => matchesSheetPattern('index:first', { name: 'x' })).toThrow("Invalid sheet index list in pattern 'index:first'.");
+  });
+
+  it('applies exclusions and indexes the same way in extract and merge', async () => {
+    const input = await makeBook();
+    const config = cfg({ excludeSheets: ['glob:_*', 'index:4'] });
+    const units = await extract(input, config);
+    expect(units.map(u => [u.sheetName, u.sheetIndex])).toEqual([['Q1 (draft', 1], ['Q2 final', 2]]);
+
+    const all = await extract(input, cfg({}));
+    for (const u of all) u.segments = [{ id: `${u.id}_s0`, source: u.source, target: `FR ${u.source}` }];
+    const out = path.join(tmpDir, 'sheets.fr.xlsx');
+    await merge(input, out, all, config);
+    const wb = new ExcelJS.Workbook();
+    await wb.xlsx.readFile(out);
+    expect(wb.worksheets.slice(0, 4).map(ws => ws.getCell('B2').value)).toEqual(['FR Text on Q1 (draft', 'FR Text on Q2 final', null, null]);
+  });
+});
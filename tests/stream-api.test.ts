@@ -0,0 +1,85 @@
+import path from 'node:path';
+import fs from 'node:fs';
+import ExcelJS from 'exceljs';
+import { exportUnitsToXliffStream, extractStream, parseTranslated } from '../src/index';
+import type { Config, ExtractProgress, TranslationUnit } from '../src/types';
+
+const tmpDir = path.join(process.cwd(), '.out');
+
+const config: Config = {
+  global: { srcLang: 'en' },
+  workbook: { sheets: [{ namePattern: 'glob:*', sourceColumns: ['A'], targetColumns: { fr: 'B' } }] },
+};
+
+async function makeBook(): Promise<string> {
+  const wb = new ExcelJS.Workbook();
+  for (const [name, rows] of [['First', 500], ['Second', 300]] as const) {
+    const ws = wb.addWorksheet(name);
+    ws.addRow(['English', 'French']);
+    for (let r = 2; r <= rows; r++) ws.addRow([`${name} string ${r}`]);
+  }
+  const out = path.join(tmpDir, 'stream-api.xlsx');
+  await wb.xlsx.writeFile(out);
+  return out;
+}
+
+describe('extractStream', () => {
+  beforeAll(() => { if (!fs.existsSync(tmpDir)) fs.mkdirSync(tmpDir, { recursive: true }); });
+
+  it('reports progress row by row, up to 100%', async () => {
+    const input = await makeBook();
+    const events: ExtractProgress[] = [];
+    const units: TranslationUnit[] = [];
+    for await (const u of extractStream(input, config, { onProgress: e => events.push(e) })) units.push(u);
+    expect(units.length).toBe(798);
+    expect(events.length).toBe(802); // every row, and the end of both sheets
+    expect(events[0]).toEqual({ sheet: 'First', row: 1, percent: 0 });
+    expect(events[500]).toEqual({ sheet: 'First', row: 500, percent: 62 });
+    expect(events[events.length - 1]).toEqual({ sheet: 'Second', row: 300, percent: 100 });
+    expect(events.every((e, i) => i === 0 || e.percent >= events[i - 1].percent)).toBe(true);
+  });
+
+  it('reads no further than the units asked for', async () => {
+    const input = await makeBook();
+    const rows: number[] = [];
+    for await (const u of extractStream(input, config, { onProgress: e => rows.push(e.row) })) {
+      expect(u.row).toBe(2);
+      break;
+    }
+    expect(rows.length).toBeGreaterThan(0);
+    expect(Math.max(...rows)).toBeLessThan(50);
+  });
+
+  it('stops once the signal is aborted', async () => {
+    const input = await makeBook();
+    const abort = new AbortController();
+    const seen: TranslationUnit[] = [];
+    const read = async () => {
+      for await (const u of extractStream(input, config, { signal: abort.signal })) {
+        seen.push(u);
+        if (seen.length === 10) abort.abort();
+      }
+    };
+    await expect(read()).rejects.toThrow(/aborted/i);
+    expect(seen.length).toBe(10);
+
+    const aborted = extractStream(input, config, { signal: AbortSignal.abort() });
+    await expect(aborted.next()).rejects.toThrow(/aborted/i);
+  });
+
+  it('writes XLIFF as units stream, and removes the file when cancelled', async () => {
+    const input = await makeBook();
+    const output = path.join(tmpDir, 'stream-api.xlf');
+    await exportUnitsToXliffStream(extractStream(input, config), config, output);
+    const parsed = parseTranslated(fs.readFileSync(output, 'utf-8'), 'xlf');
+    expect(parsed.length).toBe(798);
+    expect(parsed[0].source).toBe('First string 2');
+
+    const abort = new AbortController();
+    const progress = (e: ExtractProgress) => { if (e.sheet === 'Second') abort.abort(); };
+    const cancelled = path.join(tmpDir, 'stream-api.cancelled.xlf');
+    await expect(exportUnitsToXliffStream(extractStream(input, config, { signal: abort.signal, onProgress: progress }), config, cancelled))
+      .rejects.toThrow(/aborted/i);
+    expect(fs.existsSync(cancelled)).toBe(false);
+  });
+});
@@ -0,0 +1,221 @@
+import path from 'node:path';
+import fs from 'node:fs';
+import v8 from 'node:v8';
+import vm from 'node:vm';
+import ExcelJS from 'exceljs';
+import { extract, merge, mergeStream } from '../src/index';
+import { scanSheet } from '../src/merger/stream';
+import { openPackage, sheetPartPaths } from '../src/io/ooxml';
+import { readSharedStrings } from '../src/io/sheetscan';
+import type { Config, MergeReport, TranslationUnit } from '../src/types';
+
+const tmpDir = path.join(process.cwd(), '.out');
+
+async function makeBook(): Promise<string> {
+  const wb = new ExcelJS.Workbook();
+  wb.title = 'Product catalogue';
+  const ws = wb.addWorksheet('Strings');
+  ws.headerFooter.oddHeader = '&CProduct catalogue';
+  ws.addRow(['Id', 'Source', 'French', 'Limit']);
+  ws.addRow(['save', 'Save the file. Then close it.', 'old', 40]);
+  ws.addRow(['rich', { richText: [{ text: 'Press ' }, { text: 'Save', font: { bold: true, color: { argb: 'FF0070C0' } } }, { text: ' now' }] }]);
+  ws.addRow(['html', '<p>Hello <b>world</b></p>']);
+  ws.addRow(['link', { text: 'Documentation', hyperlink: 'https://example.com/docs', tooltip: 'Open the docs' }]);
+  ws.addRow(['long', 'A sentence that gets far too long once translated', '', 20]);
+  ws.getCell('B2').font = { italic: true };
+  // rows without units stay as they are, including ones past the last unit
+  ws.addRow(['number', 42, 'kept']);
+  ws.getCell('A30').value = 'tail';
+
+  const keys = wb.addWorksheet('Keys');
+  keys.addRow(['Key', 'Text']);
+  keys.addRow(['app.title', 'Catalogue']);
+  keys.addRow(['app.greeting', { formula: 'IF(A1="","Hello","Hi")', result: 'Hello' }]);
+
+  const out = path.join(tmpDir, 'stream-merge.xlsx');
+  await wb.xlsx.writeFile(out);
+  return out;
+}
+
+async function makeLargeBook(rows: number): Promise<string> {
+  const wb = new ExcelJS.Workbook();
+  const ws = wb.addWorksheet('Strings');
+  ws.addRow(['Id', 'Source', 'French']);
+  for (let r = 2; r <= rows + 1; r++) ws.addRow([`id${r}`, `String ${r}`]);
+  const out = path.join(tmpDir, `stream-merge.large.${rows}.xlsx`);
+  await wb.xlsx.writeFile(out);
+  return out;
+}
+
+const largeConfig: Config = { global: { srcLang: 'en' }, workbook: { sheets: [{ namePattern: 'Strings', sourceColumns: ['Source'], targetColumns: { fr: 'French' } }] } };
+
+function configWith(global: Config['global'] = {}): Config {
+  return {
+    global: { srcLang: 'en', insertTargetPlacement: 'appendToSheetEnd', mergeState: true, ...global },
+    workbook: {
+      sheets: [
+        { namePattern: 'Strings', sourceColumns: ['Source'], targetColumns: { fr: 'French' }, maxCharsColumn: 'Limit', translateHeaderFooter: true, preserveStyles: true },
+        { namePattern: 'Keys', sourceColumns: ['Text'], keyColumn: 'header:Key', targetColumns: { fr: 'German' }, translateFormulaStrings: true },
+      ],
+      translateProperties: true,
+    },
+  };
+}
+
+function translated(units: TranslationUnit[]): TranslationUnit[] {
+  const out = units.map(u => ({ ...u, segments: u.segments!.map(s => ({ ...s, target: `FR ${s.source}` })) }));
+  // a key no longer in the sheet
+  out.push({ ...out.find(u => u.key === 'app.title')!, id: 'Keys::K:app.gone:Text', key: 'app.gone' });
+  return out;
+}
+
+// Every cell of every sheet, as ExcelJS reads it back
+async function cellsOf(file: string): Promise<Record<string, any>> {
+  const wb = new ExcelJS.Workbook();
+  await wb.xlsx.readFile(file);
+  const out: Record<string, any> = { title: wb.title };
+  for (const ws of wb.worksheets) {
+    out[`${ws.name}!state`] = ws.state;
+    out[`${ws.name}!header`] = ws.headerFooter?.oddHeader;
+    ws.eachRow(row => row.eachCell(cell => {
+      out[`${ws.name}!${cell.address}`] = cell.value;
+      if (cell.font) out[`${ws.name}!${cell.address}!font`] = cell.font;
+    }));
+  }
+  return out;
+}
+
+async function both(config: Config): Promise<{ inMemory: string; streamed: string; reports: [MergeReport, MergeReport] }> {
+  const input = await makeBook();
+  const units = translated(await extract(input, config));
+  const inMemory = path.join(tmpDir, 'stream-merge.memory.xlsx');
+  const streamed = path.join(tmpDir, 'stream-merge.stream.xlsx');
+  const reports: [MergeReport, MergeReport] = [await merge(input, inMemory, units, config), await mergeStream(input, streamed, units, config)];
+  return { inMemory, streamed, reports };
+}
+
+describe('streaming merge', () => {
+  beforeAll(() => { if (!fs.existsSync(tmpDir)) fs.mkdirSync(tmpDir, { recursive: true }); });
+
+  it('writes what merge() writes, with the same report', async () => {
+    const config = configWith();
+    const { inMemory, streamed, reports } = await both(config);
+    expect(reports[1]).toEqual(reports[0]);
+    expect(reports[1].missingKeys.map(m => m.key)).toEqual(['app.gone']);
+    expect(reports[1].tooLong.map(t => t.unitId)).toEqual(['Strings::R6CB']);
+
+    const expected = await cellsOf(inMemory);
+    const actual = await cellsOf(streamed);
+    expect(actual).toEqual(expected);
+    expect(actual['Strings!C2']).toBe('FR Save the file. FR Then close it.');
+    expect(actual['Strings!C2!font']).toMatchObject({ italic: true });
+    expect(actual['Keys!C1']).toBe('German');
+    expect(actual['Strings!A30']).toBe('tail');
+    expect(actual.title).toBe('FR Product catalogue');
+
+    // Tooltips and the merge state read back the same way
+    const targets = { ...config, workbook: { ...config.workbook, sheets: config.workbook.sheets.map(s => ({ ...s, sourceColumns: Object.values(s.targetColumns!) })) } };
+    expect(await extract(streamed, targets)).toEqual(await extract(inMemory, targets));
+    expect((await extract(streamed, config, { onlyUntranslated: true })).map(u => u.id))
+      .toEqual((await extract(inMemory, config, { onlyUntranslated: true })).map(u => u.id));
+  });
+
+  it('matches with enforceMaxChars and without overwrite', async () => {
+    for (const global of [{ enforceMaxChars: true }, { overwrite: false }]) {
+      const { inMemory, streamed, reports } = await both(configWith(global));
+      expect(reports[1]).toEqual(reports[0]);
+      expect(await cellsOf(streamed)).toEqual(await cellsOf(inMemory));
+    }
+  });
+
+  it('merges a few thousand units', async () => {
+    const input = await makeLargeBook(5000);
+    const units = (await extract(input, largeConfig)).map(u => ({ ...u, segments: u.segments!.map(s => ({ ...s, target: `FR ${s.source}` })) }));
+    expect(units.length).toBe(5000);
+    const output = path.join(tmpDir, 'stream-merge.large.out.xlsx');
+    await mergeStream(input, output, units, largeConfig);
+
+    const cells = await cellsOf(output);
+    expect(cells['Strings!C2']).toBe('FR String 2');
+    expect(cells['Strings!C5001']).toBe('FR String 5001');
+    expect(Object.keys(cells).filter(k => /^Strings!C\d+$/.test(k)).length).toBe(5001);
+  });
+
+  it('takes units from an iterable without holding on to them', async () => {
+    v8.setFlagsFromString('--expose-gc');
+    const gc = vm.runInNewContext('gc') as () => void;
+    const input = await makeLargeBook(1000);
+    const extracted = await extract(input, largeConfig);
+    const yielded: WeakRef<TranslationUnit>[] = [];
+    let alive = -1;
+    async function* units(): AsyncGenerator<TranslationUnit> {
+      for (const u of extracted) {
+        const tu = { ...u, segments: u.segments!.map(s => ({ ...s, target: `FR ${s.source}` })), meta: { ...u.meta, context: { notes: 'x'.repeat(1000) } } };
+        yielded.push(new WeakRef(tu));
+        yield tu;
+      }
+      // Every unit has been taken: collect what the merge let go of
+      await new Promise(resolve => setImmediate(resolve));
+      gc();
+      alive = yielded.filter(ref => ref.deref()).length;
+    }
+    const output = path.join(tmpDir, 'stream-merge.iterable.xlsx');
+    await mergeStream(input, output, units(), largeConfig);
+    expect(yielded.length).toBe(1000);
+    expect(alive).toBeGreaterThanOrEqual(0);
+    expect(alive).toBeLessThan(10);
+    const cells = await cellsOf(output);
+    expect(cells['Strings!C1001']).toBe('FR String 1001');
+  });
+
+  it('keeps only the source cells of rows with units', async () => {
+    const wb = new ExcelJS.Workbook();
+    const ws = wb.addWorksheet('Strings');
+    ws.addRow(['Id', 'Source', 'French', 'Notes', 'Owner', 'Status']);
+    for (let r = 2; r <= 51; r++) ws.addRow([`id${r}`, `String ${r}`, '', 'x'.repeat(200), 'someone', { formula: 'LEN(B2)', result: 8 }]);
+    ws.getCell('C2').value = { text: 'old', hyperlink: 'https://example.com/old' };
+    const input = path.join(tmpDir, 'stream-merge.wide.xlsx');
+    await wb.xlsx.writeFile(input);
+    const units = (await extract(input, largeConfig)).filter(u => u.row % 2 === 0);
+
+    const zip = await openPackage(input);
+    const part = (await sheetPartPaths(zip)).get('Strings')!;
+    const layout = await scanSheet(zip.file(part), 'Strings', largeConfig.workbook.sheets[0], units, await readSharedStrings(zip));
+    expect([...layout.rows.keys()]).toEqual(units.map(u => u.row));
+    for (const cells of layout.rows.values()) expect([...cells.keys()]).toEqual([2]);
+    expect([...layout.linked]).toEqual(['C2']);
+
+    // The written cell loses the link it had
+    const output = path.join(tmpDir, 'stream-merge.wide.out.xlsx');
+    await mergeStream(input, output, units.map(u => ({ ...u, segments: u.segments!.map(s => ({ ...s, target: `FR ${s.source}` })) })), largeConfig);
+    const cells = await cellsOf(output);
+    expect(cells['Strings!C2']).toBe('FR String 2');
+    expect(cells['Strings!C3']).toBe('');
+    expect(cells['Strings!D50']).toBe('x'.repeat(200));
+  });
+
+  const sheetName = (units: TranslationUnit[]): TranslationUnit => {
+    const hf = units.find(u => u.kind === 'headerFooter')!;
+    return { ...hf, id: 'Strings::sheetName', kind: 'sheetName', source: 'Strings', segments: [{ id: 'Strings::sheetName_s0', source: 'Strings', target: 'FR Strings' }] };
+  };
+
+  it.each([
+    ['target columns next to their source', (config: Config) => {
+      config.global!.insertTargetPlacement = 'insertAfterSource';
+      config.workbook.sheets[0].targetColumns = { fr: '' };
+    }, (units: TranslationUnit[]) => units, /cannot insert one after the source column/],
+    ['tables', (config: Config) => { config.workbook.sheets[0].table = 'Strings'; }, (units: TranslationUnit[]) => units, /uses table 'Strings', which streaming merge does not support/],
+    ['ranges', (config: Config) => { config.workbook.sheets[0].ranges = ['B2:B6']; }, (units: TranslationUnit[]) => units, /uses ranges, which streaming merge does not support/],
+    ['note units', () => undefined, (units: TranslationUnit[]) => [...units, { ...units[0], id: `${units[0].id}::note`, kind: 'note' as const }], /is a note, which streaming merge does not support/],
+    ['sheet renames', () => undefined, (units: TranslationUnit[]) => [...units, sheetName(units)], /would be renamed to 'FR Strings'/],
+  ])('rejects %s', async (_name, patch, extend, message) => {
+    const input = await makeBook();
+    const units = extend(translated(await extract(input, configWith())));
+    const config = configWith();
+    patch(config);
+    const output = path.join(tmpDir, 'stream-merge.rejected.xlsx');
+    if (fs.existsSync(output)) fs.rmSync(output);
+    await expect(mergeStream(input, output, units, config)).rejects.toThrow(message);
+    expect(fs.existsSync(output)).toBe(false);
+  });
+});
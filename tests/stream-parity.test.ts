@@ -0,0 +1,200 @@
+import path from 'node:path';
+import fs from 'node:fs';
+import ExcelJS from 'exceljs';
+import { extract, merge } from '../src/index';
+import { extractStreamWorkbook } from '../src/io/stream';
+import type { Config, ExtractOptions, SheetConfig, TranslationUnit } from '../src/types';
+
+const tmpDir = path.join(process.cwd(), '.out');
+
+async function makeBook(): Promise<string> {
+  const wb = new ExcelJS.Workbook();
+  wb.title = 'Product catalogue';
+  const ws = wb.addWorksheet('Strings');
+  ws.headerFooter.oddHeader = '&CProduct catalogue';
+  ws.addRow(['Id', 'Source', 'Other', 'French', 'Limit', 'Hidden']);
+  ws.addRow(['save', 'Save the file. Then close it.', '', 'Enregistrez le fichier. Puis fermez-le.', 40, 'secret']);
+  ws.addRow(['rich', { richText: [{ text: 'Press ' }, { text: 'Save', font: { bold: true, color: { argb: 'FF0070C0' } } }, { text: ' now', font: { strike: true } }] }]);
+  ws.addRow(['html', '<p>Hello <b>world</b></p>']);
+  ws.addRow(['formula', { formula: 'CONCATENATE("Total ","due")', result: 'Total due' }]);
+  ws.addRow(['link', { text: 'Documentation', hyperlink: 'https://example.com/docs', tooltip: 'Open the docs' }]);
+  ws.addRow(['merged', 'Merged label']);
+  ws.addRow(['merged', '']);
+  ws.mergeCells('B7:C8');
+  ws.addRow(['hidden', 'Hidden row']).hidden = true;
+  ws.addRow(['number', 42]);
+  ws.addRow(['url', 'https://example.com']);
+  ws.addRow(['colour', 'Internal only']).getCell(2).font = { color: { argb: 'FFFF0000' } };
+  ws.addRow(['validated', '']);
+  ws.getCell('B13').dataValidation = { type: 'list', formulae: ['"Yes,No"'], showInputMessage: true, promptTitle: 'Answer', prompt: 'Pick one' };
+  ws.addRow(['struck', 'Do not touch']).getCell(2).font = { strike: true };
+  ws.getCell('B2').note = 'Shown on the toolbar';
+  ws.getColumn(6).hidden = true;
+
+  const keys = wb.addWorksheet('Keys');
+  keys.addRow(['Key', 'Text', 'Screen', 'Status']);
+  keys.addRow(['app.title', 'Catalogue', 'Home', 'ready']);
+  keys.addRow(['app.greeting', { formula: 'IF(A1="","Hello","Hi")', result: 'Hello' }, 'Home', 'ready']);
+  keys.addRow(['app.draft', 'Not yet', 'Home', 'draft']);
+
+  // written as ExcelJS does it, with xl/workbook.xml after the sheets
+  const out = path.join(tmpDir, 'stream-parity.xlsx');
+  await wb.xlsx.writeFile(out);
+  return out;
+}
+
+const strings: SheetConfig = {
+  namePattern: 'Strings',
+  sourceColumns: ['Source', 'F'],
+  targetColumns: { fr: 'French' },
+  headerRow: 1,
+  metadataRows: [1],
+  maxCharsColumn: 'Limit',
+  excludeColors: ['#FF0000'],
+  doNotTranslate: [{ strike: true, action: 'lock' }],
+  nonTranslatable: true,
+  skipHiddenRows: true,
+  skipHiddenColumns: true,
+  translateSheetName: true,
+  translateHeaderFooter: true,
+  translateComments: true,
+  notes: { translate: true },
+  dataValidation: { translate: true },
+};
+
+const keyed: SheetConfig = {
+  namePattern: 'Keys',
+  sourceColumns: ['Text'],
+  keyColumn: 'header:Key',
+  contextColumns: { Screen: 'screen' },
+  rowFilters: [{ column: 'Status', equals: 'ready' }],
+  translateFormulaStrings: true,
+};
+
+function configWith(patch: Partial<SheetConfig> = {}, global: Partial<Config> = {}): Config {
+  return { global: { srcLang: 'en' }, workbook: { sheets: [{ ...strings, ...patch }, keyed], translateProperties: true }, ...global };
+}
+
+async function both(input: string, config: Config, options?: ExtractOptions): Promise<[TranslationUnit[], TranslationUnit[]]> {
+  const streamed: TranslationUnit[] = [];
+  for await (const u of extractStreamWorkbook(input, config, options)) streamed.push(u);
+  return [await extract(input, config, options), streamed];
+}
+
+describe('streaming extractor parity', () => {
+  beforeAll(() => { if (!fs.existsSync(tmpDir)) fs.mkdirSync(tmpDir, { recursive: true }); });
+
+  it('yields the units extract() gives for the same config', async () => {
+    const input = await makeBook();
+    const [inMemory, streamed] = await both(input, configWith());
+    expect(streamed).toEqual(inMemory);
+    // the fixture exercises what the streaming reader used to drop
+    const byId = new Map(streamed.map(u => [u.id, u]));
+    expect(byId.get('Strings::R2CB')!.segments.map(s => s.source)).toEqual(['Save the file.', 'Then close it.']);
+    expect(byId.get('Strings::R3CB')!.meta?.richTextFonts).toBeDefined();
+    expect(byId.get('Strings::R4CB')!.meta?.htmlSkeleton).toBeDefined();
+    expect(byId.get('Strings::R6CB::tooltip')!.source).toBe('Open the docs');
+    expect(byId.get('Strings::R7CB')!.mergedRange).toBe('B7:C8');
+    expect(byId.get('Strings::R13CB::dv:prompt')!.source).toBe('Pick one');
+    expect(byId.get('Strings::R14CB')!.meta?.locked).toBe(true);
+    expect(byId.get('Keys::K:app.greeting:Text')!.meta?.formulaCodes).toBeDefined();
+    expect([...byId.keys()].filter(id => /R(9|10|11|12)C|CF$/.test(id))).toEqual([]);
+  });
+
+  it.each([
+    ['expand merged regions', { treatMergedRegions: 'expand' as const }, {}],
+    ['top-left merged regions', { treatMergedRegions: 'top-left' as const }, {}],
+    ['skip merged regions', { treatMergedRegions: 'skip' as const }, {}],
+    ['without rich text or segmentation', { preserveRichText: false }, { segmentation: { enabled: false } }],
+  ])('matches with %s', async (_name, patch, global) => {
+    const input = await makeBook();
+    const [inMemory, streamed] = await both(input, configWith(patch, global));
+    expect(streamed).toEqual(inMemory);
+  });
+
+  it('matches when prefilling targets', async () => {
+    const input = await makeBook();
+    const [inMemory, streamed] = await both(input, configWith(), { prefillTargets: true });
+    expect(streamed).toEqual(inMemory);
+    expect(streamed.find(u => u.id === 'Strings::R2CB')!.meta?.existingTargets).toEqual({ fr: 'Enregistrez le fichier. Puis fermez-le.' });
+  });
+
+  it('matches with onlyUntranslated, stale targets included', async () => {
+    const input = await makeBook();
+    const config = configWith();
+    const translated = (await extract(input, config)).filter(u => u.kind !== 'sheetName').map(u => ({ ...u, segments: u.segments!.map(s => ({ ...s, target: `FR ${s.source}` })) }));
+    const merged = path.join(tmpDir, 'stream-parity.merged.xlsx');
+    await merge(input, merged, translated, { ...config, global: { ...config.global, targetLocale: 'fr', mergeState: true } });
+    const wb = new ExcelJS.Workbook();
+    await wb.xlsx.readFile(merged);
+    wb.getWorksheet('Strings')!.getCell('B4').value = '<p>Hello <b>everyone</b></p>';
+    wb.getWorksheet('Strings')!.getCell('D6').value = '';
+    await wb.xlsx.writeFile(merged);
+
+    const [inMemory, streamed] = await both(merged, config, { onlyUntranslated: true });
+    expect(streamed).toEqual(inMemory);
+    expect(streamed.filter(u => /^Strings::R\d+CB$/.test(u.id) && u.meta?.untranslatedLocales).map(u => u.id)).toEqual(['Strings::R4CB', 'Strings::R6CB']);
+
+    const warnings: string[][] = [[], []];
+    await both(input, config, { onlyUntranslated: true, warn: m => warnings[0].push(m) });
+    const units = extractStreamWorkbook(input, config, { onlyUntranslated: true, warn: m => warnings[1].push(m) });
+    while (!(await units.next()).done) { /* warnings only */ }
+    expect(warnings[1]).toHaveLength(1);
+    expect(warnings[1][0]).toBe(warnings[0][0]);
+  });
+
+  it('matches with table configs', async () => {
+    const wb = new ExcelJS.Workbook();
+    wb.addWorksheet('Cover').getCell('A1').value = 'Nothing to translate';
+    const ws = wb.addWorksheet('UI');
+    ws.getCell('A1').value = 'UI strings';
+    ws.getCell('G3').value = 'English';
+    ws.addTable({
+      name: 'Strings',
+      ref: 'B3',
+      totalsRow: true,
+      columns: [{ name: 'Key', totalsRowLabel: 'Total' }, { name: 'English' }, { name: 'French' }],
+      rows: [['save', 'Save', ''], ['cancel', 'Cancel', 'Annuler']],
+    });
+    ws.getCell('C8').value = 'Below the table';
+    const input = path.join(tmpDir, 'stream-parity.tables.xlsx');
+    await wb.xlsx.writeFile(input);
+
+    const config: Config = {
+      global: { srcLang: 'en' },
+      workbook: { sheets: [{ namePattern: '^.*$', table: 'Strings', keyColumn: 'header:Key', sourceColumns: ['English'], targetColumns: { fr: 'French' }, translateSheetName: true }] },
+    };
+    const [inMemory, streamed] = await both(input, config, { onlyUntranslated: true });
+    expect(streamed).toEqual(inMemory);
+    expect(streamed.map(u => u.source)).toEqual(['UI', 'Save']);
+
+    const missing = { ...config, workbook: { sheets: [{ ...config.workbook.sheets[0], table: 'Other' }] } };
+    await expect(extract(input, missing)).rejects.toThrow("Table 'Other' not found on any sheet matching '^.*$'.");
+    await expect(both(input, missing)).rejects.toThrow("Table 'Other' not found on any sheet matching '^.*$'.");
+  });
+
+  it('matches with ranges and defined names', async () => {
+    const wb = new ExcelJS.Workbook();
+    const ws = wb.addWorksheet('UI');
+    ws.getCell('A1').value = 'Buttons';
+    ws.getCell('B2').value = 'Save';
+    ws.getCell('B3').value = 'Cancel';
+    ws.getCell('B5').value = 'Internal: do not translate';
+    ws.getCell('E8').value = 'Help';
+    ws.getCell('E9').value = 'About';
+    ws.getCell('G9').value = 'À propos';
+    wb.definedNames.add("'UI'!$E$8:$E$9", 'DialogStrings');
+    wb.addWorksheet('Other').getCell('B2').value = 'Elsewhere';
+    const input = path.join(tmpDir, 'stream-parity.ranges.xlsx');
+    await wb.xlsx.writeFile(input);
+
+    const config: Config = {
+      global: { srcLang: 'en' },
+      workbook: { sheets: [{ namePattern: '^.*$', sourceColumns: [], targetColumns: { fr: 'C' }, ranges: ["'UI'!B2:B3", { ref: 'DialogStrings', targetOffsets: { fr: 2 } }] }] },
+    };
+    const [inMemory, streamed] = await both(input, config, { prefillTargets: true });
+    expect(streamed).toEqual(inMemory);
+    expect(streamed.map(u => u.id)).toEqual(['UI::R2CB', 'UI::R3CB', 'UI::R8CE', 'UI::R9CE']);
+    expect(streamed[3].meta?.existingTargets).toEqual({ fr: 'À propos' });
+  });
+});
@@ -0,0 +1,84 @@
+import path from 'node:path';
+import fs from 'node:fs';
+import ExcelJS from 'exceljs';
+import { extract, merge } from '../src/index';
+import type { Config, TranslationUnit } from '../src/types';
+
+const tmpDir = path.join(process.cwd(), '.out');
+
+const config: Config = {
+  global: { srcLang: 'en' },
+  workbook: {
+    sheets: [{ namePattern: '^.*$', table: 'Strings', keyColumn: 'header:Key', sourceColumns: ['English'], targetColumns: { fr: 'French', de: 'German' } }],
+  },
+};
+
+async function makeBook(): Promise<string> {
+  const wb = new ExcelJS.Workbook();
+  wb.addWorksheet('Cover').getCell('A1').value = 'Nothing to translate';
+  const ws = wb.addWorksheet('UI');
+  ws.getCell('A1').value = 'UI strings';
+  ws.getCell('G3').value = 'English';
+  ws.addTable({
+    name: 'Strings',
+    ref: 'B3',
+    columns: [{ name: 'Key' }, { name: 'English' }, { name: 'French' }],
+    rows: [['save', 'Save', ''], ['cancel', 'Cancel', 'Annuler']],
+  });
+  ws.getCell('C7').value = 'Below the table';
+  const out = path.join(tmpDir, 'tables.xlsx');
+  await wb.xlsx.writeFile(out);
+  return out;
+}
+
+function unit(units: TranslationUnit[], key: string, text: string): TranslationUnit {
+  const u = units.find(x => x.key === key)!;
+  return { ...u, segments: [{ id: `${u.id}_s0`, source: u.source, target: text }], meta: { ...u.meta, targetLocale: undefined } };
+}
+
+describe('Excel Tables', () => {
+  beforeAll(() => { if (!fs.existsSync(tmpDir)) fs.mkdirSync(tmpDir, { recursive: true }); });
+
+  it('extracts the data rows of the table and follows rows added to it', async () => {
+    const input = await makeBook();
+    expect((await extract(input, config)).map(u => [u.row, u.key, u.source])).toEqual([
+      [4, 'save', 'Save'],
+      [5, 'cancel', 'Cancel'],
+    ]);
+
+    const wb = new ExcelJS.Workbook();
+    await wb.xlsx.readFile(input);
+    const ws = wb.getWorksheet('UI')!;
+    (ws.getTable('Strings') as any).table.tableRef = 'B3:D6';
+    ws.getCell('B6').value = 'help';
+    ws.getCell('C6').value = 'Help';
+    await wb.xlsx.writeFile(input);
+    expect((await extract(input, config)).map(u => u.source)).toEqual(['Save', 'Cancel', 'Help']);
+  });
+
+  it('grows the table with a new target column on merge', async () => {
+    const input = await makeBook();
+    const units = await extract(input, config);
+    const out = path.join(tmpDir, 'tables.merged.xlsx');
+    await merge(input, out, [unit(units, 'save', 'Enregistrer')], { ...config, global: { ...config.global, targetLocale: 'fr' } });
+    await merge(out, out, [unit(units, 'save', 'Speichern')], { ...config, global: { ...config.global, targetLocale: 'de' } });
+
+    const wb = new ExcelJS.Workbook();
+    await wb.xlsx.readFile(out);
+    const ws = wb.getWorksheet('UI')!;
+    const table = (ws.getTable('Strings') as any).table;
+    expect(table.tableRef).toBe('B3:E5');
+    expect(table.columns.map((c: any) => c.name)).toEqual(['Key', 'English', 'French', 'German']);
+    expect(ws.getCell('D4').value).toBe('Enregistrer');
+    expect(ws.getCell('E3').value).toBe('German');
+    expect(ws.getCell('E4').value).toBe('Speichern');
+    // The header outside the table is neither a source nor in the way
+    expect(ws.getCell('G3').value).toBe('English');
+  });
+
+  it('fails when no matching sheet holds the table', async () => {
+    const input = await makeBook();
+    const missing: Config = { ...config, workbook: { sheets: [{ ...config.workbook.sheets[0], table: 'Labels' }] } };
+    await expect(extract(input, missing)).rejects.toThrow("Table 'Labels' not found on any sheet matching '^.*$'.");
+  });
+});
@@ -1,4 +1,4 @@
-import { colIndexToLetter, colLetterToIndex, makeTuId } from '../src/utils/index';
+import { colIndexToLetter, colLetterToIndex, makeKeyTuId, makeTuId } from '../src/utils/index';
 
 test('column conversions', () => {
   expect(colIndexToLetter(1)).toBe('A');
@@ -10,4 +10,5 @@ test('column conversions', () => {
 
 test('tu id stable', () => {
   expect(makeTuId('Sheet 1', 2, 'A')).toBe('Sheet%201::R2CA');
+  expect(makeKeyTuId('Sheet 1', 'a:b|c', 'Source Text')).toBe('Sheet%201::K:a%3Ab%7Cc:Source%20Text');
 });
@@ -0,0 +1,144 @@
+import path from 'node:path';
+import fs from 'node:fs';
+import ExcelJS from 'exceljs';
+import { extract, exportUnitsToXliff, parseTranslated, merge } from '../src/index';
+import { parseListFormula } from '../src/io/validation';
+import type { Config, TranslationUnit } from '../src/types';
+
+const tmpDir = path.join(process.cwd(), '.out');
+
+const fr: Record<string, string> = {
+  Answer: 'Réponse',
+  'Choose an answer': 'Choisissez une réponse',
+  'Invalid value': 'Valeur invalide',
+  Yes: 'Oui',
+  No: 'Non',
+  Maybe: 'Peut-être',
+  Comment: 'Commentaire',
+};
+
+async function makeBook(): Promise<string> {
+  const wb = new ExcelJS.Workbook();
+  const ws = wb.addWorksheet('Form');
+  ws.getCell('A1').value = 'English';
+  ws.getCell('A2').value = 'Comment';
+  ws.getCell('A3').dataValidation = {
+    type: 'list',
+    allowBlank: true,
+    formulae: ['"Yes,No,Maybe"'],
+    showInputMessage: true,
+    promptTitle: 'Answer',
+    prompt: 'Choose an answer',
+    showErrorMessage: true,
+    errorTitle: 'Invalid value',
+  };
+  ws.getCell('A4').value = 'Count';
+  ws.getCell('A4').dataValidation = { type: 'list', formulae: ['$D$1:$D$3'] };
+  const out = path.join(tmpDir, 'validation.xlsx');
+  await wb.xlsx.writeFile(out);
+  return out;
+}
+
+function cfg(extra: Record<string, any> = {}): Config {
+  return {
+    global: { srcLang: 'en' },
+    workbook: { sheets: [{ namePattern: 'Form', sourceColumns: ['A'], targetColumns: { fr: 'B' }, dataValidation: { translate: true, ...extra } }] },
+  };
+}
+
+async function translate(input: string, config: Config): Promise<TranslationUnit[]> {
+  const xlf = await exportUnitsToXliff(await extract(input, config), config, { trgLang: 'fr' });
+  const parsed = parseTranslated(xlf, 'xlf');
+  for (const tu of parsed) tu.segments = tu.segments!.map(s => ({ ...s, target: fr[s.source] ?? s.source }));
+  return parsed;
+}
+
+async function readForm(file: string): Promise<ExcelJS.Worksheet> {
+  const wb = new ExcelJS.Workbook();
+  await wb.xlsx.readFile(file);
+  return wb.getWorksheet('Form')!;
+}
+
+describe('data validation strings', () => {
+  beforeAll(() => { if (!fs.existsSync(tmpDir)) fs.mkdirSync(tmpDir, { recursive: true }); });
+
+  it('parses inline lists only', () => {
+    expect(parseListFormula('"A,""B"",C"')).toEqual(['A', '"B"', 'C']);
+    expect(parseListFormula('$D$1:$D$3')).toBeNull();
+  });
+
+  it('extracts prompts, errors and inline list values of source cells', async () => {
+    const input = await makeBook();
+    const units = await extract(input, cfg());
+    expect(units.map(u => [u.id, u.kind, u.source])).toEqual([
+      ['Form::R2CA', undefined, 'Comment'],
+      ['Form::R3CA::dv:promptTitle', 'validation', 'Answer'],
+      ['Form::R3CA::dv:prompt', 'validation', 'Choose an answer'],
+      ['Form::R3CA::dv:errorTitle', 'validation', 'Invalid value'],
+      ['Form::R3CA::dv:list:0', 'validation', 'Yes'],
+      ['Form::R3CA::dv:list:1', 'validation', 'No'],
+      ['Form::R3CA::dv:list:2', 'validation', 'Maybe'],
+      ['Form::R4CA', undefined, 'Count'],
+    ]);
+    const noLists = await extract(input, cfg({ listValues: false }));
+    expect(noLists.filter(u => u.id.includes('::dv:list'))).toHaveLength(0);
+  });
+
+  it('writes a translated copy of the validation onto the target cell', async () => {
+    const input = await makeBook();
+    const config = cfg();
+    const out = path.join(tmpDir, 'validation.target.xlsx');
+    await merge(input, out, await translate(input, config), config);
+
+    const ws = await readForm(out);
+    const dv: any = ws.getCell('B3').dataValidation;
+    expect(dv).toMatchObject({
+      type: 'list',
+      formulae: ['"Oui,Non,Peut-être"'],
+      promptTitle: 'Réponse',
+      prompt: 'Choisissez une réponse',
+      errorTitle: 'Valeur invalide',
+    });
+    expect((ws.getCell('A3').dataValidation as any).formulae).toEqual(['"Yes,No,Maybe"']);
+  });
+
+  it('rewrites the source validation in place', async () => {
+    const input = await makeBook();
+    const config = cfg({ mergeInto: 'source' });
+    const out = path.join(tmpDir, 'validation.source.xlsx');
+    await merge(input, out, await translate(input, config), config);
+    const ws = await readForm(out);
+    expect((ws.getCell('A3').dataValidation as any).formulae).toEqual(['"Oui,Non,Peut-être"']);
+    expect(ws.getCell('B3').dataValidation).toBeUndefined();
+  });
+
+  it('reports list values it cannot write and merges the other units', async () => {
+    const input = await makeBook();
+    const config = cfg();
+    const units = await translate(input, config);
+    const setTarget = (id: string, target: string) => {
+      const tu = units.find(u => u.id === id)!;
+      tu.segments = [{ ...tu.segments![0], target }];
+    };
+    setTarget('Form::R3CA::dv:list:2', 'Peut-être, plus tard');
+    // 255 characters once unescaped: doubled quotes in the formula do not count
+    setTarget('Form::R3CA::dv:list:1', '"'.repeat(10) + 'n'.repeat(255 - 'Oui,'.length - ',Maybe'.length - 10));
+    const out = path.join(tmpDir, 'validation.invalid.xlsx');
+    const report = await merge(input, out, units, config);
+    expect(report.invalidListValues).toEqual([
+      { sheetName: 'Form', unitId: 'Form::R3CA::dv:list:2', locale: 'fr', reason: 'contains a comma, which Excel uses as the list separator' },
+    ]);
+    let dv: any = (await readForm(out)).getCell('B3').dataValidation;
+    expect(parseListFormula(dv.formulae[0])!.join(',')).toHaveLength(255);
+    expect(dv.formulae[0]).toMatch(/,Maybe"$/);
+    expect(dv.promptTitle).toBe('Réponse');
+
+    setTarget('Form::R3CA::dv:list:2', 'Peut-être');
+    const tooLong = await merge(input, out, units, config);
+    expect(tooLong.invalidListValues.map(v => [v.unitId, v.reason])).toEqual([
+      ['Form::R3CA::dv:list:2', "makes the dropdown list 259 characters long; Excel allows 255"],
+    ]);
+    dv = (await readForm(out)).getCell('B3').dataValidation;
+    expect(dv.formulae[0]).toMatch(/,Maybe"$/);
+  });
+});
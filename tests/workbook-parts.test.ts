@@ -0,0 +1,123 @@
+import path from 'node:path';
+import fs from 'node:fs';
+import ExcelJS from 'exceljs';
+import { extract, exportUnitsToXliff, parseTranslated, merge } from '../src/index';
+import { rewriteSheetRefs } from '../src/io/parts';
+import type { Config, TranslationUnit } from '../src/types';
+
+const tmpDir = path.join(process.cwd(), '.out');
+
+async function makeBook(): Promise<string> {
+  const wb = new ExcelJS.Workbook();
+  wb.title = 'Price list';
+  wb.subject = 'Spring catalogue';
+  wb.company = 'ACME';
+  const ws = wb.addWorksheet('Prices');
+  ws.getCell('A1').value = 'English';
+  ws.getCell('A2').value = 'Apple';
+  ws.getCell('C2').value = 3;
+  ws.headerFooter.oddHeader = '&LConfidential&RPage &P of &N';
+  const summary = wb.addWorksheet('Summary');
+  summary.getCell('A1').value = { formula: "Prices!C2*2+'Prices'!C2", result: 9 } as any;
+  summary.getCell('A2').value = { formula: 'CONCAT("Prices!",1)', result: 'Prices!1' } as any;
+  wb.definedNames.add("'Prices'!$C$2", 'UnitPrice');
+  const out = path.join(tmpDir, 'parts.xlsx');
+  await wb.xlsx.writeFile(out);
+  return out;
+}
+
+function cfg(): Config {
+  return {
+    global: { srcLang: 'en' },
+    workbook: {
+      translateProperties: ['title', 'subject'],
+      sheets: [{ namePattern: 'Prices', sourceColumns: ['A'], targetColumns: { fr: 'B' }, translateSheetName: true, translateHeaderFooter: true }],
+    },
+  };
+}
+
+const fr: Record<string, string> = {
+  Prices: 'Prix unitaires',
+  Apple: 'Pomme',
+  'Price list': 'Liste de prix',
+  'Spring catalogue': 'Catalogue de printemps',
+};
+
+async function translate(input: string, config: Config): Promise<TranslationUnit[]> {
+  const xlf = await exportUnitsToXliff(await extract(input, config), config, { trgLang: 'fr' });
+  const parsed = parseTranslated(xlf, 'xlf');
+  for (const tu of parsed) {
+    tu.segments = tu.segments!.map(s => ({
+      ...s,
+      target: fr[s.source] ?? s.source.replace('Confidential', 'Confidentiel'),
+    }));
+  }
+  return parsed;
+}
+
+describe('sheet names, headers/footers and document properties', () => {
+  beforeAll(() => { if (!fs.existsSync(tmpDir)) fs.mkdirSync(tmpDir, { recursive: true }); });
+
+  it('extracts opt-in parts with their own ids and protects header codes', async () => {
+    const input = await makeBook();
+    const config = cfg();
+    const units = await extract(input, config);
+    expect(units.map(u => [u.id, u.kind, u.source])).toEqual([
+      ['Prices::sheetName', 'sheetName', 'Prices'],
+      ['Prices::hf:oddHeader', 'headerFooter', '&LConfidential&RPage &P of &N'],
+      ['Prices::R2CA', undefined, 'Apple'],
+      ['workbook::prop:title', 'property', 'Price list'],
+      ['workbook::prop:subject', 'property', 'Spring catalogue'],
+    ]);
+    const xlf = await exportUnitsToXliff(units, config, { trgLang: 'fr' });
+    const header = parseTranslated(xlf, 'xlf').find(u => u.kind === 'headerFooter')!;
+    expect(header.sheetName).toBe('Prices');
+    expect(header.segments![0].source).not.toContain('&P');
+
+    const plain = await extract(input, { ...config, workbook: { sheets: [{ namePattern: 'Prices', sourceColumns: ['A'] }] } });
+    expect(plain.map(u => u.id)).toEqual(['Prices::R2CA']);
+  });
+
+  it('writes parts back and rewrites references to the renamed sheet', async () => {
+    const input = await makeBook();
+    const config = cfg();
+    const out = path.join(tmpDir, 'parts.fr.xlsx');
+    await merge(input, out, await translate(input, config), config);
+
+    const wb = new ExcelJS.Workbook();
+    await wb.xlsx.readFile(out);
+    expect(wb.getWorksheet('Prices')).toBeUndefined();
+    const ws = wb.getWorksheet('Prix unitaires')!;
+    expect(ws.getCell('B2').value).toBe('Pomme');
+    expect(ws.headerFooter.oddHeader).toBe('&LConfidentiel&RPage &P of &N');
+    expect(wb.title).toBe('Liste de prix');
+    expect(wb.subject).toBe('Catalogue de printemps');
+    expect(wb.company).toBe('ACME');
+
+    const summary = wb.getWorksheet('Summary')!;
+    expect((summary.getCell('A1').value as any).formula).toBe("'Prix unitaires'!C2*2+'Prix unitaires'!C2");
+    expect((summary.getCell('A2').value as any).formula).toBe('CONCAT("Prices!",1)');
+    expect(wb.definedNames.model).toEqual([{ name: 'UnitPrice', ranges: ["'Prix unitaires'!$C$2"] }]);
+  });
+
+  it('refuses invalid or clashing sheet names', async () => {
+    const input = await makeBook();
+    const config = cfg();
+    const units = await translate(input, config);
+    const sheetUnit = units.find(u => u.kind === 'sheetName')!;
+
+    sheetUnit.segments = [{ ...sheetUnit.segments![0], target: 'Prix/Tarifs' }];
+    await expect(merge(input, path.join(tmpDir, 'parts.bad.xlsx'), units, config)).rejects.toThrow(
+      "Translated name 'Prix/Tarifs' for sheet 'Prices' contains one of the characters"
+    );
+    sheetUnit.segments = [{ ...sheetUnit.segments![0], target: 'summary' }];
+    await expect(merge(input, path.join(tmpDir, 'parts.bad.xlsx'), units, config)).rejects.toThrow(
+      "Sheets 'Prices' and 'Summary' would both be named 'Summary'."
+    );
+  });
+
+  it('quotes new names only when needed', () => {
+    const renames = new Map([['Old', 'New'], ["It's", 'A1']]);
+    expect(rewriteSheetRefs("SUM(Old!A1:A3)+'It''s'!B2", renames)).toBe("SUM(New!A1:A3)+'A1'!B2");
+  });
+});
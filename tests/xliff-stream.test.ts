@@ -0,0 +1,71 @@
+import path from 'node:path';
+import fs from 'node:fs';
+import { exportUnitsToXliff, exportUnitsToXliffStream, parseTranslated } from '../src/index';
+import type { Config, TranslationUnit } from '../src/types';
+
+const tmpDir = path.join(process.cwd(), '.out');
+const goldenDir = path.join(__dirname, 'golden');
+
+const config = (xliffVersion: '1.2' | '2.1'): Config => ({
+  global: { srcLang: 'en', xliffVersion, exportComments: true },
+  workbook: { sheets: [{ namePattern: 'UI', sourceColumns: ['B'], targetColumns: { fr: 'C' }, maxCharsColumn: 'D', inlineCodeRegexes: ['\\{\\d+\\}'] }] },
+});
+
+const units: TranslationUnit[] = [
+  {
+    id: 'UI::R2CB', sheetName: 'UI', row: 2, col: 'B', source: '  Open {0} files.  Then close.',
+    segments: [
+      { id: 'UI::R2CB_s0', source: '  Open {0} files.', target: '  Ouvrir {0} fichiers.' },
+      { id: 'UI::R2CB_s1', source: 'Then close.', target: '', state: 'initial' },
+    ],
+    meta: { maxChars: 40, headerName: 'Source', metadataRows: { 1: 'Source' }, comments: 'Shown on the toolbar', context: { screen: 'Home' } },
+  },
+  {
+    id: 'UI::R3CB', sheetName: 'UI', row: 3, col: 'B', source: '{count, plural, one {1 file} other {# files}}',
+    segments: [{ id: 'UI::R3CB_s0', source: '{count, plural, one {1 file} other {# files}}' }],
+  },
+  {
+    id: 'UI::R4CB', sheetName: 'UI', row: 4, col: 'B', source: 'Hello <pc id="1" dataRef="html_b">world</pc>',
+    segments: [{ id: 'UI::R4CB_s0', source: 'Hello <pc id="1" dataRef="html_b">world</pc>' }],
+    meta: { htmlSkeleton: '<p>[[CONTENT]]</p>', htmlInlineMap: { 1: { open: '<b>', close: '</b>' } } },
+  },
+  {
+    id: 'UI::R5CB', sheetName: 'UI', row: 5, col: 'B', source: 'Press Save', key: 'save.button',
+    segments: [{ id: 'UI::R5CB_s0', source: 'Press Save' }],
+    meta: { richTextFonts: { base: {}, runs: { 1: { bold: true } } }, hyperlink: { url: 'https://example.com' } },
+  },
+  {
+    id: 'UI::hf:oddHeader', kind: 'headerFooter', sheetName: 'UI', row: 0, col: '', source: '&CCatalogue & prices',
+    segments: [{ id: 'UI::hf:oddHeader_s0', source: '&CCatalogue & prices' }],
+  },
+  {
+    id: 'UI::R6CB', sheetName: 'UI', row: 6, col: 'B', source: 'SKU-42',
+    segments: [{ id: 'UI::R6CB_s0', source: 'SKU-42' }],
+    meta: { locked: true },
+  },
+];
+
+async function* iterate(list: TranslationUnit[]): AsyncGenerator<TranslationUnit> {
+  for (const u of list) yield u;
+}
+
+describe('streaming XLIFF export', () => {
+  beforeAll(() => { if (!fs.existsSync(tmpDir)) fs.mkdirSync(tmpDir, { recursive: true }); });
+
+  it.each(['2.1', '1.2'] as const)('writes the golden XLIFF %s document, as exportUnitsToXliff does', async version => {
+    const options = { srcLang: 'en', trgLang: 'fr', generator: 'excel-l10n' };
+    const golden = fs.readFileSync(path.join(goldenDir, `export.${version}.xlf`), 'utf-8');
+    expect(await exportUnitsToXliff(units, config(version), options)).toBe(golden);
+
+    const output = path.join(tmpDir, `xliff-stream.${version}.xlf`);
+    await exportUnitsToXliffStream(iterate(units), config(version), output, options);
+    expect(fs.readFileSync(output, 'utf-8')).toBe(golden);
+    expect(parseTranslated(golden, 'xlf').map(u => u.id)).toEqual(units.map(u => u.id));
+  });
+
+  it('writes an empty file element without units', async () => {
+    const output = path.join(tmpDir, 'xliff-stream.empty.xlf');
+    await exportUnitsToXliffStream(iterate([]), config('2.1'), output, { trgLang: 'fr' });
+    expect(fs.readFileSync(output, 'utf-8')).toBe(await exportUnitsToXliff([], config('2.1'), { trgLang: 'fr' }));
+  });
+});